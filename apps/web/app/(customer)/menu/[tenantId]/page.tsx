@@ -1,7 +1,7 @@
 ```typescript
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useSearchParams, useRouter } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -21,7 +21,9 @@ import {
   AlertTriangle,
   MessageCircle,
   X,
-  Check
+  Check,
+  Send,
+  ShieldAlert
 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
@@ -35,68 +37,46 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
 import { toast } from '@/components/ui/use-toast';
+import {
+  add,
+  formatMoney,
+  fromMajor,
+  isLessThan,
+  multiply,
+  sumMoney,
+  zero,
+  type Money,
+} from '@hospity/utils';
+import { useCart, getUnitPrice, type CartItem } from '@/lib/cart-store';
+import { useDinerIdentity, useTableCart, type TableCartItem } from '@/lib/table-session';
+import { isAvailable, unavailableParts, useMenuAvailability } from '@/lib/menu-availability';
+import { orderCategories, sortMenu } from '@/lib/menu-order';
+import { MenuItemCard } from '@/components/menu/menu-item-card';
+import {
+  getActiveModifiers,
+  getSelectionLimits,
+  pruneSelection,
+  validateModifiers,
+  type ModifierErrors,
+} from '@/lib/modifier-rules';
+import {
+  COMMON_ALLERGENS,
+  DIETARY_REQUIREMENTS,
+  getItemConflicts,
+  getOptionConflicts,
+  isEmptyProfile,
+  useDietaryProfile,
+} from '@/lib/dietary-profile';
+import type { ChatMessage, MenuAssistantReply } from '@hospity/ai';
+import type { MenuItem, Tenant } from '@/types/menu';
+import type { PickupSlot } from '@/types/order';
+import type { Review } from '@/types/review';
+import type { SignedPriceBreakdown } from '@/server/pricing';
 
-// Types
-interface MenuItem {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  category: string;
-  images: string[];
-  allergens: string[];
-  dietary: string[];
-  preparationTime: number;
-  available: boolean;
-  rating: number;
-  reviewCount: number;
-  calories?: number;
-  spiceLevel?: number;
-  tags: string[];
-  modifiers: MenuModifier[];
-}
-
-interface MenuModifier {
-  id: string;
-  name: string;
-  type: 'single' | 'multiple';
-  required: boolean;
-  options: ModifierOption[];
-}
-
-interface ModifierOption {
-  id: string;
-  name: string;
-  price: number;
-}
-
-interface CartItem {
-  menuItemId: string;
-  quantity: number;
-  modifiers: { [modifierId: string]: string[] };
-  specialInstructions?: string;
-  price: number;
-}
-
-interface Tenant {
-  id: string;
-  name: string;
-  logo: string;
-  currency: string;
-  locale: string;
-  theme: {
-    primaryColor: string;
-    secondaryColor: string;
-    fontFamily: string;
-  };
-  settings: {
-    enableAIChat: boolean;
-    enableReviews: boolean;
-    minimumOrder: number;
-    deliveryFee: number;
-    taxRate: number;
-  };
+interface AssistantMessage extends ChatMessage {
+  suggestedItemIds?: string[];
 }
 
 // Validation schemas
@@ -115,6 +95,8 @@ const checkoutSchema = z.object({
   tableNumber: z.string().optional(),
   deliveryAddress: z.string().optional(),
   specialRequests: z.string().optional(),
+  // Slot start as an ISO string; empty means as soon as possible
+  scheduledFor: z.string().optional(),
 });
 
 type CheckoutFormData = z.infer<typeof checkoutSchema>;
@@ -127,18 +109,44 @@ export default function CustomerMenuPage() {
   
   const tenantId = params.tenantId as string;
   const tableNumber = searchParams.get('table');
+  const tableKey = searchParams.get('key');
   
   // State
-  const [cart, setCart] = useState<CartItem[]>([]);
+  // Guests at a table share one live cart; everyone else keeps theirs locally
+  const localCart = useCart(tenantId, tableNumber);
+  const tableCart = useTableCart(tenantId, tableNumber, tableKey);
+  const {
+    items: cart,
+    addItem,
+    updateQuantity,
+    clear: clearCart,
+    reconcile: reconcileCart,
+  } = tableNumber ? tableCart : localCart;
+  const tableSession = tableCart.session;
+  const { dinerId, dinerName, setDinerName } = useDinerIdentity();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedFilters, setSelectedFilters] = useState<string[]>([]);
   const [showCart, setShowCart] = useState(false);
   const [showCheckout, setShowCheckout] = useState(false);
   const [showAIChat, setShowAIChat] = useState(false);
+  const [chatMessages, setChatMessages] = useState<AssistantMessage[]>([]);
+  const [chatInput, setChatInput] = useState('');
+  const [showDietaryProfile, setShowDietaryProfile] = useState(false);
+  
+  const {
+    avoidAllergens,
+    dietary,
+    hideUnsafe,
+    toggleAllergen,
+    toggleDietary,
+    setHideUnsafe,
+  } = useDietaryProfile();
+  const dietaryProfile = useMemo(() => ({ avoidAllergens, dietary }), [avoidAllergens, dietary]);
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [itemQuantity, setItemQuantity] = useState(1);
   const [itemModifiers, setItemModifiers] = useState<{ [key: string]: string[] }>({});
+  const [modifierErrors, setModifierErrors] = useState<ModifierErrors>({});
   const [specialInstructions, setSpecialInstructions] = useState('');
 
   // Forms
@@ -169,6 +177,40 @@ export default function CustomerMenuPage() {
     },
   });
 
+  // Items the kitchen runs out of or restocks change without a reload
+  useMenuAvailability(tenantId);
+
+  const orderType = checkoutForm.watch('orderType');
+
+  const { data: quote, isFetching: quoteLoading } = useQuery({
+    queryKey: ['price-quote', tenantId, orderType, cart],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${tenantId}/orders/quote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderType,
+          items: cart.map(({ menuItemId, quantity, modifiers }) => ({ menuItemId, quantity, modifiers })),
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to price order');
+      return response.json() as Promise<SignedPriceBreakdown>;
+    },
+    enabled: cart.length > 0,
+  });
+
+  const schedulingEnabled = !!tenant?.settings.scheduling && orderType !== 'dine-in';
+
+  const { data: pickupSlots = [] } = useQuery({
+    queryKey: ['pickup-slots', tenantId],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${tenantId}/slots`);
+      if (!response.ok) throw new Error('Failed to fetch time slots');
+      return response.json() as Promise<PickupSlot[]>;
+    },
+    enabled: showCheckout && schedulingEnabled,
+  });
+
   const createOrderMutation = useMutation({
     mutationFn: async (orderData: any) => {
       const response = await fetch(`/api/tenants/${tenantId}/orders`, {
@@ -176,7 +218,10 @@ export default function CustomerMenuPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(orderData),
       });
-      if (!response.ok) throw new Error('Failed to create order');
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to create order');
+      }
       return response.json();
     },
     onSuccess: (data) => {
@@ -184,30 +229,110 @@ export default function CustomerMenuPage() {
         title: 'Order placed successfully!',
         description: `Order #${data.orderNumber} has been sent to the kitchen.`,
       });
-      setCart([]);
+      clearCart();
       setShowCheckout(false);
-      router.push(`/order/${data.id}/tracking`);
+      router.push(`/order/${data.id}/tracking?token=${encodeURIComponent(data.trackingToken)}`);
     },
     onError: (error) => {
+      // Prices may have moved since the quote was issued, or the chosen slot
+      // filled up; fetch fresh ones.
+      queryClient.invalidateQueries({ queryKey: ['price-quote', tenantId] });
+      queryClient.invalidateQueries({ queryKey: ['pickup-slots', tenantId] });
       toast({
         title: 'Order failed',
-        description: 'Please try again or contact support.',
+        description: error.message || 'Please try again or contact support.',
         variant: 'destructive',
       });
     },
   });
 
+  const assistantMutation = useMutation({
+    mutationFn: async (messages: ChatMessage[]) => {
+      const response = await fetch(`/api/tenants/${tenantId}/assistant`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages }),
+      });
+      if (!response.ok) throw new Error('The assistant is unavailable right now');
+      return response.json() as Promise<MenuAssistantReply>;
+    },
+    onSuccess: (reply) => {
+      setChatMessages(prev => [
+        ...prev,
+        { role: 'assistant', content: reply.message, suggestedItemIds: reply.suggestedItemIds },
+      ]);
+    },
+    onError: (error) => {
+      toast({
+        title: 'AI Assistant',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const reviewsEnabled = !!tenant?.settings.enableReviews;
+
+  const { data: itemReviews } = useQuery({
+    queryKey: ['item-reviews', tenantId, selectedItem?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${tenantId}/menu/${selectedItem!.id}/reviews`);
+      if (!response.ok) throw new Error('Failed to fetch reviews');
+      return response.json() as Promise<Review[]>;
+    },
+    enabled: !!selectedItem && reviewsEnabled,
+  });
+
+  // Drop saved lines that are no longer orderable at the price they were added at
+  useEffect(() => {
+    if (!menu || !tenant) return;
+    const removed = reconcileCart(menu, tenant.currency);
+    if (removed.length > 0) {
+      toast({
+        title: 'Your cart was updated',
+        description: `${removed.length} item(s) were removed because they sold out, left the menu or their price changed.`,
+      });
+    }
+  }, [menu, tenant, reconcileCart]);
+
+  // The open item follows live stock changes too
+  useEffect(() => {
+    setSelectedItem(current => current && (menu?.find(item => item.id === current.id) ?? current));
+  }, [menu]);
+
+  // What in each cart line has sold out since it was added
+  const soldOutParts = useMemo(
+    () =>
+      cart.map(line => {
+        const menuItem = menu?.find(item => item.id === line.menuItemId);
+        return menuItem ? unavailableParts(menuItem, line.modifiers) : [];
+      }),
+    [cart, menu]
+  );
+  const soldOutCount = soldOutParts.filter(parts => parts.length > 0).length;
+
+  const previousSoldOut = useRef(0);
+  useEffect(() => {
+    if (soldOutCount > previousSoldOut.current) {
+      toast({
+        title: 'Something in your cart sold out',
+        description: 'Remove it or pick another option before checking out.',
+        variant: 'destructive',
+      });
+    }
+    previousSoldOut.current = soldOutCount;
+  }, [soldOutCount]);
+
   // Computed values
   const categories = useMemo(() => {
     if (!menu) return [];
-    const cats = Array.from(new Set(menu.map(item => item.category)));
-    return ['all', ...cats];
-  }, [menu]);
+    return ['all', ...orderCategories(menu, tenant?.settings.menuCategories)];
+  }, [menu, tenant]);
 
   const filteredMenu = useMemo(() => {
     if (!menu) return [];
     
-    return menu.filter(item => {
+    return sortMenu(menu, tenant?.settings.menuCategories).filter(item => {
       // Search filter
       if (searchQuery && !item.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
           !item.description.toLowerCase().includes(searchQuery.toLowerCase())) {
@@ -227,13 +352,28 @@ export default function CustomerMenuPage() {
         if (!hasFilter) return false;
       }
       
-      return item.available;
+      // Guest allergy and diet profile
+      if (hideUnsafe && getItemConflicts(item, dietaryProfile).length > 0) {
+        return false;
+      }
+      
+      return isAvailable(item);
     });
-  }, [menu, searchQuery, selectedCategory, selectedFilters]);
+  }, [menu, tenant, searchQuery, selectedCategory, selectedFilters, dietaryProfile, hideUnsafe]);
+
+  const allergenChoices = useMemo(() => {
+    const fromMenu = (menu || []).flatMap(item => item.allergens.map(a => a.toLowerCase()));
+    return Array.from(new Set([...COMMON_ALLERGENS, ...fromMenu]));
+  }, [menu]);
 
   const cartTotal = useMemo(() => {
-    return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
-  }, [cart]);
+    if (!tenant) return null;
+    return sumMoney(cart.map(item => multiply(item.unitPrice, item.quantity)), tenant.currency);
+  }, [cart, tenant]);
+
+  const belowMinimum = quote
+    ? quote.belowMinimum
+    : !!tenant && !!cartTotal && isLessThan(cartTotal, fromMajor(tenant.settings.minimumOrder || 0, tenant.currency));
 
   const cartItemCount = useMemo(() => {
     return cart.reduce((count, item) => count + item.quantity, 0);
@@ -241,52 +381,99 @@ export default function CustomerMenuPage() {
 
   // Cart functions
   const addToCart = () => {
-    if (!selectedItem) return;
-    
-    const modifierPrice = Object.entries(itemModifiers).reduce((total, [modifierId, optionIds]) => {
-      const modifier = selectedItem.modifiers.find(m => m.id === modifierId);
-      if (!modifier) return total;
-      
-      return total + optionIds.reduce((modTotal, optionId) => {
-        const option = modifier.options.find(o => o.id === optionId);
-        return modTotal + (option?.price || 0);
-      }, 0);
-    }, 0);
+    if (!selectedItem || !tenant) return;
 
+    const errors = validateModifiers(selectedItem, itemModifiers);
+    if (errors) {
+      setModifierErrors(errors);
+      return;
+    }
+    
     const cartItem: CartItem = {
       menuItemId: selectedItem.id,
       quantity: itemQuantity,
       modifiers: itemModifiers,
-      specialInstructions: specialInstructions || undefined,
-      price: selectedItem.price + modifierPrice,
+      specialInstructions: specialInstructions.trim() || undefined,
+      unitPrice: getUnitPrice(selectedItem, itemModifiers, tenant.currency),
     };
 
-    setCart(prev => [...prev, cartItem]);
+    addCartItem(cartItem, `${selectedItem.name} x${itemQuantity}`);
     
     // Reset item selection
     setSelectedItem(null);
     setItemQuantity(1);
     setItemModifiers({});
+    setModifierErrors({});
     setSpecialInstructions('');
-    
-    toast({
-      title: 'Added to cart',
-      description: `${selectedItem.name} x${itemQuantity}`,
+  };
+
+  const addCartItem = (item: CartItem, description: string) => {
+    Promise.resolve(addItem(item))
+      .then(() => toast({ title: 'Added to cart', description }))
+      .catch((error: Error) =>
+        toast({ title: 'Could not add item', description: error.message, variant: 'destructive' })
+      );
+  };
+
+  const toggleModifierOption = (modifierId: string, optionId: string, checked: boolean, single: boolean) => {
+    if (!selectedItem) return;
+
+    setItemModifiers(prev => {
+      const current = prev[modifierId] || [];
+      const next = {
+        ...prev,
+        [modifierId]: single
+          ? (checked ? [optionId] : [])
+          : (checked ? [...current, optionId] : current.filter(id => id !== optionId)),
+      };
+      // Drop choices for nested groups whose parent option was just deselected
+      return pruneSelection(selectedItem, next);
+    });
+    setModifierErrors(prev => {
+      const { [modifierId]: _cleared, ...rest } = prev;
+      return rest;
     });
   };
 
-  const updateCartItemQuantity = (index: number, newQuantity: number) => {
-    if (newQuantity === 0) {
-      setCart(prev => prev.filter((_, i) => i !== index));
-    } else {
-      setCart(prev => prev.map((item, i) => 
-        i === index ? { ...item, quantity: newQuantity } : item
-      ));
+  const sendChatMessage = () => {
+    const content = chatInput.trim();
+    if (!content || assistantMutation.isPending) return;
+
+    const messages = [...chatMessages, { role: 'user' as const, content }];
+    setChatMessages(messages);
+    setChatInput('');
+    assistantMutation.mutate(messages.map(({ role, content }) => ({ role, content })));
+  };
+
+  const addSuggestedItem = (item: MenuItem) => {
+    if (!tenant) return;
+
+    // Items with choices to make go through the item dialog
+    if (item.modifiers.length > 0) {
+      setShowAIChat(false);
+      setSelectedItem(item);
+      return;
     }
+
+    addCartItem(
+      {
+        menuItemId: item.id,
+        quantity: 1,
+        modifiers: {},
+        unitPrice: getUnitPrice(item, {}, tenant.currency),
+      },
+      `${item.name} x1`
+    );
+  };
+
+  const updateCartItemQuantity = (index: number, newQuantity: number) => {
+    Promise.resolve(updateQuantity(index, newQuantity)).catch((error: Error) =>
+      toast({ title: 'Could not update item', description: error.message, variant: 'destructive' })
+    );
   };
 
   const handleCheckout = async (data: CheckoutFormData) => {
-    if (cart.length === 0) return;
+    if (cart.length === 0 || !quote) return;
     
     const orderData = {
       tenantId,
@@ -298,11 +485,17 @@ export default function CustomerMenuPage() {
       orderType: data.orderType,
       tableNumber: data.tableNumber,
       deliveryAddress: data.deliveryAddress,
-      items: cart,
-      subtotal: cartTotal,
-      tax: cartTotal * (tenant?.settings.taxRate || 0),
-      deliveryFee: data.orderType === 'delivery' ? (tenant?.settings.deliveryFee || 0) : 0,
+      items: cart.map(({ menuItemId, quantity, modifiers, specialInstructions }) => ({
+        menuItemId,
+        quantity,
+        modifiers,
+        specialInstructions,
+      })),
+      tableSessionId: tableNumber ? tableSession?.id : undefined,
+      scheduledFor: schedulingEnabled && data.scheduledFor ? data.scheduledFor : undefined,
+      quote,
       specialRequests: data.specialRequests,
+      dietaryProfile: isEmptyProfile(dietaryProfile) ? undefined : dietaryProfile,
     };
 
     createOrderMutation.mutate(orderData);
@@ -327,6 +520,18 @@ export default function CustomerMenuPage() {
     );
   }
 
+  const formatPrice = (amount: Money) => formatMoney(amount, tenant.locale);
+  const formatMenuPrice = (price: number) => formatPrice(fromMajor(price, tenant.currency));
+  const formatSlot = (slot: PickupSlot) =>
+    new Intl.DateTimeFormat(tenant.locale, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: tenant.settings.scheduling?.timezone,
+    }).format(new Date(slot.startsAt));
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -377,6 +582,21 @@ export default function CustomerMenuPage() {
                   </SheetHeader>
                   
                   <div className="mt-6 space-y-4">
+                    {tableNumber && (
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Your name at this table</label>
+                        <Input
+                          placeholder="Guest"
+                          value={dinerName}
+                          maxLength={40}
+                          onChange={(e) => setDinerName(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Everyone at table {tableNumber} shares this order.
+                        </p>
+                      </div>
+                    )}
+
                     {cart.length === 0 ? (
                       <p className="text-center text-muted-foreground py-8">
                         Your cart is empty
@@ -387,37 +607,54 @@ export default function CustomerMenuPage() {
                           {cart.map((item, index) => {
                             const menuItem = menu.find(m => m.id === item.menuItemId);
                             if (!menuItem) return null;
+                            // At a table, diners can only change the lines they added
+                            const editable = !('dinerId' in item) || (item as TableCartItem).dinerId === dinerId;
                             
                             return (
                               <div key={index} className="flex items-center space-x-3 py-3 border-b">
                                 <div className="flex-1">
                                   <h4 className="font-medium">{menuItem.name}</h4>
+                                  {'dinerName' in item && (
+                                    <p className="text-xs text-muted-foreground">
+                                      Added by {(item as TableCartItem).dinerName}
+                                    </p>
+                                  )}
                                   <p className="text-sm text-muted-foreground">
-                                    {tenant.currency}{item.price.toFixed(2)} each
+                                    {formatPrice(item.unitPrice)} each
                                   </p>
                                   {item.specialInstructions && (
                                     <p className="text-xs text-muted-foreground mt-1">
                                       Note: {item.specialInstructions}
                                     </p>
                                   )}
+                                  {soldOutParts[index]?.length > 0 && (
+                                    <p className="flex items-center gap-1 text-xs text-red-600 mt-1">
+                                      <AlertTriangle className="h-3 w-3" />
+                                      Sold out: {soldOutParts[index].join(', ')}
+                                    </p>
+                                  )}
                                 </div>
                                 
                                 <div className="flex items-center space-x-2">
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => updateCartItemQuantity(index, item.quantity - 1)}
-                                  >
-                                    <Minus className="h-3 w-3" />
-                                  </Button>
+                                  {editable && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => updateCartItemQuantity(index, item.quantity - 1)}
+                                    >
+                                      <Minus className="h-3 w-3" />
+                                    </Button>
+                                  )}
                                   <span className="w-8 text-center">{item.quantity}</span>
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => updateCartItemQuantity(index, item.quantity + 1)}
-                                  >
-                                    <Plus className="h-3 w-3" />
-                                  </Button>
+                                  {editable && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => updateCartItemQuantity(index, item.quantity + 1)}
+                                    >
+                                      <Plus className="h-3 w-3" />
+                                    </Button>
+                                  )}
                                 </div>
                               </div>
                             );
@@ -429,15 +666,15 @@ export default function CustomerMenuPage() {
                         <div className="space-y-2">
                           <div className="flex justify-between">
                             <span>Subtotal</span>
-                            <span>{tenant.currency}{cartTotal.toFixed(2)}</span>
+                            <span>{formatPrice(quote?.subtotal ?? cartTotal ?? zero(tenant.currency))}</span>
                           </div>
                           <div className="flex justify-between">
                             <span>Tax</span>
-                            <span>{tenant.currency}{(cartTotal * (tenant.settings.taxRate || 0)).toFixed(2)}</span>
+                            <span>{quote ? formatPrice(quote.tax) : '—'}</span>
                           </div>
                           <div className="flex justify-between font-bold">
                             <span>Total</span>
-                            <span>{tenant.currency}{(cartTotal * (1 + (tenant.settings.taxRate || 0))).toFixed(2)}</span>
+                            <span>{quote ? formatPrice(add(quote.subtotal, quote.tax)) : '—'}</span>
                           </div>
                         </div>
                         
@@ -447,11 +684,13 @@ export default function CustomerMenuPage() {
                             setShowCart(false);
                             setShowCheckout(true);
                           }}
-                          disabled={cartTotal < tenant.settings.minimumOrder}
+                          disabled={belowMinimum || soldOutCount > 0}
                         >
-                          {cartTotal < tenant.settings.minimumOrder
-                            ? `Minimum order ${tenant.currency}${tenant.settings.minimumOrder}`
-                            : 'Proceed to Checkout'
+                          {soldOutCount > 0
+                            ? 'Remove sold-out items to check out'
+                            : belowMinimum
+                              ? `Minimum order ${formatMenuPrice(tenant.settings.minimumOrder)}`
+                              : 'Proceed to Checkout'
                           }
                         </Button>
                       </>
@@ -464,6 +703,24 @@ export default function CustomerMenuPage() {
         </div>
       </header>
 
+      {tableSession?.status === 'submitted' && tableSession.orderId && (
+        <div className="container mx-auto px-4 pt-4">
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="p-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Check className="h-5 w-5 text-green-600" />
+                <p className="text-sm text-green-800">
+                  {tableSession.submittedBy
+                    ? `${tableSession.submittedBy} sent your table's order to the kitchen.`
+                    : "Your table's order was sent to the kitchen."}{' '}
+                  Adding more items starts a new round.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Search and Filters */}
       <div className="container mx-auto px-4 py-6">
         <div className="flex flex-col space-y-4 md:flex-row md:space-y-0 md:space-x-4">
@@ -532,6 +789,67 @@ export default function CustomerMenuPage() {
               </div>
             </DialogContent>
           </Dialog>
+          
+          <Dialog open={showDietaryProfile} onOpenChange={setShowDietaryProfile}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Allergies & Diet
+                {!isEmptyProfile(dietaryProfile) && (
+                  <Badge className="ml-2">{avoidAllergens.length + dietary.length}</Badge>
+                )}
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Allergies & Dietary Needs</DialogTitle>
+              </DialogHeader>
+              
+              <div className="space-y-4">
+                <div>
+                  <h4 className="font-medium mb-2">I need to avoid</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {allergenChoices.map(allergen => (
+                      <Button
+                        key={allergen}
+                        variant={avoidAllergens.includes(allergen) ? 'destructive' : 'outline'}
+                        size="sm"
+                        onClick={() => toggleAllergen(allergen)}
+                      >
+                        {allergen}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                
+                <div>
+                  <h4 className="font-medium mb-2">My diet</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {DIETARY_REQUIREMENTS.map(need => (
+                      <Button
+                        key={need}
+                        variant={dietary.includes(need) ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => toggleDietary(need)}
+                      >
+                        {need}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                
+                <Separator />
+                
+                <label className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Hide items that don't suit me</span>
+                  <Switch checked={hideUnsafe} onCheckedChange={setHideUnsafe} />
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  Your needs are sent to the kitchen with your order. Please still tell staff about severe allergies.
+                </p>
+              </div>
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
 
@@ -546,78 +864,13 @@ export default function CustomerMenuPage() {
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
             >
-              <Card className="h-full cursor-pointer hover:shadow-lg transition-shadow">
-                <div className="relative">
-                  {item.images.length > 0 && (
-                    <div className="relative h-48 w-full">
-                      <Image
-                        src={item.images[0]}
-                        alt={item.name}
-                        fill
-                        className="object-cover rounded-t-lg"
-                      />
-                    </div>
-                  )}
-                  
-                  {item.spiceLevel && item.spiceLevel > 0 && (
-                    <Badge className="absolute top-2 right-2 bg-red-500">
-                      {'🌶️'.repeat(item.spiceLevel)}
-                    </Badge>
-                  )}
-                </div>
-                
-                <CardContent className="p-4">
-                  <div className="flex justify-between items-start mb-2">
-                    <h3 className="font-semibold text-lg">{item.name}</h3>
-                    <span className="font-bold text-primary">
-                      {tenant.currency}{item.price.toFixed(2)}
-                    </span>
-                  </div>
-                  
-                  <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
-                    {item.description}
-                  </p>
-                  
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                      <Clock className="h-4 w-4" />
-                      <span>{item.preparationTime} min</span>
-                      
-                      {item.rating > 0 && (
-                        <>
-                          <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                          <span>{item.rating.toFixed(1)} ({item.reviewCount})</span>
-                        </>
-                      )}
-                    </div>
-                  </div>
-                  
-                  {item.allergens.length > 0 && (
-                    <div className="flex items-center space-x-1 mb-3">
-                      <AlertTriangle className="h-4 w-4 text-orange-500" />
-                      <span className="text-xs text-muted-foreground">
-                        Contains: {item.allergens.join(', ')}
-                      </span>
-                    </div>
-                  )}
-                  
-                  <div className="flex flex-wrap gap-1 mb-3">
-                    {item.dietary.map(diet => (
-                      <Badge key={diet} variant="secondary" className="text-xs">
-                        {diet}
-                      </Badge>
-                    ))}
-                  </div>
-                  
-                  <Button
-                    className="w-full"
-                    onClick={() => setSelectedItem(item)}
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add to Cart
-                  </Button>
-                </CardContent>
-              </Card>
+              <MenuItemCard
+                item={item}
+                price={formatMenuPrice(item.price)}
+                showRating={reviewsEnabled}
+                conflicts={getItemConflicts(item, dietaryProfile)}
+                onAdd={() => setSelectedItem(item)}
+              />
             </motion.div>
           ))}
         </div>
@@ -634,7 +887,14 @@ export default function CustomerMenuPage() {
       </div>
 
       {/* Item Detail Modal */}
-      <Dialog open={!!selectedItem} onOpenChange={() => setSelectedItem(null)}>
+      <Dialog
+        open={!!selectedItem}
+        onOpenChange={() => {
+          setSelectedItem(null);
+          setItemModifiers({});
+          setModifierErrors({});
+        }}
+      >
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           {selectedItem && (
             <>
@@ -669,7 +929,7 @@ export default function CustomerMenuPage() {
                       </div>
                     )}
                     
-                    {selectedItem.rating > 0 && (
+                    {reviewsEnabled && selectedItem.rating > 0 && (
                       <div className="flex items-center space-x-2">
                         <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                         <span>{selectedItem.rating.toFixed(1)} ({selectedItem.reviewCount} reviews)</span>
@@ -690,57 +950,114 @@ export default function CustomerMenuPage() {
                   </div>
                 )}
                 
-                {/* Modifiers */}
-                {selectedItem.modifiers.map(modifier => (
-                  <div key={modifier.id} className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <h4 className="font-medium">{modifier.name}</h4>
-                      {modifier.required && (
-                        <Badge variant="destructive" className="text-xs">Required</Badge>
-                      )}
+                {getItemConflicts(selectedItem, dietaryProfile, itemModifiers).length > 0 && (
+                  <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <ShieldAlert className="h-4 w-4 text-red-600" />
+                      <span className="font-medium text-red-800">Doesn't match your profile</span>
                     </div>
-                    
-                    <div className="space-y-2">
-                      {modifier.options.map(option => (
-                        <div key={option.id} className="flex items-center justify-between">
-                          <label className="flex items-center space-x-2 cursor-pointer">
-                            <input
-                              type={modifier.type === 'single' ? 'radio' : 'checkbox'}
-                              name={modifier.id}
-                              value={option.id}
-                              checked={itemModifiers[modifier.id]?.includes(option.id) || false}
-                              onChange={(e) => {
-                                if (modifier.type === 'single') {
-                                  setItemModifiers(prev => ({
-                                    ...prev,
-                                    [modifier.id]: e.target.checked ? [option.id] : []
-                                  }));
-                                } else {
-                                  setItemModifiers(prev => {
-                                    const current = prev[modifier.id] || [];
-                                    return {
-                                      ...prev,
-                                      [modifier.id]: e.target.checked
-                                        ? [...current, option.id]
-                                        : current.filter(id => id !== option.id)
-                                    };
-                                  });
-                                }
-                              }}
-                            />
-                            <span>{option.name}</span>
-                          </label>
-                          
-                          {option.price > 0 && (
-                            <span className="text-sm text-muted-foreground">
-                              +{tenant.currency}{option.price.toFixed(2)}
-                            </span>
+                    <p className="text-sm text-red-700">
+                      {getItemConflicts(selectedItem, dietaryProfile, itemModifiers).join(', ')}
+                    </p>
+                  </div>
+                )}
+                
+                {reviewsEnabled && itemReviews && itemReviews.length > 0 && (
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Reviews</h4>
+                    {itemReviews.slice(0, 3).map(review => (
+                      <div key={review.id} className="text-sm space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <div className="flex">
+                            {Array.from({ length: review.rating }, (_, i) => (
+                              <Star key={i} className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                            ))}
+                          </div>
+                          <span className="font-medium">{review.authorName}</span>
+                        </div>
+                        {review.comment && <p className="text-muted-foreground">{review.comment}</p>}
+                        {review.reply && (
+                          <p className="border-l-2 pl-3 text-muted-foreground">
+                            <span className="font-medium text-foreground">{tenant.name}: </span>
+                            {review.reply}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {/* Modifiers */}
+                {getActiveModifiers(selectedItem, itemModifiers).map(modifier => {
+                  const { min, max } = getSelectionLimits(modifier);
+                  
+                  return (
+                    <div key={modifier.id} className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h4 className="font-medium">{modifier.name}</h4>
+                          {modifier.type === 'multiple' && max > 1 && (
+                            <p className="text-xs text-muted-foreground">
+                              {min > 0 ? `Choose ${min} to ${max}` : `Choose up to ${max}`}
+                            </p>
                           )}
                         </div>
-                      ))}
+                        {min > 0 && (
+                          <Badge variant="destructive" className="text-xs">Required</Badge>
+                        )}
+                      </div>
+                      
+                      <div className="space-y-2">
+                        {modifier.options.map(option => {
+                          const checked = itemModifiers[modifier.id]?.includes(option.id) || false;
+                          const optionConflicts = getOptionConflicts(option, dietaryProfile);
+                          const atLimit = modifier.type === 'multiple' && !checked &&
+                            (itemModifiers[modifier.id]?.length || 0) >= max;
+                          const soldOut = !isAvailable(option);
+                          
+                          return (
+                            <div key={option.id} className="flex items-center justify-between">
+                              <label className="flex items-center space-x-2 cursor-pointer">
+                                <input
+                                  type={modifier.type === 'single' ? 'radio' : 'checkbox'}
+                                  name={modifier.id}
+                                  value={option.id}
+                                  checked={checked}
+                                  disabled={atLimit || (soldOut && !checked)}
+                                  onChange={(e) => toggleModifierOption(
+                                    modifier.id,
+                                    option.id,
+                                    e.target.checked,
+                                    modifier.type === 'single'
+                                  )}
+                                />
+                                <span className={soldOut ? 'text-muted-foreground line-through' : undefined}>{option.name}</span>
+                                {soldOut && (
+                                  <span className="text-xs text-red-600">(sold out)</span>
+                                )}
+                                {optionConflicts.length > 0 && (
+                                  <span className="text-xs text-red-600">
+                                    ({optionConflicts.join(', ')})
+                                  </span>
+                                )}
+                              </label>
+                              
+                              {option.price > 0 && (
+                                <span className="text-sm text-muted-foreground">
+                                  +{formatMenuPrice(option.price)}
+                                </span>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      
+                      {modifierErrors[modifier.id] && (
+                        <p className="text-sm text-red-600">{modifierErrors[modifier.id]}</p>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
                 
                 {/* Special Instructions */}
                 <div className="space-y-2">
@@ -776,8 +1093,14 @@ export default function CustomerMenuPage() {
                     </div>
                   </div>
                   
-                  <Button onClick={addToCart} className="px-8">
-                    Add to Cart - {tenant.currency}{(selectedItem.price * itemQuantity).toFixed(2)}
+                  <Button
+                    onClick={addToCart}
+                    className="px-8"
+                    disabled={unavailableParts(selectedItem, itemModifiers).length > 0}
+                  >
+                    {isAvailable(selectedItem)
+                      ? `Add to Cart - ${formatPrice(multiply(getUnitPrice(selectedItem, itemModifiers, tenant.currency), itemQuantity))}`
+                      : 'Sold out'}
                   </Button>
                 </div>
               </div>
@@ -864,6 +1187,30 @@ export default function CustomerMenuPage() {
               </div>
             )}
             
+            {schedulingEnabled && pickupSlots.length > 0 && (
+              <div>
+                <label className="text-sm font-medium">
+                  {orderType === 'delivery' ? 'Delivery Time' : 'Pickup Time'}
+                </label>
+                <Select
+                  value={checkoutForm.watch('scheduledFor') || 'asap'}
+                  onValueChange={(value) => checkoutForm.setValue('scheduledFor', value === 'asap' ? '' : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="asap">As soon as possible</SelectItem>
+                    {pickupSlots.map(slot => (
+                      <SelectItem key={slot.startsAt} value={slot.startsAt} disabled={!slot.available}>
+                        {formatSlot(slot)}{!slot.available && ' (full)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
             {checkoutForm.watch('orderType') === 'delivery' && (
               <div>
                 <label className="text-sm font-medium">Delivery Address *</label>
@@ -888,31 +1235,31 @@ export default function CustomerMenuPage() {
             <div className="border-t pt-4">
               <h4 className="font-medium mb-3">Order Summary</h4>
               <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span>Subtotal</span>
-                  <span>{tenant.currency}{cartTotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Tax</span>
-                  <span>{tenant.currency}{(cartTotal * (tenant.settings.taxRate || 0)).toFixed(2)}</span>
-                </div>
-                {checkoutForm.watch('orderType') === 'delivery' && (
-                  <div className="flex justify-between">
-                    <span>Delivery Fee</span>
-                    <span>{tenant.currency}{tenant.settings.deliveryFee.toFixed(2)}</span>
-                  </div>
+                {quote ? (
+                  <>
+                    <div className="flex justify-between">
+                      <span>Subtotal</span>
+                      <span>{formatPrice(quote.subtotal)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <span>{formatPrice(quote.tax)}</span>
+                    </div>
+                    {quote.deliveryFee.amount > 0 && (
+                      <div className="flex justify-between">
+                        <span>Delivery Fee</span>
+                        <span>{formatPrice(quote.deliveryFee)}</span>
+                      </div>
+                    )}
+                    <Separator />
+                    <div className="flex justify-between font-bold">
+                      <span>Total</span>
+                      <span>{formatPrice(quote.total)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">Calculating totals...</p>
                 )}
-                <Separator />
-                <div className="flex justify-between font-bold">
-                  <span>Total</span>
-                  <span>
-                    {tenant.currency}
-                    {(
-                      cartTotal * (1 + (tenant.settings.taxRate || 0)) +
-                      (checkoutForm.watch('orderType') === 'delivery' ? tenant.settings.deliveryFee : 0)
-                    ).toFixed(2)}
-                  </span>
-                </div>
               </div>
             </div>
             
@@ -928,7 +1275,7 @@ export default function CustomerMenuPage() {
               <Button
                 type="submit"
                 className="flex-1"
-                disabled={createOrderMutation.isPending}
+                disabled={createOrderMutation.isPending || quoteLoading || !quote}
               >
                 {createOrderMutation.isPending ? 'Placing Order...' : 'Place Order'}
               </Button>
@@ -945,12 +1292,69 @@ export default function CustomerMenuPage() {
               <DialogTitle>AI Assistant</DialogTitle>
             </DialogHeader>
             
-            <div className="text-center py-8">
-              <MessageCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">
-                AI chat feature coming soon! Ask me about menu items, allergens, or recommendations.
-              </p>
-            </div>
+            <ScrollArea className="h-[400px] pr-3">
+              {chatMessages.length === 0 ? (
+                <div className="text-center py-8">
+                  <MessageCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">
+                    Ask me about menu items, allergens, or recommendations.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {chatMessages.map((message, index) => (
+                    <div
+                      key={index}
+                      className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}
+                    >
+                      <div
+                        className={
+                          message.role === 'user'
+                            ? 'max-w-[85%] rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm'
+                            : 'max-w-[85%] rounded-lg bg-muted px-3 py-2 text-sm space-y-2'
+                        }
+                      >
+                        <p className="whitespace-pre-line">{message.content}</p>
+                        {message.suggestedItemIds?.map(itemId => {
+                          const suggested = menu.find(m => m.id === itemId);
+                          if (!suggested) return null;
+                          
+                          return (
+                            <div key={itemId} className="flex items-center justify-between rounded-md bg-background p-2">
+                              <span className="font-medium">{suggested.name}</span>
+                              <Button size="sm" variant="outline" onClick={() => addSuggestedItem(suggested)}>
+                                <Plus className="h-3 w-3 mr-1" />
+                                Add
+                              </Button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                  {assistantMutation.isPending && (
+                    <p className="text-sm text-muted-foreground">Thinking...</p>
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+            
+            <form
+              className="flex space-x-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                sendChatMessage();
+              }}
+            >
+              <Input
+                placeholder="e.g. Something vegan without nuts?"
+                value={chatInput}
+                onChange={(e) => setChatInput(e.target.value)}
+              />
+              <Button type="submit" size="sm" disabled={!chatInput.trim() || assistantMutation.isPending}>
+                <Send className="h-4 w-4" />
+              </Button>
+            </form>
           </DialogContent>
         </Dialog>
       )}
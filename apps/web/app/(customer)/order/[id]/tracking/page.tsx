@@ -0,0 +1,495 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  CheckCircle,
+  Circle,
+  Clock,
+  ChefHat,
+  Bell,
+  XCircle,
+  Utensils,
+  Minus,
+  Plus,
+  Receipt,
+  Star,
+  CalendarClock,
+  Truck
+} from 'lucide-react';
+import { formatMoney } from '@hospity/utils';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import type { OrderItemStatus, OrderStatus, TrackedOrder } from '@/types/order';
+import type { ReviewableItem } from '@/types/review';
+import type { BillSplit, BillSplitMode } from '@/types/table';
+import type { DeliveryStatus } from '@/types/driver';
+
+const TIMELINE: Array<{
+  status: OrderStatus;
+  label: string;
+  timestamp: keyof TrackedOrder;
+}> = [
+  { status: 'new', label: 'Order placed', timestamp: 'createdAt' },
+  { status: 'accepted', label: 'Accepted by the kitchen', timestamp: 'acceptedAt' },
+  { status: 'preparing', label: 'Being prepared', timestamp: 'preparingAt' },
+  { status: 'ready', label: 'Ready', timestamp: 'readyAt' },
+  { status: 'completed', label: 'Completed', timestamp: 'completedAt' },
+];
+
+const ITEM_STATUS_PROGRESS: Record<OrderItemStatus, number> = {
+  pending: 0,
+  preparing: 50,
+  ready: 100,
+  served: 100,
+};
+
+const ITEM_STATUS_COLORS: Record<OrderItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  preparing: 'bg-orange-100 text-orange-800',
+  ready: 'bg-green-100 text-green-800',
+  served: 'bg-gray-100 text-gray-800',
+};
+
+const DELIVERY_STATUS_TEXT: Record<DeliveryStatus, string> = {
+  assigned: 'A driver has been assigned',
+  accepted: 'is waiting for your order',
+  'picked-up': 'is on the way',
+  delivered: 'has delivered your order',
+};
+
+const SPLIT_MODES: Array<{ mode: BillSplitMode; label: string }> = [
+  { mode: 'together', label: 'Together' },
+  { mode: 'even', label: 'Evenly' },
+  { mode: 'by-item', label: 'By item' },
+];
+
+function BillSplitCard({ orderId, token }: { orderId: string; token: string }) {
+  const [mode, setMode] = useState<BillSplitMode>('by-item');
+  const [ways, setWays] = useState(2);
+
+  const { data: split } = useQuery({
+    queryKey: ['bill-split', orderId, mode, ways],
+    queryFn: async () => {
+      const query = new URLSearchParams({ token, mode });
+      if (mode === 'even') query.set('ways', String(ways));
+      const response = await fetch(`/api/orders/${orderId}/split?${query}`);
+      if (!response.ok) throw new Error('Failed to split the bill');
+      return response.json() as Promise<BillSplit>;
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Receipt className="h-5 w-5" />
+          <span>Split the bill</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {SPLIT_MODES.map(option => (
+            <Button
+              key={option.mode}
+              size="sm"
+              variant={mode === option.mode ? 'default' : 'outline'}
+              onClick={() => setMode(option.mode)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {mode === 'even' && (
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-muted-foreground">Number of people</span>
+            <Button size="icon" variant="outline" onClick={() => setWays(Math.max(2, ways - 1))}>
+              <Minus className="h-4 w-4" />
+            </Button>
+            <span className="w-6 text-center font-medium">{ways}</span>
+            <Button size="icon" variant="outline" onClick={() => setWays(Math.min(20, ways + 1))}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {split && (
+          <div className="space-y-3">
+            {split.shares.map((share, index) => (
+              <div key={`${share.label}-${index}`}>
+                {index > 0 && <Separator className="mb-3" />}
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{share.label}</span>
+                  <span className="font-bold">{formatMoney(share.amount, split.locale)}</span>
+                </div>
+                {share.items.length > 0 && (
+                  <p className="text-sm text-muted-foreground">{share.items.join(', ')}</p>
+                )}
+              </div>
+            ))}
+            <Separator />
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>Total incl. tax and fees</span>
+              <span>{formatMoney(split.total, split.locale)}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StarRating({ value, onChange }: { value: number; onChange?: (rating: number) => void }) {
+  return (
+    <div className="flex items-center space-x-1">
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(star)}
+          aria-label={`${star} star${star > 1 ? 's' : ''}`}
+        >
+          <Star
+            className={cn(
+              'h-5 w-5',
+              star <= value ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ReviewItemForm({ orderId, token, item }: { orderId: string; token: string; item: ReviewableItem }) {
+  const queryClient = useQueryClient();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/orders/${orderId}/reviews?token=${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ menuItemId: item.menuItemId, rating, comment: comment.trim() || undefined }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to submit review');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['order-reviews', orderId] });
+      toast({ title: 'Thanks for your review!', description: 'It will appear once the restaurant approves it.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Review not sent', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (item.review) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">{item.name}</span>
+          <StarRating value={item.review.rating} />
+        </div>
+        {item.review.comment && <p className="text-sm text-muted-foreground">{item.review.comment}</p>}
+        {item.review.reply && (
+          <p className="text-sm border-l-2 pl-3">
+            <span className="font-medium">Reply from the restaurant: </span>
+            {item.review.reply}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{item.name}</span>
+        <StarRating value={rating} onChange={setRating} />
+      </div>
+      {rating > 0 && (
+        <>
+          <Textarea
+            placeholder="What did you think? (optional)"
+            value={comment}
+            maxLength={1000}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          <Button size="sm" onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending}>
+            {submitMutation.isPending ? 'Sending...' : 'Submit review'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ReviewCard({ orderId, token }: { orderId: string; token: string }) {
+  // 404 means the restaurant has reviews switched off; show nothing
+  const { data: items } = useQuery({
+    queryKey: ['order-reviews', orderId],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${orderId}/reviews?token=${encodeURIComponent(token)}`);
+      if (!response.ok) throw new Error('Reviews unavailable');
+      return response.json() as Promise<ReviewableItem[]>;
+    },
+    retry: false,
+  });
+
+  if (!items || items.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rate your meal</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.map((item, index) => (
+          <div key={item.menuItemId}>
+            {index > 0 && <Separator className="mb-4" />}
+            <ReviewItemForm orderId={orderId} token={token} item={item} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OrderTrackingPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const queryClient = useQueryClient();
+
+  const orderId = params.id as string;
+  const token = searchParams.get('token') || '';
+  const queryKey = useMemo(() => ['order-tracking', orderId], [orderId]);
+
+  const { data: order, isLoading, isError } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/orders/${orderId}/tracking?token=${encodeURIComponent(token)}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch order');
+      return response.json() as Promise<TrackedOrder>;
+    },
+    enabled: !!token,
+  });
+
+  // Live updates over server-sent events; EventSource reconnects on its own
+  // and the server replays the current state on every connect.
+  useEffect(() => {
+    if (!token) return;
+
+    const source = new EventSource(
+      `/api/orders/${orderId}/tracking/stream?token=${encodeURIComponent(token)}`
+    );
+    source.addEventListener('order', (event) => {
+      queryClient.setQueryData(queryKey, JSON.parse((event as MessageEvent).data));
+    });
+
+    return () => source.close();
+  }, [orderId, token, queryClient, queryKey]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!token || isError || !order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Order not found</h1>
+          <p className="text-muted-foreground">
+            Please use the tracking link from your order confirmation.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isUpcoming = !!order.scheduledFor && order.status === 'new';
+  const currentStep = TIMELINE.findIndex(step => step.status === order.status);
+  const itemsDone = order.items.filter(item => item.status === 'ready' || item.status === 'served').length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-2xl px-4 py-8 space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">Order #{order.orderNumber}</h1>
+          <p className="text-muted-foreground">
+            {order.tableNumber ? `Table ${order.tableNumber}` : order.orderType}
+          </p>
+        </div>
+
+        {isUpcoming && (
+          <Card>
+            <CardContent className="p-6 flex items-center space-x-3">
+              <CalendarClock className="h-6 w-6 text-primary" />
+              <div>
+                <p className="text-sm text-muted-foreground">Scheduled for</p>
+                <p className="text-xl font-bold">
+                  {format(new Date(order.scheduledFor!), 'EEE d MMM, HH:mm')}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {order.status === 'cancelled' ? (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="p-6 flex items-center space-x-3">
+              <XCircle className="h-6 w-6 text-red-600" />
+              <div>
+                <p className="font-medium text-red-800">This order was cancelled</p>
+                <p className="text-sm text-red-700">Please contact the restaurant if you have questions.</p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          order.estimatedCompletionTime && !isUpcoming && (order.status === 'accepted' || order.status === 'preparing') && (
+            <Card>
+              <CardContent className="p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Clock className="h-6 w-6 text-primary" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Estimated ready time</p>
+                    <p className="text-xl font-bold">
+                      {format(new Date(order.estimatedCompletionTime), 'HH:mm')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Updates as the kitchen works through its queue</p>
+                  </div>
+                </div>
+                <span className="text-sm text-muted-foreground">
+                  {formatDistanceToNow(new Date(order.estimatedCompletionTime), { addSuffix: true })}
+                </span>
+              </CardContent>
+            </Card>
+          )
+        )}
+
+        {order.deliveryPin && order.status !== 'completed' && order.status !== 'cancelled' && (
+          <Card>
+            <CardContent className="p-6 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Truck className="h-6 w-6 text-primary" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Give this PIN to your driver</p>
+                  <p className="text-3xl font-bold tracking-widest">{order.deliveryPin}</p>
+                </div>
+              </div>
+              {order.deliveryStatus && (
+                <span className="text-sm text-muted-foreground text-right">
+                  {order.driverName && order.deliveryStatus !== 'assigned'
+                    ? `${order.driverName} ${DELIVERY_STATUS_TEXT[order.deliveryStatus]}`
+                    : DELIVERY_STATUS_TEXT.assigned}
+                </span>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Status Timeline */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Order Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-4">
+              {TIMELINE.map((step, index) => {
+                const done = order.status !== 'cancelled' && index <= currentStep;
+                const timestamp = order[step.timestamp] as string | undefined;
+
+                return (
+                  <li key={step.status} className="flex items-center space-x-3">
+                    {done ? (
+                      <CheckCircle className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <Circle className="h-5 w-5 text-muted-foreground" />
+                    )}
+                    <div className="flex-1">
+                      <p className={cn('font-medium', !done && 'text-muted-foreground')}>
+                        {step.label}
+                      </p>
+                    </div>
+                    {done && timestamp && (
+                      <span className="text-sm text-muted-foreground">
+                        {format(new Date(timestamp), 'HH:mm')}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+
+        {/* Item Progress */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Your Items</CardTitle>
+              <span className="text-sm text-muted-foreground">
+                {itemsDone} of {order.items.length} ready
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.items.map((item, index) => (
+              <div key={item.id}>
+                {index > 0 && <Separator className="mb-4" />}
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    {item.status === 'preparing' ? (
+                      <ChefHat className="h-4 w-4 text-orange-500" />
+                    ) : item.status === 'pending' ? (
+                      <Utensils className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <Bell className="h-4 w-4 text-green-600" />
+                    )}
+                    <span className="font-medium">
+                      {item.quantity}x {item.name}
+                    </span>
+                    {item.dinerName && (
+                      <span className="text-sm text-muted-foreground">· {item.dinerName}</span>
+                    )}
+                  </div>
+                  <Badge className={cn('text-xs', ITEM_STATUS_COLORS[item.status])}>
+                    {item.status}
+                  </Badge>
+                </div>
+                {item.modifiers.length > 0 && (
+                  <p className="text-sm text-muted-foreground mb-2">{item.modifiers.join(', ')}</p>
+                )}
+                <Progress value={ITEM_STATUS_PROGRESS[item.status]} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {order.status === 'completed' && <ReviewCard orderId={order.id} token={token} />}
+
+        {order.orderType === 'dine-in' && <BillSplitCard orderId={order.id} token={token} />}
+      </div>
+    </div>
+  );
+}
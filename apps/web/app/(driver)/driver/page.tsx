@@ -0,0 +1,273 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Camera, CheckCircle, MapPin, Navigation, Package, Phone, Truck } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/use-toast';
+import type { DeliveryJob, Driver } from '@/types/driver';
+
+const REFRESH_INTERVAL = 15_000;
+// Longest side of a proof photo; keeps uploads small on mobile data
+const PHOTO_SIZE = 1280;
+
+type JobAction = 'accept' | 'decline' | 'pick-up';
+
+/** Shrinks a camera photo to a JPEG data URL before upload. */
+async function downscalePhoto(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+async function send<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || 'Something went wrong, please try again');
+  }
+  return response.json();
+}
+
+function DeliverForm({ job, token }: { job: DeliveryJob; token: string }) {
+  const queryClient = useQueryClient();
+  const [pin, setPin] = useState('');
+
+  const deliverMutation = useMutation({
+    mutationFn: (proof: { pin: string } | { photo: string }) =>
+      send<DeliveryJob>(`/api/driver/jobs/${job.orderId}/deliver?token=${token}`, proof),
+    onSuccess: () => {
+      toast({ title: 'Delivered', description: `Order #${job.orderNumber} is complete` });
+      queryClient.invalidateQueries({ queryKey: ['driver-jobs', token] });
+    },
+    onError: (error: Error) => {
+      setPin('');
+      toast({ title: 'Not delivered', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const takePhoto = async (file?: File) => {
+    if (!file) return;
+    try {
+      deliverMutation.mutate({ photo: await downscalePhoto(file) });
+    } catch {
+      toast({ title: 'Photo', description: 'Could not read that photo', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={pin}
+          inputMode="numeric"
+          maxLength={4}
+          placeholder="Guest's PIN"
+          className="text-lg tracking-widest"
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+        />
+        <Button
+          className="h-10"
+          disabled={pin.length !== 4 || deliverMutation.isPending}
+          onClick={() => deliverMutation.mutate({ pin })}
+        >
+          <CheckCircle className="mr-2 h-4 w-4" />
+          Delivered
+        </Button>
+      </div>
+      {/* No one home, or no PIN: a photo of the drop-off counts as proof */}
+      <label className="flex h-11 w-full cursor-pointer items-center justify-center rounded-md border text-sm font-medium">
+        <Camera className="mr-2 h-4 w-4" />
+        Take photo instead
+        <input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          disabled={deliverMutation.isPending}
+          onChange={(e) => takePhoto(e.target.files?.[0])}
+        />
+      </label>
+    </div>
+  );
+}
+
+export default function DriverPage() {
+  const token = useSearchParams().get('token') ?? '';
+  const queryClient = useQueryClient();
+  const queryKey = ['driver-jobs', token];
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/driver/jobs?token=${token}`);
+      if (!response.ok) throw new Error('Failed to fetch jobs');
+      return response.json() as Promise<{ driver: Driver; jobs: DeliveryJob[] }>;
+    },
+    enabled: !!token,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Jobs', description: error.message, variant: 'destructive' });
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  const availabilityMutation = useMutation({
+    mutationFn: (available: boolean) => send<Driver>(`/api/driver/availability?token=${token}`, { available }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ orderId, action }: { orderId: string; action: JobAction }) =>
+      send<DeliveryJob>(`/api/driver/jobs/${orderId}?token=${token}`, { action }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  if (isLoading && token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!token || isError || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Link not recognised</h1>
+          <p className="text-muted-foreground">Ask the restaurant to send you your driver link again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { driver, jobs } = data;
+
+  const jobCard = (job: DeliveryJob) => (
+    <Card key={job.orderId}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle>#{job.orderNumber}</CardTitle>
+          {job.deliveryStatus === 'picked-up' ? (
+            <Badge>On the way</Badge>
+          ) : (
+            <Badge variant={job.orderStatus === 'ready' ? 'default' : 'secondary'}>
+              {job.orderStatus === 'ready' ? 'Ready to collect' : 'Being prepared'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 text-sm">
+          {job.customerName && <p className="font-medium text-base">{job.customerName}</p>}
+          {job.deliveryAddress && (
+            <a
+              href={`https://maps.google.com/?q=${encodeURIComponent(job.deliveryAddress)}`}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-start gap-2 text-blue-600"
+            >
+              <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+              {job.deliveryAddress}
+            </a>
+          )}
+          {job.customerPhone && (
+            <a href={`tel:${job.customerPhone}`} className="flex items-center gap-2 text-blue-600">
+              <Phone className="h-4 w-4" />
+              {job.customerPhone}
+            </a>
+          )}
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Package className="h-4 w-4" />
+            {job.itemCount} item{job.itemCount === 1 ? '' : 's'}
+            {job.orderStatus !== 'ready' &&
+              job.estimatedCompletionTime &&
+              ` · ready ${formatDistanceToNow(new Date(job.estimatedCompletionTime), { addSuffix: true })}`}
+          </p>
+        </div>
+
+        {job.deliveryStatus === 'assigned' && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              className="h-11"
+              disabled={actionMutation.isPending}
+              onClick={() => actionMutation.mutate({ orderId: job.orderId, action: 'decline' })}
+            >
+              Decline
+            </Button>
+            <Button
+              className="h-11"
+              disabled={actionMutation.isPending}
+              onClick={() => actionMutation.mutate({ orderId: job.orderId, action: 'accept' })}
+            >
+              Accept
+            </Button>
+          </div>
+        )}
+        {job.deliveryStatus === 'accepted' && (
+          <Button
+            className="h-11 w-full"
+            disabled={job.orderStatus !== 'ready' || actionMutation.isPending}
+            onClick={() => actionMutation.mutate({ orderId: job.orderId, action: 'pick-up' })}
+          >
+            <Navigation className="mr-2 h-4 w-4" />
+            {job.orderStatus === 'ready' ? 'Picked up' : 'Waiting for the kitchen'}
+          </Button>
+        )}
+        {job.deliveryStatus === 'picked-up' && <DeliverForm job={job} token={token} />}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold">Hi {driver.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {driver.available ? 'On shift and taking jobs' : 'Off shift'}
+            </p>
+          </div>
+          <Switch
+            checked={driver.available}
+            disabled={availabilityMutation.isPending}
+            onCheckedChange={available => availabilityMutation.mutate(available)}
+          />
+        </div>
+
+        {jobs.length === 0 ? (
+          <div className="text-center py-16">
+            <Truck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {driver.available ? 'No jobs yet. New ones appear here.' : 'Go on shift to receive jobs.'}
+            </p>
+          </div>
+        ) : (
+          jobs.map(jobCard)
+        )}
+      </div>
+    </div>
+  );
+}
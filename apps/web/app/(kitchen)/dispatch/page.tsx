@@ -0,0 +1,280 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Camera, CheckCircle, ChefHat, KeyRound, MapPin, Phone, RefreshCw, Truck, Wand2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { DeliveryJob, DeliveryStatus, DispatchBoard } from '@/types/driver';
+
+const REFRESH_INTERVAL = 10_000;
+
+// Radix Select items cannot have an empty value
+const UNASSIGNED = 'unassigned';
+
+const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  assigned: 'Waiting for driver',
+  accepted: 'Accepted',
+  'picked-up': 'On the way',
+  delivered: 'Delivered',
+};
+
+export default function DispatchPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  const { data: board, isLoading } = useQuery({
+    queryKey: ['dispatch'],
+    queryFn: async () => {
+      const response = await fetch('/api/dispatch');
+      if (!response.ok) throw new Error('Failed to fetch dispatch board');
+      return response.json() as Promise<DispatchBoard>;
+    },
+    refetchInterval: REFRESH_INTERVAL,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Dispatch', description: error.message, variant: 'destructive' });
+    queryClient.invalidateQueries({ queryKey: ['dispatch'] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ orderId, driverId }: { orderId: string; driverId: string | null }) => {
+      const response = await fetch(`/api/dispatch/orders/${orderId}/assign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ driverId }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Failed to assign driver');
+      }
+      return response.json() as Promise<DeliveryJob>;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dispatch'] }),
+    onError,
+  });
+
+  const autoAssignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/dispatch/auto-assign', { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to assign drivers');
+      return response.json() as Promise<{ assigned: number }>;
+    },
+    onSuccess: ({ assigned }) => {
+      toast({
+        title: 'Auto-assign',
+        description: assigned
+          ? `Assigned ${assigned} order${assigned === 1 ? '' : 's'}`
+          : 'No ready orders could be matched to a free driver',
+      });
+      queryClient.invalidateQueries({ queryKey: ['dispatch'] });
+    },
+    onError,
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (autoAssign: boolean) => {
+      const response = await fetch('/api/dispatch/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoAssign }),
+      });
+      if (!response.ok) throw new Error('Failed to update auto-assign');
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dispatch'] }),
+    onError,
+  });
+
+  const jobs = board?.jobs.filter(job => !job.deliveredAt) ?? [];
+  const delivered = board?.jobs.filter(job => job.deliveredAt) ?? [];
+  const drivers = board?.drivers ?? [];
+  const waiting = jobs.filter(job => !job.driver && job.orderStatus === 'ready').length;
+
+  const jobCard = (job: DeliveryJob) => (
+    <Card key={job.orderId} className={!job.driver && job.orderStatus === 'ready' ? 'border-orange-400' : ''}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">#{job.orderNumber}</CardTitle>
+          <Badge variant={job.orderStatus === 'ready' ? 'default' : 'secondary'}>
+            {job.orderStatus === 'ready' ? 'Ready' : 'In the kitchen'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-sm space-y-1">
+          {job.customerName && <p className="font-medium">{job.customerName}</p>}
+          {job.deliveryAddress && (
+            <p className="flex items-start gap-1 text-gray-600">
+              <MapPin className="w-4 h-4 mt-0.5 shrink-0" />
+              {job.deliveryAddress}
+            </p>
+          )}
+          <p className="text-gray-600">
+            {job.itemCount} item{job.itemCount === 1 ? '' : 's'}
+            {job.readyAt && ` · ready ${formatDistanceToNow(new Date(job.readyAt), { addSuffix: true })}`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={job.driver?.id ?? UNASSIGNED}
+            disabled={job.deliveryStatus === 'picked-up' || assignMutation.isPending}
+            onValueChange={value =>
+              assignMutation.mutate({ orderId: job.orderId, driverId: value === UNASSIGNED ? null : value })
+            }
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>No driver</SelectItem>
+              {drivers.map(driver => (
+                <SelectItem key={driver.id} value={driver.id}>
+                  {driver.name}
+                  {!driver.available && ' (off shift)'}
+                  {driver.activeJobs > 0 && ` · ${driver.activeJobs} job${driver.activeJobs === 1 ? '' : 's'}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {job.deliveryStatus && (
+            <Badge variant="outline">{DELIVERY_STATUS_LABELS[job.deliveryStatus]}</Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Dispatch</h1>
+            <p className="text-gray-600">
+              Hand delivery orders to drivers{waiting > 0 && ` · ${waiting} ready and waiting`}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={board?.autoAssign ?? false}
+                disabled={!board || settingsMutation.isPending}
+                onCheckedChange={enabled => settingsMutation.mutate(enabled)}
+              />
+              Auto-assign
+            </label>
+            <Button
+              size="sm"
+              disabled={waiting === 0 || autoAssignMutation.isPending}
+              onClick={() => autoAssignMutation.mutate()}
+            >
+              <Wand2 className="w-4 h-4" />
+              Assign now
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => router.push('/kitchen')}>
+              <ChefHat className="w-4 h-4" />
+              Kitchen
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => queryClient.invalidateQueries({ queryKey: ['dispatch'] })}
+            >
+              <RefreshCw className="w-4 h-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <div>
+          {isLoading ? (
+            <p className="text-gray-600">Loading deliveries...</p>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12">
+              <Truck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No delivery orders right now</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">{jobs.map(jobCard)}</div>
+          )}
+
+          {delivered.length > 0 && (
+            <div className="mt-8 space-y-2">
+              <h2 className="text-lg font-semibold text-gray-900">Recently delivered</h2>
+              {delivered.map(job => (
+                <div key={job.orderId} className="flex items-center justify-between rounded-lg border bg-white p-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                    <span className="font-medium">#{job.orderNumber}</span>
+                    <span className="text-gray-600">
+                      by {job.driver?.name ?? 'driver'}{' '}
+                      {formatDistanceToNow(new Date(job.deliveredAt!), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {job.proof === 'photo' ? (
+                    <a
+                      href={`/api/dispatch/orders/${job.orderId}/proof`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-1 text-blue-600"
+                    >
+                      <Camera className="w-4 h-4" />
+                      Photo
+                    </a>
+                  ) : (
+                    <span className="flex items-center gap-1 text-gray-600">
+                      <KeyRound className="w-4 h-4" />
+                      PIN
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Drivers</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {drivers.length === 0 && (
+              <p className="text-sm text-gray-600">Add drivers from the owner dashboard.</p>
+            )}
+            {drivers.map(driver => (
+              <div key={driver.id} className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{driver.name}</p>
+                  <a href={`tel:${driver.phone}`} className="flex items-center gap-1 text-xs text-gray-600">
+                    <Phone className="w-3 h-3" />
+                    {driver.phone}
+                  </a>
+                </div>
+                <div className="flex items-center gap-2">
+                  {driver.activeJobs > 0 && (
+                    <Badge variant="secondary">
+                      {driver.activeJobs} job{driver.activeJobs === 1 ? '' : 's'}
+                    </Badge>
+                  )}
+                  <Badge variant={driver.available ? 'default' : 'outline'}>
+                    {driver.available ? 'On shift' : 'Off'}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
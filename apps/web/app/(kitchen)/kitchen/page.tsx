@@ -1,6 +1,8 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { signIn } from 'next-auth/react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -8,6 +10,10 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/components/ui/use-toast';
 import { 
   Clock, 
@@ -20,51 +26,38 @@ import {
   RefreshCw,
   Printer,
   Eye,
-  ArrowRight
+  ArrowRight,
+  CalendarClock,
+  XCircle,
+  WifiOff,
+  Flame,
+  PackageX,
+  RotateCcw,
+  Ban,
+  Undo2,
+  Truck,
+  type LucideIcon
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { formatDistanceToNow } from 'date-fns';
-
-interface OrderItem {
-  id: string;
-  name: string;
-  quantity: number;
-  modifiers: string[];
-  specialInstructions?: string;
-  allergens: string[];
-  estimatedTime: number; // minutes
-  status: 'pending' | 'preparing' | 'ready' | 'served';
-}
-
-interface Order {
-  id: string;
-  orderNumber: string;
-  tableNumber?: string;
-  customerName?: string;
-  orderType: 'dine-in' | 'takeaway' | 'delivery';
-  items: OrderItem[];
-  status: 'new' | 'accepted' | 'preparing' | 'ready' | 'completed' | 'cancelled';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  createdAt: string;
-  acceptedAt?: string;
-  estimatedCompletionTime?: string;
-  totalEstimatedTime: number;
-  specialRequests?: string;
-  allergyWarnings: string[];
-  driverAssigned?: {
-    id: string;
-    name: string;
-    phone: string;
-  };
-}
-
-interface KitchenStats {
-  activeOrders: number;
-  avgPrepTime: number;
-  completedToday: number;
-  pendingOrders: number;
-  overdueOrders: number;
-}
+import {
+  EXPO_STATION,
+  type KitchenTab,
+  allStationsReady,
+  getStationItems,
+  isStationDone,
+  useKitchenFeed,
+} from '@/lib/kitchen-board';
+import { format, formatDistanceToNow } from 'date-fns';
+import { canRecall, canTransition, getNextStatus, isFinalStatus, ORDER_ACTION_LABELS } from '@/lib/order-lifecycle';
+import { KITCHEN_REASONS, KITCHEN_REASON_LABELS } from '@/lib/kitchen-reasons';
+import { COURSE_LABELS, groupByCourse, hasHeldCourses } from '@/lib/courses';
+import { isAvailable } from '@/lib/menu-availability';
+import type { KitchenOrder as Order, KitchenReason, OrderItemStatus, OrderStatus } from '@/types/order';
+import type { AvailabilityChange, Course, MenuItem } from '@/types/menu';
+import type { KitchenStation } from '@/types/station';
+import type { PrintJob } from '@/types/printer';
+import type { KitchenStats } from '@/types/kitchen-stats';
+import { fetchKitchenOrders, useOfflineKitchen, type KitchenMutation } from '@/lib/kitchen-offline';
 
 const ORDER_STATUS_COLORS = {
   new: 'bg-blue-500',
@@ -75,6 +68,37 @@ const ORDER_STATUS_COLORS = {
   cancelled: 'bg-red-500'
 };
 
+// Look of the button that moves an order into each status
+const ACTION_STYLES: Partial<Record<OrderStatus, { icon: LucideIcon; className: string }>> = {
+  accepted: { icon: CheckCircle, className: 'bg-green-600 hover:bg-green-700' },
+  preparing: { icon: ChefHat, className: 'bg-orange-600 hover:bg-orange-700' },
+  ready: { icon: Bell, className: 'bg-blue-600 hover:bg-blue-700' },
+  completed: { icon: ArrowRight, className: 'bg-gray-600 hover:bg-gray-700' },
+};
+
+// The bump button on an item moves it one step along
+const ITEM_NEXT_STATUS: Partial<Record<OrderItemStatus, { status: OrderItemStatus; label: string }>> = {
+  pending: { status: 'preparing', label: 'Start' },
+  preparing: { status: 'ready', label: 'Ready' },
+  ready: { status: 'served', label: 'Served' },
+};
+
+const ITEM_STATUS_COLORS: Record<OrderItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  preparing: 'bg-orange-100 text-orange-800',
+  ready: 'bg-green-100 text-green-800',
+  served: 'bg-gray-100 text-gray-500',
+};
+
+// How long an 86 lasts before the item comes back by itself
+const RESTOCK_CHOICES = [
+  { value: 'manual', label: 'Until restocked' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '1 hour' },
+  { value: '120', label: '2 hours' },
+  { value: '240', label: '4 hours' },
+];
+
 const PRIORITY_COLORS = {
   low: 'border-gray-300',
   normal: 'border-blue-300',
@@ -83,60 +107,224 @@ const PRIORITY_COLORS = {
 };
 
 export default function KitchenPanelPage() {
-  const [selectedTab, setSelectedTab] = useState('active');
+  const [selectedTab, setSelectedTab] = useState<KitchenTab>('active');
   const [selectedOrder, setSelectedOrder] = useState<string | null>(null);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  const [statsShift, setStatsShift] = useState<string | null>(null);
+  // The item a remake or void is waiting on a reason for
+  const [adjusting, setAdjusting] = useState<{
+    order: Order;
+    item: Order['items'][number];
+    kind: 'remake' | 'void';
+  } | null>(null);
   const queryClient = useQueryClient();
+  const router = useRouter();
+  const searchParams = useSearchParams();
 
-  // Fetch kitchen stats
+  // `?station=grill` shows only the grill's items; `?station=expo` is the pass
+  const station = searchParams.get('station');
+  const isExpo = station === EXPO_STATION;
+  const stationView = station && !isExpo ? station : null;
+
+  const { data: stations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ['kitchen-stations'],
+    queryFn: async () => {
+      const response = await fetch('/api/kitchen/stations');
+      if (!response.ok) throw new Error('Failed to fetch stations');
+      return response.json();
+    }
+  });
+
+  // Today's stats, for this station's items on a station screen
   const { data: stats } = useQuery<KitchenStats>({
-    queryKey: ['kitchen-stats'],
+    queryKey: ['kitchen-stats', stationView, statsShift],
     queryFn: async () => {
-      const response = await fetch('/api/kitchen/stats');
+      const params = new URLSearchParams();
+      if (stationView) params.set('station', stationView);
+      if (statsShift) params.set('shift', statsShift);
+      const response = await fetch(`/api/kitchen/stats?${params}`);
       if (!response.ok) throw new Error('Failed to fetch stats');
       return response.json();
-    },
-    refetchInterval: 30000 // Refresh every 30 seconds
+    }
   });
 
   // Fetch orders
+  // Falls back to the last saved board when offline, so it must run then too
   const { data: orders = [], isLoading } = useQuery<Order[]>({
     queryKey: ['kitchen-orders', selectedTab],
-    queryFn: async () => {
-      const response = await fetch(`/api/kitchen/orders?status=${selectedTab}`);
-      if (!response.ok) throw new Error('Failed to fetch orders');
-      return response.json();
-    },
-    refetchInterval: 5000 // Refresh every 5 seconds
+    queryFn: () => fetchKitchenOrders(selectedTab),
+    networkMode: 'always'
+  });
+
+  const offline = useOfflineKitchen((conflicts) => {
+    toast({
+      title: conflicts.length === 1 ? 'An offline change was skipped' : `${conflicts.length} offline changes were skipped`,
+      description: conflicts.map(conflict => conflict.message).join(' '),
+      variant: 'destructive'
+    });
+  });
+
+  // Orders and stats are kept current by the pushed feed instead of polling.
+  // The sound plays once per order that actually arrives on the board.
+  const playNotification = () => {
+    if (!soundEnabled) return;
+    const audio = new Audio('/sounds/kitchen-notification.mp3');
+    audio.play().catch(() => {
+      // Ignore audio play errors (user interaction required)
+    });
+  };
+
+  useKitchenFeed(playNotification, (order) => {
+    if (order.priority !== 'urgent') return;
+    playNotification();
+    toast({
+      title: `Order #${order.orderNumber} is urgent`,
+      description: 'It has passed its estimated ready time.',
+      variant: 'destructive'
+    });
   });
 
   // Update order status mutation
+  // Offline changes are queued and resolve to null; the board already shows them
   const updateOrderMutation = useMutation({
-    mutationFn: async ({ orderId, status, itemId }: { 
-      orderId: string; 
-      status: string; 
-      itemId?: string;
-    }) => {
-      const response = await fetch(`/api/kitchen/orders/${orderId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status, itemId })
+    mutationFn: async (mutation: KitchenMutation) => {
+      const response = await offline.submit(mutation);
+      if (!response) return null;
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to update order status.');
+      }
+      return response.json();
+    },
+    networkMode: 'always',
+    onSuccess: (order, mutation) => {
+      if (order) {
+        queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+        queryClient.invalidateQueries({ queryKey: ['kitchen-stats'] });
+      }
+      // Item bumps are frequent; the card itself shows the change
+      if (mutation.kind !== 'order-status') return;
+      toast({
+        title: order ? 'Order Updated' : 'Saved Offline',
+        description: order
+          ? 'Order status has been updated successfully.'
+          : 'The change will be sent when the connection is back.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
       });
+    }
+  });
+
+  // Bump every item of this station's share of an order
+  const stationReadyMutation = useMutation({
+    mutationFn: async ({ id, orderNumber }: Order) => {
+      const response = await offline.submit({ kind: 'station-ready', orderId: id, orderNumber, station: stationView! });
+      if (!response) return null;
       if (!response.ok) throw new Error('Failed to update order');
       return response.json();
     },
+    networkMode: 'always',
+    onSuccess: (order) => {
+      if (order) queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to mark items ready.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  // Send a held course of a dine-in order to the kitchen
+  const fireCourseMutation = useMutation({
+    mutationFn: async ({ order, course }: { order: Order; course: Course }) => {
+      const response = await offline.submit({
+        kind: 'fire-course',
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        course
+      });
+      if (!response) return null;
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to fire course');
+      }
+      return response.json();
+    },
+    networkMode: 'always',
+    onSuccess: (order, { course }) => {
+      if (order) queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      toast({
+        title: `${COURSE_LABELS[course]} Fired`,
+        description: order ? 'The course is on its way to the stations.' : 'The change will be sent when the connection is back.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  // Remakes go out as a new linked ticket; voids update the order in place
+  const adjustItemMutation = useMutation({
+    mutationFn: async ({ order, item, kind, reason }: NonNullable<typeof adjusting> & { reason: KitchenReason }) => {
+      const response = await fetch(`/api/kitchen/orders/${order.id}/items/${item.id}/${kind}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Failed to ${kind} item`);
+      }
+      return response.json() as Promise<{ orderNumber: string }>;
+    },
+    onSuccess: (result, { item, kind }) => {
+      setAdjusting(null);
+      queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      toast({
+        title: kind === 'remake' ? `Remake #${result.orderNumber} sent` : 'Item Voided',
+        description: kind === 'remake' ? `${item.name} is back in the queue.` : `${item.name} will not be made.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const recallOrderMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await fetch(`/api/kitchen/orders/${orderId}/recall`, { method: 'POST' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to recall order');
+      }
+      return response.json();
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
-      queryClient.invalidateQueries({ queryKey: ['kitchen-stats'] });
       toast({
-        title: 'Order Updated',
-        description: 'Order status has been updated successfully.'
+        title: 'Order Recalled',
+        description: 'The order is back on the pass.'
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: 'Error',
-        description: 'Failed to update order status.',
+        description: error.message,
         variant: 'destructive'
       });
     }
@@ -148,41 +336,46 @@ export default function KitchenPanelPage() {
       const response = await fetch(`/api/kitchen/orders/${orderId}/print`, {
         method: 'POST'
       });
-      if (!response.ok) throw new Error('Failed to print order');
-      return response.json();
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to print order');
+      }
+      return response.json() as Promise<{ jobs: PrintJob[] }>;
     },
-    onSuccess: () => {
+    onSuccess: ({ jobs }) => {
       toast({
         title: 'Order Printed',
-        description: 'Order has been sent to kitchen printer.'
+        description: `Ticket sent to ${jobs.length} printer${jobs.length === 1 ? '' : 's'}.`
       });
-    }
-  });
-
-  // Play notification sound for new orders
-  useEffect(() => {
-    if (soundEnabled && orders.some(order => order.status === 'new')) {
-      const audio = new Audio('/sounds/kitchen-notification.mp3');
-      audio.play().catch(() => {
-        // Ignore audio play errors (user interaction required)
+    },
+    onError: (error) => {
+      toast({
+        title: 'Print Failed',
+        description: error.message,
+        variant: 'destructive'
       });
     }
-  }, [orders, soundEnabled]);
-
-  const handleAcceptOrder = useCallback((orderId: string) => {
-    updateOrderMutation.mutate({ orderId, status: 'accepted' });
-  }, [updateOrderMutation]);
-
-  const handleStartPreparing = useCallback((orderId: string) => {
-    updateOrderMutation.mutate({ orderId, status: 'preparing' });
-  }, [updateOrderMutation]);
+  });
 
-  const handleMarkReady = useCallback((orderId: string) => {
-    updateOrderMutation.mutate({ orderId, status: 'ready' });
+  const handleAdvanceOrder = useCallback((order: Order, status: OrderStatus) => {
+    updateOrderMutation.mutate({
+      kind: 'order-status',
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      from: order.status,
+      status
+    });
   }, [updateOrderMutation]);
 
-  const handleCompleteOrder = useCallback((orderId: string) => {
-    updateOrderMutation.mutate({ orderId, status: 'completed' });
+  const handleBumpItem = useCallback((order: Order, item: Order['items'][number], status: OrderItemStatus) => {
+    updateOrderMutation.mutate({
+      kind: 'item-status',
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      itemId: item.id,
+      from: item.status,
+      status
+    });
   }, [updateOrderMutation]);
 
   const handlePrintOrder = useCallback((orderId: string) => {
@@ -194,70 +387,92 @@ export default function KitchenPanelPage() {
   };
 
   const isOrderOverdue = (order: Order) => {
-    if (!order.estimatedCompletionTime) return false;
-    return new Date() > new Date(order.estimatedCompletionTime);
+    if (!order.promisedAt) return false;
+    return new Date() > new Date(order.promisedAt);
   };
 
   const getStatusActions = (order: Order) => {
-    switch (order.status) {
-      case 'new':
-        return (
-          <div className="flex gap-2">
-            <Button
-              size="sm"
-              onClick={() => handleAcceptOrder(order.id)}
-              className="bg-green-600 hover:bg-green-700"
-            >
-              <CheckCircle className="w-4 h-4 mr-1" />
-              Accept
-            </Button>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => handlePrintOrder(order.id)}
-            >
-              <Printer className="w-4 h-4" />
-            </Button>
-          </div>
-        );
-      case 'accepted':
-        return (
-          <Button
-            size="sm"
-            onClick={() => handleStartPreparing(order.id)}
-            className="bg-orange-600 hover:bg-orange-700"
-          >
-            <ChefHat className="w-4 h-4 mr-1" />
-            Start Preparing
-          </Button>
-        );
-      case 'preparing':
-        return (
+    if (stationView) {
+      return isStationDone(order, stationView) ? (
+        <Badge className="bg-green-600 text-white">Done</Badge>
+      ) : (
+        <Button
+          size="sm"
+          onClick={() => stationReadyMutation.mutate(order)}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Bell className="w-4 h-4 mr-1" />
+          Bump
+        </Button>
+      );
+    }
+
+    if (canRecall(order)) {
+      return (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => recallOrderMutation.mutate(order.id)}
+          disabled={recallOrderMutation.isPending}
+        >
+          <Undo2 className="w-4 h-4 mr-1" />
+          Recall
+        </Button>
+      );
+    }
+
+    const next = getNextStatus(order.status);
+    if (!next) return null;
+
+    const { icon: Icon, className } = ACTION_STYLES[next]!;
+    const held = next === 'ready' && hasHeldCourses(order);
+    const blocked = held || (next === 'ready' && !allStationsReady(order));
+    return (
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => handleAdvanceOrder(order, next)}
+          disabled={blocked}
+          className={className}
+        >
+          <Icon className="w-4 h-4 mr-1" />
+          {held ? 'Courses on hold' : blocked ? 'Waiting for stations' : ORDER_ACTION_LABELS[next]}
+        </Button>
+        {order.status === 'new' && (
           <Button
             size="sm"
-            onClick={() => handleMarkReady(order.id)}
-            className="bg-blue-600 hover:bg-blue-700"
+            variant="outline"
+            onClick={() => handlePrintOrder(order.id)}
           >
-            <Bell className="w-4 h-4 mr-1" />
-            Mark Ready
+            <Printer className="w-4 h-4" />
           </Button>
-        );
-      case 'ready':
-        return (
+        )}
+        {canTransition(order.status, 'cancelled') && (
           <Button
             size="sm"
-            onClick={() => handleCompleteOrder(order.id)}
-            className="bg-gray-600 hover:bg-gray-700"
+            variant="ghost"
+            onClick={() => handleAdvanceOrder(order, 'cancelled')}
+            title={ORDER_ACTION_LABELS.cancelled}
           >
-            <ArrowRight className="w-4 h-4 mr-1" />
-            Complete
+            <XCircle className="w-4 h-4 text-red-600" />
           </Button>
-        );
-      default:
-        return null;
-    }
+        )}
+      </div>
+    );
   };
 
+  // A station screen only lists orders with work left for it
+  const visibleOrders = stationView
+    ? orders.filter(order =>
+        getStationItems(order, stationView).length > 0 &&
+        (selectedTab !== 'active' || !isStationDone(order, stationView))
+      )
+    : orders;
+
+  const stationName = isExpo
+    ? 'Expo'
+    : stations.find(s => s.slug === stationView)?.name ?? stationView;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -272,10 +487,45 @@ export default function KitchenPanelPage() {
       <div className="mb-6">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold text-gray-900">Kitchen Panel</h1>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Kitchen Panel{stationName && ` · ${stationName}`}
+            </h1>
             <p className="text-gray-600">Manage orders and kitchen operations</p>
+            {stations.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                <Button
+                  size="sm"
+                  variant={!station ? 'default' : 'outline'}
+                  onClick={() => router.push('/kitchen')}
+                >
+                  All
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isExpo ? 'default' : 'outline'}
+                  onClick={() => router.push(`/kitchen?station=${EXPO_STATION}`)}
+                >
+                  Expo
+                </Button>
+                {stations.map(s => (
+                  <Button
+                    key={s.id}
+                    size="sm"
+                    variant={stationView === s.slug ? 'default' : 'outline'}
+                    onClick={() => router.push(`/kitchen?station=${s.slug}`)}
+                  >
+                    {s.name}
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-4">
+            <StockPanel />
+            <Button variant="outline" size="sm" onClick={() => router.push('/dispatch')}>
+              <Truck className="w-4 h-4" />
+              Dispatch
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -296,6 +546,37 @@ export default function KitchenPanelPage() {
         </div>
       </div>
 
+      {(!offline.online || offline.pending > 0) && (
+        <div className="mb-6 flex items-center gap-3 rounded-lg border border-yellow-300 bg-yellow-50 p-4 text-yellow-900">
+          <WifiOff className="w-5 h-5 shrink-0" />
+          <div>
+            <p className="font-medium">
+              {offline.online ? 'Connection is unstable' : 'Offline: showing the last known orders'}
+            </p>
+            {offline.pending > 0 && (
+              <p className="text-sm">
+                {offline.syncing ? 'Syncing' : 'Waiting to send'} {offline.pending} change{offline.pending === 1 ? '' : 's'}.
+                They are sent in order once the connection is back.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {offline.signedOut && offline.pending > 0 && (
+        <div className="mb-6 flex items-center justify-between gap-3 rounded-lg border border-red-300 bg-red-50 p-4 text-red-900">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            <p className="text-sm">
+              You were signed out. Sign in again to send {offline.pending} saved change{offline.pending === 1 ? '' : 's'}.
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => signIn(undefined, { callbackUrl: window.location.href })}>
+            Sign in
+          </Button>
+        </div>
+      )}
+
       {/* Stats Cards */}
       {stats && (
         <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
@@ -316,6 +597,7 @@ export default function KitchenPanelPage() {
                 <div>
                   <p className="text-sm text-gray-600">Avg Prep Time</p>
                   <p className="text-2xl font-bold">{stats.avgPrepTime}m</p>
+                  <p className="text-xs text-gray-500">p50 {stats.p50PrepTime}m · p90 {stats.p90PrepTime}m</p>
                 </div>
                 <Timer className="w-8 h-8 text-orange-500" />
               </div>
@@ -357,18 +639,62 @@ export default function KitchenPanelPage() {
         </div>
       )}
 
+      {stats && (
+        <Card className="mb-6">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-600 mr-2">Shift</span>
+              <Button
+                size="sm"
+                variant={!statsShift ? 'default' : 'outline'}
+                onClick={() => setStatsShift(null)}
+              >
+                All day
+              </Button>
+              {stats.shifts.map(shift => (
+                <Button
+                  key={shift}
+                  size="sm"
+                  variant={statsShift === shift ? 'default' : 'outline'}
+                  className="capitalize"
+                  onClick={() => setStatsShift(shift)}
+                >
+                  {shift}
+                </Button>
+              ))}
+            </div>
+            {stats.items.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Slowest dishes today</p>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                  {stats.items.slice(0, 5).map(item => (
+                    <div key={item.menuItemId} className="rounded border p-2">
+                      <p className="text-sm font-medium truncate">{item.name}</p>
+                      <p className="text-xs text-gray-500">
+                        avg {item.avgPrepTime}m · p90 {item.p90PrepTime}m · {item.count} made
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Orders Tabs */}
-      <Tabs value={selectedTab} onValueChange={setSelectedTab}>
-        <TabsList className="grid w-full grid-cols-4">
+      <Tabs value={selectedTab} onValueChange={(value) => setSelectedTab(value as KitchenTab)}>
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="active">Active Orders</TabsTrigger>
           <TabsTrigger value="ready">Ready</TabsTrigger>
           <TabsTrigger value="completed">Completed</TabsTrigger>
+          <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
           <TabsTrigger value="all">All Orders</TabsTrigger>
         </TabsList>
 
         <TabsContent value={selectedTab} className="mt-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
-            {orders.map((order) => (
+            {visibleOrders.map((order) => (
               <Card
                 key={order.id}
                 className={cn(
@@ -382,6 +708,11 @@ export default function KitchenPanelPage() {
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg">
                       Order #{order.orderNumber}
+                      {order.remakeOf && (
+                        <span className="block text-xs font-medium text-orange-700">
+                          Remake of #{order.remakeOf.orderNumber}
+                        </span>
+                      )}
                     </CardTitle>
                     <div className="flex items-center gap-2">
                       <Badge
@@ -408,37 +739,152 @@ export default function KitchenPanelPage() {
                       <span className="font-medium">Customer: {order.customerName}</span>
                     </div>
                   )}
+                  {order.scheduledFor && (
+                    <div className="flex items-center gap-1 text-sm text-purple-700">
+                      <CalendarClock className="w-4 h-4" />
+                      <span className="font-medium">
+                        Pre-order for {format(new Date(order.scheduledFor), 'HH:mm')}
+                        {order.fireAt && ` · fire at ${format(new Date(order.fireAt), 'HH:mm')}`}
+                      </span>
+                    </div>
+                  )}
                 </CardHeader>
 
                 <CardContent className="space-y-4">
+                  {/* Station progress on the pass */}
+                  {isExpo && (
+                    <div className="flex flex-wrap gap-2">
+                      {Array.from(new Set(order.items.map(item => item.station).filter(Boolean) as string[])).map(slug => (
+                        <Badge
+                          key={slug}
+                          className={cn(
+                            "text-xs text-white",
+                            isStationDone(order, slug) ? "bg-green-600" : "bg-gray-400"
+                          )}
+                        >
+                          {isStationDone(order, slug) && <CheckCircle className="w-3 h-3 mr-1" />}
+                          {stations.find(s => s.slug === slug)?.name ?? slug}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Order Items */}
                   <ScrollArea className="max-h-48">
                     <div className="space-y-3">
-                      {order.items.map((item, index) => (
-                        <div key={index} className="border-l-4 border-gray-200 pl-3">
-                          <div className="flex items-center justify-between">
-                            <span className="font-medium">
-                              {item.quantity}x {item.name}
-                            </span>
-                            <Badge variant="outline" className="text-xs">
-                              {item.estimatedTime}m
-                            </Badge>
-                          </div>
-                          {item.modifiers.length > 0 && (
-                            <div className="text-sm text-gray-600 mt-1">
-                              Modifiers: {item.modifiers.join(', ')}
-                            </div>
-                          )}
-                          {item.specialInstructions && (
-                            <div className="text-sm text-orange-600 mt-1 font-medium">
-                              Note: {item.specialInstructions}
+                      {groupByCourse(stationView ? getStationItems(order, stationView) : order.items).map((group, _, groups) => (
+                        <div key={group.course} className={cn("space-y-3", group.held && "opacity-50")}>
+                          {groups.length > 1 && (
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                                {COURSE_LABELS[group.course]}
+                              </span>
+                              {group.held && (
+                                <div className="flex items-center gap-1">
+                                  <Badge variant="outline" className="text-xs">Held</Badge>
+                                  {!stationView && order.status !== 'cancelled' && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-6 px-2 text-xs"
+                                      disabled={fireCourseMutation.isPending}
+                                      onClick={() => fireCourseMutation.mutate({ order, course: group.course })}
+                                    >
+                                      <Flame className="w-3 h-3 mr-1" />
+                                      Fire
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           )}
-                          {item.allergens.length > 0 && (
-                            <div className="text-sm text-red-600 mt-1">
-                              ⚠️ Allergens: {item.allergens.join(', ')}
+                          {group.items.map((item, index) => (
+                            <div
+                              key={index}
+                              className={cn(
+                                "border-l-4 pl-3",
+                                item.status === 'ready' || item.status === 'served' ? "border-green-400" : "border-gray-200"
+                              )}
+                            >
+                              <div className="flex items-center justify-between">
+                                <span className={cn("font-medium", item.voided && "line-through text-gray-400")}>
+                                  {item.quantity}x {item.name}
+                                </span>
+                                <div className="flex items-center gap-1">
+                                  {!stationView && item.station && (
+                                    <Badge variant="secondary" className="text-xs">
+                                      {stations.find(s => s.slug === item.station)?.name ?? item.station}
+                                    </Badge>
+                                  )}
+                                  <Badge variant="outline" className="text-xs">
+                                    {item.estimatedTime}m
+                                  </Badge>
+                                  {item.voided ? (
+                                    <Badge variant="outline" className="text-xs text-red-600">
+                                      void{item.voidReason && `: ${KITCHEN_REASON_LABELS[item.voidReason]}`}
+                                    </Badge>
+                                  ) : (
+                                    <Badge className={cn("text-xs", ITEM_STATUS_COLORS[item.status])}>
+                                      {item.status}
+                                    </Badge>
+                                  )}
+                                  {ITEM_NEXT_STATUS[item.status] && !item.held && !item.voided && order.status !== 'completed' && order.status !== 'cancelled' && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-6 px-2 text-xs"
+                                      disabled={updateOrderMutation.isPending}
+                                      onClick={() => handleBumpItem(order, item, ITEM_NEXT_STATUS[item.status]!.status)}
+                                    >
+                                      {ITEM_NEXT_STATUS[item.status]!.label}
+                                    </Button>
+                                  )}
+                                  {!item.held && !item.voided && order.status !== 'cancelled' && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-6 px-1"
+                                      title="Remake"
+                                      onClick={() => setAdjusting({ order, item, kind: 'remake' })}
+                                    >
+                                      <RotateCcw className="w-3 h-3" />
+                                    </Button>
+                                  )}
+                                  {!item.voided && !isFinalStatus(order.status) && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-6 px-1 text-red-600"
+                                      title="Void"
+                                      onClick={() => setAdjusting({ order, item, kind: 'void' })}
+                                    >
+                                      <Ban className="w-3 h-3" />
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                              {item.remakeReason && (
+                                <div className="text-sm text-orange-700 mt-1 font-medium">
+                                  Remake: {KITCHEN_REASON_LABELS[item.remakeReason]}
+                                </div>
+                              )}
+                              {item.modifiers.length > 0 && (
+                                <div className="text-sm text-gray-600 mt-1">
+                                  Modifiers: {item.modifiers.join(', ')}
+                                </div>
+                              )}
+                              {item.specialInstructions && (
+                                <div className="text-sm text-orange-600 mt-1 font-medium">
+                                  Note: {item.specialInstructions}
+                                </div>
+                              )}
+                              {item.allergens.length > 0 && (
+                                <div className="text-sm text-red-600 mt-1">
+                                  ⚠️ Allergens: {item.allergens.join(', ')}
+                                </div>
+                              )}
                             </div>
-                          )}
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -501,7 +947,7 @@ export default function KitchenPanelPage() {
             ))}
           </div>
 
-          {orders.length === 0 && (
+          {visibleOrders.length === 0 && (
             <div className="text-center py-12">
               <ChefHat className="w-16 h-16 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No orders found</h3>
@@ -515,6 +961,148 @@ export default function KitchenPanelPage() {
           )}
         </TabsContent>
       </Tabs>
+
+      {/* Reason picker for remakes and voids */}
+      <Dialog open={!!adjusting} onOpenChange={open => !open && setAdjusting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {adjusting?.kind === 'remake' ? 'Remake' : 'Void'} {adjusting?.item.quantity}x {adjusting?.item.name}
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">Why?</p>
+          <div className="grid grid-cols-2 gap-2">
+            {KITCHEN_REASONS.map(reason => (
+              <Button
+                key={reason}
+                variant="outline"
+                disabled={adjustItemMutation.isPending}
+                onClick={() => adjusting && adjustItemMutation.mutate({ ...adjusting, reason })}
+              >
+                {KITCHEN_REASON_LABELS[reason]}
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// 86 board: what the kitchen has run out of, down to single modifier options
+function StockPanel() {
+  const queryClient = useQueryClient();
+  const [restockIn, setRestockIn] = useState('manual');
+
+  const { data: menu = [] } = useQuery({
+    queryKey: ['kitchen-stock'],
+    queryFn: async () => {
+      const response = await fetch('/api/kitchen/menu');
+      if (!response.ok) throw new Error('Failed to fetch menu');
+      return response.json() as Promise<MenuItem[]>;
+    }
+  });
+
+  const stockMutation = useMutation({
+    mutationFn: async ({ path, available }: { path: string; available: boolean }) => {
+      const restockAt = !available && restockIn !== 'manual'
+        ? new Date(Date.now() + Number(restockIn) * 60_000).toISOString()
+        : undefined;
+      const response = await fetch(`/api/kitchen/menu/${path}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ available, restockAt })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to update availability');
+      }
+      return response.json() as Promise<AvailabilityChange>;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['kitchen-stock'] }),
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const outCount = menu.reduce(
+    (count, item) =>
+      count +
+      (isAvailable(item) ? 0 : 1) +
+      item.modifiers.flatMap(modifier => modifier.options).filter(option => !isAvailable(option)).length,
+    0
+  );
+  const categories = Array.from(new Set(menu.map(item => item.category)));
+
+  const stockRow = (key: string, label: string, entity: { available?: boolean; restockAt?: string }, path: string, nested = false) => {
+    const available = isAvailable(entity);
+    return (
+      <div key={key} className={cn("flex items-center justify-between py-1", nested && "pl-4 text-sm")}>
+        <div>
+          <span className={cn(!available && "text-red-600 line-through")}>{label}</span>
+          {!available && entity.restockAt && (
+            <span className="ml-2 text-xs text-gray-500">back at {format(new Date(entity.restockAt), 'HH:mm')}</span>
+          )}
+        </div>
+        <Switch
+          checked={available}
+          disabled={stockMutation.isPending}
+          onCheckedChange={checked => stockMutation.mutate({ path, available: checked })}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PackageX className="w-4 h-4" />
+          Out of Stock
+          {outCount > 0 && <Badge className="ml-1 bg-red-600 text-white">{outCount}</Badge>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Out of Stock</SheetTitle>
+        </SheetHeader>
+        <div className="mt-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">Switching off lasts</span>
+            <Select value={restockIn} onValueChange={setRestockIn}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESTOCK_CHOICES.map(choice => (
+                  <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScrollArea className="h-[70vh] pr-2">
+            {categories.map(category => (
+              <div key={category} className="mb-4">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{category}</h4>
+                {menu.filter(item => item.category === category).map(item => (
+                  <div key={item.id} className="border-b py-1">
+                    {stockRow(item.id, item.name, item, item.id)}
+                    {item.modifiers.flatMap(modifier =>
+                      modifier.options.map(option =>
+                        stockRow(option.id, `${modifier.name}: ${option.name}`, option, `options/${option.id}`, true)
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </ScrollArea>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
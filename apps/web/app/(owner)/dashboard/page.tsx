@@ -4,22 +4,45 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatMoney, fromMajor } from '@hospity/utils';
+import type { MenuItem, Tenant } from '@/types/menu';
+import type { KitchenStation } from '@/types/station';
+import type { Review, ReviewStatus } from '@/types/review';
+import type { OrderStatus } from '@/types/order';
+import type { Printer } from '@/types/printer';
+import type { WasteReport } from '@/types/waste';
+import type { Driver } from '@/types/driver';
+import type { KPIData, OwnerOrderPage, SalesData, TimeRange } from '@/types/analytics';
+import { ORDER_ACTION_LABELS, ORDER_STATUS_LABELS, ORDER_TRANSITIONS } from '@/lib/order-lifecycle';
+import { KITCHEN_REASON_LABELS } from '@/lib/kitchen-reasons';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   DollarSign, 
   ShoppingCart, 
   Users, 
   TrendingUp, 
+  TrendingDown,
   Clock, 
   CheckCircle, 
   AlertCircle,
   Plus,
   Eye,
   Edit,
-  MoreHorizontal
+  MoreHorizontal,
+  Star,
+  EyeOff,
+  MessageSquare,
+  Trash2,
+  PrinterIcon,
+  Link as LinkIcon
 } from 'lucide-react';
 import {
   Table,
@@ -36,201 +59,1003 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { format, subDays, startOfDay } from 'date-fns';
-
-interface KPIData {
-  totalRevenue: number;
-  totalOrders: number;
-  activeCustomers: number;
-  averageOrderValue: number;
-  revenueGrowth: number;
-  ordersGrowth: number;
-  customersGrowth: number;
-  aovGrowth: number;
-}
-
-interface Order {
-  id: string;
-  orderNumber: string;
-  customerName: string;
-  customerPhone: string;
-  items: Array<{
-    name: string;
-    quantity: number;
-    price: number;
-  }>;
-  total: number;
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
-  orderType: 'dine-in' | 'takeaway' | 'delivery';
-  tableNumber?: string;
-  estimatedTime?: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface SalesData {
-  date: string;
-  revenue: number;
-  orders: number;
-}
-
-const mockKPIData: KPIData = {
-  totalRevenue: 45280.50,
-  totalOrders: 1247,
-  activeCustomers: 892,
-  averageOrderValue: 36.32,
-  revenueGrowth: 12.5,
-  ordersGrowth: 8.3,
-  customersGrowth: 15.2,
-  aovGrowth: 4.1
-};
-
-const mockSalesData: SalesData[] = Array.from({ length: 30 }, (_, i) => {
-  const date = format(subDays(new Date(), 29 - i), 'MMM dd');
-  return {
-    date,
-    revenue: Math.floor(Math.random() * 2000) + 800,
-    orders: Math.floor(Math.random() * 50) + 20
-  };
-});
-
-const mockOrders: Order[] = [
-  {
-    id: '1',
-    orderNumber: 'ORD-001',
-    customerName: 'John Doe',
-    customerPhone: '+1234567890',
-    items: [
-      { name: 'Margherita Pizza', quantity: 1, price: 18.99 },
-      { name: 'Caesar Salad', quantity: 1, price: 12.99 }
-    ],
-    total: 31.98,
-    status: 'preparing',
-    paymentStatus: 'paid',
-    orderType: 'dine-in',
-    tableNumber: 'T-05',
-    estimatedTime: 15,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: '2',
-    orderNumber: 'ORD-002',
-    customerName: 'Jane Smith',
-    customerPhone: '+1234567891',
-    items: [
-      { name: 'Chicken Burger', quantity: 2, price: 15.99 },
-      { name: 'French Fries', quantity: 1, price: 6.99 }
-    ],
-    total: 38.97,
-    status: 'ready',
-    paymentStatus: 'paid',
-    orderType: 'takeaway',
-    estimatedTime: 5,
-    createdAt: new Date(Date.now() - 1800000).toISOString(),
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: '3',
-    orderNumber: 'ORD-003',
-    customerName: 'Mike Johnson',
-    customerPhone: '+1234567892',
-    items: [
-      { name: 'Pasta Carbonara', quantity: 1, price: 22.99 },
-      { name: 'Garlic Bread', quantity: 1, price: 8.99 }
-    ],
-    total: 31.98,
-    status: 'confirmed',
-    paymentStatus: 'paid',
-    orderType: 'delivery',
-    estimatedTime: 25,
-    createdAt: new Date(Date.now() - 3600000).toISOString(),
-    updatedAt: new Date().toISOString()
-  }
-];
+import { format, startOfDay } from 'date-fns';
 
-const getStatusColor = (status: Order['status']) => {
+const getStatusColor = (status: OrderStatus) => {
   switch (status) {
-    case 'pending': return 'bg-yellow-100 text-yellow-800';
-    case 'confirmed': return 'bg-blue-100 text-blue-800';
+    case 'new': return 'bg-yellow-100 text-yellow-800';
+    case 'accepted': return 'bg-blue-100 text-blue-800';
     case 'preparing': return 'bg-orange-100 text-orange-800';
     case 'ready': return 'bg-green-100 text-green-800';
-    case 'delivered': return 'bg-gray-100 text-gray-800';
+    case 'completed': return 'bg-gray-100 text-gray-800';
     case 'cancelled': return 'bg-red-100 text-red-800';
     default: return 'bg-gray-100 text-gray-800';
   }
 };
 
-const getStatusIcon = (status: Order['status']) => {
+const getStatusIcon = (status: OrderStatus) => {
   switch (status) {
-    case 'pending': return <Clock className="h-4 w-4" />;
-    case 'confirmed': return <CheckCircle className="h-4 w-4" />;
+    case 'new': return <Clock className="h-4 w-4" />;
+    case 'accepted': return <CheckCircle className="h-4 w-4" />;
     case 'preparing': return <Clock className="h-4 w-4" />;
     case 'ready': return <CheckCircle className="h-4 w-4" />;
-    case 'delivered': return <CheckCircle className="h-4 w-4" />;
+    case 'completed': return <CheckCircle className="h-4 w-4" />;
     case 'cancelled': return <AlertCircle className="h-4 w-4" />;
     default: return <Clock className="h-4 w-4" />;
   }
 };
 
+const REVIEW_FILTERS: Array<{ status: ReviewStatus; label: string }> = [
+  { status: 'pending', label: 'Awaiting approval' },
+  { status: 'published', label: 'Published' },
+  { status: 'hidden', label: 'Hidden' },
+];
+
+function ReviewModeration() {
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<ReviewStatus>('pending');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ['owner-reviews', filter],
+    queryFn: async () => {
+      const response = await fetch(`/api/owner/reviews?status=${filter}`);
+      if (!response.ok) throw new Error('Failed to fetch reviews');
+      return response.json() as Promise<Review[]>;
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, ...update }: { id: string; status?: ReviewStatus; reply?: string | null }) => {
+      const response = await fetch(`/api/owner/reviews/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) throw new Error('Failed to update review');
+      return response.json() as Promise<Review>;
+    },
+    onSuccess: () => {
+      setReplyingTo(null);
+      setReply('');
+      queryClient.invalidateQueries({ queryKey: ['owner-reviews'] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reviews</CardTitle>
+        <CardDescription>Verified reviews from completed orders</CardDescription>
+        <div className="flex space-x-2 pt-2">
+          {REVIEW_FILTERS.map(option => (
+            <Button
+              key={option.status}
+              size="sm"
+              variant={filter === option.status ? 'default' : 'outline'}
+              onClick={() => setFilter(option.status)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading reviews...</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviews here.</p>
+        ) : (
+          reviews.map(review => (
+            <div key={review.id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{review.menuItemName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {review.authorName} · {format(new Date(review.createdAt), 'MMM dd, HH:mm')}
+                  </p>
+                </div>
+                <div className="flex">
+                  {Array.from({ length: review.rating }, (_, i) => (
+                    <Star key={i} className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                  ))}
+                </div>
+              </div>
+              {review.comment && <p className="text-sm">{review.comment}</p>}
+              {review.reply && replyingTo !== review.id && (
+                <p className="text-sm border-l-2 pl-3 text-muted-foreground">
+                  <span className="font-medium">Your reply: </span>
+                  {review.reply}
+                </p>
+              )}
+
+              {replyingTo === review.id ? (
+                <div className="space-y-2">
+                  <Textarea value={reply} maxLength={1000} onChange={(e) => setReply(e.target.value)} />
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      disabled={moderateMutation.isPending}
+                      onClick={() => moderateMutation.mutate({ id: review.id, reply: reply.trim() || null })}
+                    >
+                      Save reply
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  {review.status !== 'published' && (
+                    <Button
+                      size="sm"
+                      disabled={moderateMutation.isPending}
+                      onClick={() => moderateMutation.mutate({ id: review.id, status: 'published' })}
+                    >
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                      Publish
+                    </Button>
+                  )}
+                  {review.status !== 'hidden' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={moderateMutation.isPending}
+                      onClick={() => moderateMutation.mutate({ id: review.id, status: 'hidden' })}
+                    >
+                      <EyeOff className="mr-2 h-4 w-4" />
+                      Hide
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setReplyingTo(review.id);
+                      setReply(review.reply || '');
+                    }}
+                  >
+                    <MessageSquare className="mr-2 h-4 w-4" />
+                    {review.reply ? 'Edit reply' : 'Reply'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StationSettings({ tenantId }: { tenantId: string }) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+
+  const { data: stations = [] } = useQuery({
+    queryKey: ['owner-stations'],
+    queryFn: async () => {
+      const response = await fetch('/api/owner/stations');
+      if (!response.ok) throw new Error('Failed to fetch stations');
+      return response.json() as Promise<KitchenStation[]>;
+    },
+  });
+
+  const { data: menu = [] } = useQuery({
+    queryKey: ['menu', tenantId],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${tenantId}/menu`);
+      if (!response.ok) throw new Error('Failed to fetch menu');
+      return response.json() as Promise<MenuItem[]>;
+    },
+  });
+  const categories = Array.from(new Set(menu.map(item => item.category)));
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...body }: Partial<KitchenStation>) => {
+      const response = await fetch(id ? `/api/owner/stations/${id}` : '/api/owner/stations', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Failed to save station');
+      }
+      return response.json() as Promise<KitchenStation>;
+    },
+    onSuccess: () => {
+      setName('');
+      setSlug('');
+      queryClient.invalidateQueries({ queryKey: ['owner-stations'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/owner/stations/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete station');
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['owner-stations'] }),
+  });
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(entry => entry !== value) : [...list, value];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Kitchen Stations</CardTitle>
+        <CardDescription>
+          Route categories or single items to a station. Each station has its own kitchen
+          screen at /kitchen?station=&lt;id&gt;.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {stations.map(station => (
+          <div key={station.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">{station.name}</p>
+                <p className="text-xs text-muted-foreground">/kitchen?station={station.slug}</p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(station.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-2">Categories</p>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(category => (
+                  <Badge
+                    key={category}
+                    variant={station.categories.includes(category) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() =>
+                      saveMutation.mutate({ id: station.id, categories: toggle(station.categories, category) })
+                    }
+                  >
+                    {category}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-2">Items (override their category)</p>
+              <div className="flex flex-wrap gap-2">
+                {menu.map(item => (
+                  <Badge
+                    key={item.id}
+                    variant={station.menuItemIds.includes(item.id) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() =>
+                      saveMutation.mutate({ id: station.id, menuItemIds: toggle(station.menuItemIds, item.id) })
+                    }
+                  >
+                    {item.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="text-sm font-medium">Station name</label>
+            <Input
+              value={name}
+              placeholder="Grill"
+              onChange={(e) => {
+                setName(e.target.value);
+                setSlug(e.target.value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''));
+              }}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="text-sm font-medium">Screen id</label>
+            <Input value={slug} placeholder="grill" onChange={(e) => setSlug(e.target.value)} />
+          </div>
+          <Button
+            disabled={!name.trim() || !slug || saveMutation.isPending}
+            onClick={() => saveMutation.mutate({ name, slug, sortOrder: stations.length })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Station
+          </Button>
+        </div>
+        {saveMutation.isError && (
+          <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Radix Select items cannot have an empty value
+const ALL_ITEMS = 'all';
+
+function PrinterSettings() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [host, setHost] = useState('');
+  const [station, setStation] = useState(ALL_ITEMS);
+
+  const { data: printers = [] } = useQuery({
+    queryKey: ['owner-printers'],
+    queryFn: async () => {
+      const response = await fetch('/api/owner/printers');
+      if (!response.ok) throw new Error('Failed to fetch printers');
+      return response.json() as Promise<Printer[]>;
+    },
+  });
+
+  const { data: stations = [] } = useQuery({
+    queryKey: ['owner-stations'],
+    queryFn: async () => {
+      const response = await fetch('/api/owner/stations');
+      if (!response.ok) throw new Error('Failed to fetch stations');
+      return response.json() as Promise<KitchenStation[]>;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, station, ...body }: Partial<Printer>) => {
+      const response = await fetch(id ? `/api/owner/printers/${id}` : '/api/owner/printers', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(station === undefined ? body : { ...body, station: station === ALL_ITEMS ? null : station }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Failed to save printer');
+      }
+      return response.json() as Promise<Printer>;
+    },
+    onSuccess: () => {
+      setName('');
+      setHost('');
+      setStation(ALL_ITEMS);
+      queryClient.invalidateQueries({ queryKey: ['owner-printers'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/owner/printers/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete printer');
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['owner-printers'] }),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/owner/printers/${id}/test`, { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to print test page');
+    },
+  });
+
+  const stationSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ITEMS}>Whole order</SelectItem>
+        {stations.map(entry => (
+          <SelectItem key={entry.id} value={entry.slug}>{entry.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Kitchen Printers</CardTitle>
+        <CardDescription>
+          Network ticket printers on raw port 9100. A station printer only prints that
+          station's items.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {printers.map(printer => (
+          <div key={printer.id} className="flex items-center justify-between border rounded-lg p-4">
+            <div>
+              <p className="font-medium">{printer.name}</p>
+              <p className="text-xs text-muted-foreground">{printer.host}:{printer.port}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {stationSelect(printer.station ?? ALL_ITEMS, value =>
+                saveMutation.mutate({ id: printer.id, station: value })
+              )}
+              <Switch
+                checked={printer.enabled}
+                onCheckedChange={enabled => saveMutation.mutate({ id: printer.id, enabled })}
+              />
+              <Button size="sm" variant="outline" onClick={() => testMutation.mutate(printer.id)}>
+                <PrinterIcon className="mr-2 h-4 w-4" />
+                Test
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(printer.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="text-sm font-medium">Printer name</label>
+            <Input value={name} placeholder="Grill printer" onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="flex-1">
+            <label className="text-sm font-medium">IP address</label>
+            <Input value={host} placeholder="192.168.1.50" onChange={(e) => setHost(e.target.value)} />
+          </div>
+          {stationSelect(station, setStation)}
+          <Button
+            disabled={!name.trim() || !host.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate({ name, host, station })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Printer
+          </Button>
+        </div>
+        {saveMutation.isError && (
+          <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+        )}
+        {testMutation.isError && (
+          <p className="text-sm text-red-600">{testMutation.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DriverSettings() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ['owner-drivers'],
+    queryFn: async () => {
+      const response = await fetch('/api/owner/drivers');
+      if (!response.ok) throw new Error('Failed to fetch drivers');
+      return response.json() as Promise<Driver[]>;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...body }: Partial<Driver>) => {
+      const response = await fetch(id ? `/api/owner/drivers/${id}` : '/api/owner/drivers', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Failed to save driver');
+      }
+      return response.json() as Promise<Driver>;
+    },
+    onSuccess: () => {
+      setName('');
+      setPhone('');
+      queryClient.invalidateQueries({ queryKey: ['owner-drivers'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/owner/drivers/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Failed to delete driver');
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['owner-drivers'] }),
+  });
+
+  // Drivers have no staff account; this link is how they sign in
+  const copyLink = async (driver: Driver) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/driver?token=${driver.accessToken}`);
+    setCopied(driver.id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delivery Drivers</CardTitle>
+        <CardDescription>
+          Each driver gets a personal link to the driver app. Switching a driver off
+          takes them off the dispatch board.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {drivers.map(driver => (
+          <div key={driver.id} className="flex items-center justify-between border rounded-lg p-4">
+            <div>
+              <p className="font-medium">{driver.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {driver.phone}
+                {driver.available && ' · on shift'}
+                {driver.activeJobs > 0 && ` · ${driver.activeJobs} active`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={driver.active}
+                onCheckedChange={active => saveMutation.mutate({ id: driver.id, active })}
+              />
+              <Button size="sm" variant="outline" onClick={() => copyLink(driver)}>
+                <LinkIcon className="mr-2 h-4 w-4" />
+                {copied === driver.id ? 'Copied' : 'Copy link'}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(driver.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="text-sm font-medium">Driver name</label>
+            <Input value={name} placeholder="Sam" onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="flex-1">
+            <label className="text-sm font-medium">Phone</label>
+            <Input value={phone} placeholder="+44 7700 900123" onChange={(e) => setPhone(e.target.value)} />
+          </div>
+          <Button
+            disabled={!name.trim() || !phone.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate({ name, phone })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Driver
+          </Button>
+        </div>
+        {saveMutation.isError && (
+          <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+        )}
+        {deleteMutation.isError && (
+          <p className="text-sm text-red-600">{deleteMutation.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Each table's QR code carries a signed key; diners without it cannot join the table's cart
+function TableLinks() {
+  const [tableNumber, setTableNumber] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const linkMutation = useMutation({
+    mutationFn: async (table: string) => {
+      const response = await fetch(`/api/owner/tables/${encodeURIComponent(table.trim())}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Failed to create table link');
+      }
+      return response.json() as Promise<{ tableNumber: string; path: string }>;
+    },
+    onSuccess: async link => {
+      await navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+      setCopied(link.tableNumber);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Table QR Codes</CardTitle>
+        <CardDescription>
+          Copy the menu link for a table and print it as that table&apos;s QR code.
+          Guests scanning it share one cart.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="text-sm font-medium">Table number</label>
+            <Input value={tableNumber} placeholder="12" onChange={(e) => setTableNumber(e.target.value)} />
+          </div>
+          <Button
+            disabled={!tableNumber.trim() || linkMutation.isPending}
+            onClick={() => linkMutation.mutate(tableNumber)}
+          >
+            <LinkIcon className="mr-2 h-4 w-4" />
+            Copy link
+          </Button>
+        </div>
+        {copied && !linkMutation.isError && (
+          <p className="text-sm text-muted-foreground">Link for table {copied} copied.</p>
+        )}
+        {linkMutation.isError && (
+          <p className="text-sm text-red-600">{linkMutation.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Remakes and voids from the kitchen, and what the wasted food cost
+function WasteSummary({ formatPrice }: { formatPrice: (amount: number) => string }) {
+  const [days, setDays] = useState('30');
+
+  const { data: report } = useQuery({
+    queryKey: ['owner-waste', days],
+    queryFn: async () => {
+      const response = await fetch(`/api/owner/waste?days=${days}`);
+      if (!response.ok) throw new Error('Failed to fetch waste report');
+      return response.json() as Promise<WasteReport>;
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Remakes &amp; Waste</CardTitle>
+          <CardDescription>
+            Reasons the kitchen gave, costed from each item's food cost
+          </CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report && (
+          <>
+            <div className="grid grid-cols-4 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold">{formatPrice(report.totalCost)}</p>
+                <p className="text-xs text-muted-foreground">Waste cost</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{report.remakes}</p>
+                <p className="text-xs text-muted-foreground">Remakes</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{report.voids}</p>
+                <p className="text-xs text-muted-foreground">Voids</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{report.recalls}</p>
+                <p className="text-xs text-muted-foreground">Recalls</p>
+              </div>
+            </div>
+            {report.byReason.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing was remade or voided in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Remakes</TableHead>
+                    <TableHead className="text-right">Voids</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.byReason.map(entry => (
+                    <TableRow key={entry.reason}>
+                      <TableCell>{KITCHEN_REASON_LABELS[entry.reason]}</TableCell>
+                      <TableCell className="text-right">{entry.remakes}</TableCell>
+                      <TableCell className="text-right">{entry.voids}</TableCell>
+                      <TableCell className="text-right">{formatPrice(entry.cost)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {report.byItem.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Most wasted</p>
+                {report.byItem.slice(0, 5).map(item => (
+                  <div key={item.menuItemId} className="flex justify-between text-sm">
+                    <span>{item.quantity}x {item.name}</span>
+                    <span>{formatPrice(item.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The order filters' "any" choice
+const ALL_ORDERS = 'all';
+const ORDERS_PAGE_SIZE = 20;
+
+function OrderManagement({ range, formatPrice }: { range: TimeRange; formatPrice: (amount: number) => string }) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState(ALL_ORDERS);
+  const [typeFilter, setTypeFilter] = useState(ALL_ORDERS);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => setPage(1), [range]);
+
+  const { data } = useQuery({
+    queryKey: ['owner-orders', range, search, statusFilter, typeFilter, page],
+    queryFn: async () => {
+      const query = new URLSearchParams({ range, page: String(page), pageSize: String(ORDERS_PAGE_SIZE) });
+      if (search.trim()) query.set('search', search.trim());
+      if (statusFilter !== ALL_ORDERS) query.set('status', statusFilter);
+      if (typeFilter !== ALL_ORDERS) query.set('orderType', typeFilter);
+      const response = await fetch(`/api/owner/orders?${query}`);
+      if (!response.ok) throw new Error('Failed to fetch orders');
+      return response.json() as Promise<OwnerOrderPage>;
+    },
+    // Keeps the table in place while the next page loads
+    placeholderData: previous => previous,
+  });
+  const pageCount = data ? Math.ceil(data.total / data.pageSize) : 1;
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
+      // Same endpoint and lifecycle rules as the kitchen screen
+      const response = await fetch(`/api/kitchen/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to update order');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['owner-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['owner-kpis'] });
+      queryClient.invalidateQueries({ queryKey: ['owner-sales'] });
+    },
+    onError: (error: Error) => console.error('Failed to update order:', error),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Order Management</CardTitle>
+        <CardDescription>Manage and track all orders</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={search}
+            placeholder="Order #, name or phone"
+            className="w-64"
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+          />
+          <Select value={statusFilter} onValueChange={value => { setStatusFilter(value); setPage(1); }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ORDERS}>All statuses</SelectItem>
+              {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(entry => (
+                <SelectItem key={entry} value={entry}>{ORDER_STATUS_LABELS[entry]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={value => { setTypeFilter(value); setPage(1); }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ORDERS}>All types</SelectItem>
+              <SelectItem value="dine-in">Dine-in</SelectItem>
+              <SelectItem value="takeaway">Takeaway</SelectItem>
+              <SelectItem value="delivery">Delivery</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order #</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.orders.map((order) => (
+              <TableRow key={order.id}>
+                <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                <TableCell>
+                  <div>
+                    <p className="font-medium">{order.customerName}</p>
+                    <p className="text-sm text-muted-foreground">{order.customerPhone}</p>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="space-y-1">
+                    {order.items.map((item, index) => (
+                      <p key={index} className="text-sm">
+                        {item.quantity}x {item.name}
+                      </p>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{order.orderType}</Badge>
+                  {order.tableNumber && (
+                    <p className="text-xs text-muted-foreground mt-1">{order.tableNumber}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={getStatusColor(order.status)}>
+                    {ORDER_STATUS_LABELS[order.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell>{formatPrice(order.total)}</TableCell>
+                <TableCell>
+                  {order.estimatedTime && (
+                    <p className="text-sm">{order.estimatedTime} min</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(order.createdAt), 'HH:mm')}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" className="h-8 w-8 p-0">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {ORDER_TRANSITIONS[order.status].map(next => (
+                        <DropdownMenuItem key={next} onClick={() => statusMutation.mutate({ orderId: order.id, status: next })}>
+                          {next === 'cancelled'
+                            ? <AlertCircle className="mr-2 h-4 w-4" />
+                            : <CheckCircle className="mr-2 h-4 w-4" />}
+                          {ORDER_ACTION_LABELS[next]}
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuItem onClick={() => router.push(`/owner/orders/${order.id}`)}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        View Details
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {data && data.orders.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">No orders match these filters.</p>
+        )}
+        {data && data.total > data.pageSize && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {(page - 1) * data.pageSize + 1}–{Math.min(page * data.pageSize, data.total)} of {data.total}
+            </p>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Button size="sm" variant="outline" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+// Change from the equally long period before the selected range
+function Growth({ value, days }: { value: number | null; days: number }) {
+  if (value === null) {
+    return <p className="text-xs text-muted-foreground">No orders in the previous {days} days</p>;
+  }
+  const Icon = value >= 0 ? TrendingUp : TrendingDown;
+  return (
+    <p className="text-xs text-muted-foreground">
+      <span className={`inline-flex items-center ${value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+        <Icon className="mr-1 h-3 w-3" />
+        {value > 0 ? '+' : ''}{value}%
+      </span>
+      {' '}from the previous {days} days
+    </p>
+  );
+}
+
 export default function OwnerDashboard() {
   const { data: session, status } = useSession();
   const router = useRouter();
-  const [kpiData, setKpiData] = useState<KPIData>(mockKPIData);
-  const [salesData, setSalesData] = useState<SalesData[]>(mockSalesData);
-  const [orders, setOrders] = useState<Order[]>(mockOrders);
-  const [loading, setLoading] = useState(false);
-  const [selectedTimeRange, setSelectedTimeRange] = useState('30d');
+  const [selectedTimeRange, setSelectedTimeRange] = useState<TimeRange>('30d');
+
+  const tenantId = session?.user?.tenantId;
+  const { data: tenant } = useQuery({
+    queryKey: ['tenant', tenantId],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${tenantId}`);
+      if (!response.ok) throw new Error('Failed to fetch tenant');
+      return response.json() as Promise<Tenant>;
+    },
+    enabled: !!tenantId,
+  });
+
+  const formatPrice = (amount: number) =>
+    tenant ? formatMoney(fromMajor(amount, tenant.currency), tenant.locale) : amount.toFixed(2);
 
   useEffect(() => {
     if (status === 'loading') return;
     if (!session) {
       router.push('/auth/signin');
-      return;
-    }
-    
-    fetchDashboardData();
-  }, [session, status, router, selectedTimeRange]);
-
-  const fetchDashboardData = async () => {
-    setLoading(true);
-    try {
-      // In production, these would be actual API calls
-      // const kpiResponse = await fetch('/api/owner/kpis');
-      // const salesResponse = await fetch('/api/owner/sales');
-      // const ordersResponse = await fetch('/api/owner/orders');
-      
-      // For now, using mock data
-      await new Promise(resolve => setTimeout(resolve, 500)); // Simulate API delay
-      
-      setKpiData(mockKPIData);
-      setSalesData(mockSalesData);
-      setOrders(mockOrders);
-    } catch (error) {
-      console.error('Failed to fetch dashboard data:', error);
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [session, status, router]);
 
-  const handleOrderAction = async (orderId: string, action: string) => {
-    try {
-      // In production: await fetch(`/api/orders/${orderId}`, { method: 'PATCH', body: JSON.stringify({ action }) });
-      console.log(`Performing ${action} on order ${orderId}`);
-      
-      // Update local state for demo
-      setOrders(prev => prev.map(order => 
-        order.id === orderId 
-          ? { ...order, status: action as Order['status'], updatedAt: new Date().toISOString() }
-          : order
-      ));
-    } catch (error) {
-      console.error('Failed to update order:', error);
-    }
-  };
+  const { data: kpiData, isLoading: kpisLoading } = useQuery({
+    queryKey: ['owner-kpis', selectedTimeRange],
+    queryFn: async () => {
+      const response = await fetch(`/api/owner/kpis?range=${selectedTimeRange}`);
+      if (!response.ok) throw new Error('Failed to fetch KPIs');
+      return response.json() as Promise<KPIData>;
+    },
+    enabled: !!session,
+    placeholderData: previous => previous,
+  });
+
+  const { data: salesData = [] } = useQuery({
+    queryKey: ['owner-sales', selectedTimeRange],
+    queryFn: async () => {
+      const response = await fetch(`/api/owner/sales?range=${selectedTimeRange}`);
+      if (!response.ok) throw new Error('Failed to fetch sales');
+      const sales = (await response.json()) as SalesData[];
+      return sales.map(day => ({ ...day, date: format(new Date(`${day.date}T00:00:00`), 'MMM dd') }));
+    },
+    enabled: !!session,
+    placeholderData: previous => previous,
+  });
+
+  const { data: recentOrders } = useQuery({
+    queryKey: ['owner-orders', selectedTimeRange, 'recent'],
+    queryFn: async () => {
+      const response = await fetch(`/api/owner/orders?range=${selectedTimeRange}&pageSize=5`);
+      if (!response.ok) throw new Error('Failed to fetch orders');
+      return response.json() as Promise<OwnerOrderPage>;
+    },
+    enabled: !!session,
+  });
 
-  if (status === 'loading' || loading) {
+  const rangeDays = TIME_RANGE_DAYS[selectedTimeRange];
+
+  if (status === 'loading' || kpisLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -243,6 +1068,16 @@ export default function OwnerDashboard() {
       <div className="flex items-center justify-between space-y-2">
         <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
         <div className="flex items-center space-x-2">
+          <Select value={selectedTimeRange} onValueChange={value => setSelectedTimeRange(value as TimeRange)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
           <Button onClick={() => router.push('/owner/menu')}>
             <Plus className="mr-2 h-4 w-4" />
             Add Menu Item
@@ -255,6 +1090,13 @@ export default function OwnerDashboard() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="orders">Orders</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          {tenant?.settings.enableReviews && (
+            <TabsTrigger value="reviews">Reviews</TabsTrigger>
+          )}
+          <TabsTrigger value="stations">Stations</TabsTrigger>
+          <TabsTrigger value="printers">Printers</TabsTrigger>
+          <TabsTrigger value="drivers">Drivers</TabsTrigger>
+          <TabsTrigger value="tables">Tables</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -266,14 +1108,8 @@ export default function OwnerDashboard() {
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">${kpiData.totalRevenue.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">
-                  <span className={`inline-flex items-center ${kpiData.revenueGrowth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    <TrendingUp className="mr-1 h-3 w-3" />
-                    {kpiData.revenueGrowth > 0 ? '+' : ''}{kpiData.revenueGrowth}%
-                  </span>
-                  {' '}from last month
-                </p>
+                <div className="text-2xl font-bold">{formatPrice(kpiData?.totalRevenue ?? 0)}</div>
+                <Growth value={kpiData?.revenueGrowth ?? null} days={rangeDays} />
               </CardContent>
             </Card>
 
@@ -283,14 +1119,8 @@ export default function OwnerDashboard() {
                 <ShoppingCart className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{kpiData.totalOrders.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">
-                  <span className={`inline-flex items-center ${kpiData.ordersGrowth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    <TrendingUp className="mr-1 h-3 w-3" />
-                    {kpiData.ordersGrowth > 0 ? '+' : ''}{kpiData.ordersGrowth}%
-                  </span>
-                  {' '}from last month
-                </p>
+                <div className="text-2xl font-bold">{(kpiData?.totalOrders ?? 0).toLocaleString()}</div>
+                <Growth value={kpiData?.ordersGrowth ?? null} days={rangeDays} />
               </CardContent>
             </Card>
 
@@ -300,14 +1130,8 @@ export default function OwnerDashboard() {
                 <Users className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{kpiData.activeCustomers.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">
-                  <span className={`inline-flex items-center ${kpiData.customersGrowth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    <TrendingUp className="mr-1 h-3 w-3" />
-                    {kpiData.customersGrowth > 0 ? '+' : ''}{kpiData.customersGrowth}%
-                  </span>
-                  {' '}from last month
-                </p>
+                <div className="text-2xl font-bold">{(kpiData?.activeCustomers ?? 0).toLocaleString()}</div>
+                <Growth value={kpiData?.customersGrowth ?? null} days={rangeDays} />
               </CardContent>
             </Card>
 
@@ -317,14 +1141,8 @@ export default function OwnerDashboard() {
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">${kpiData.averageOrderValue.toFixed(2)}</div>
-                <p className="text-xs text-muted-foreground">
-                  <span className={`inline-flex items-center ${kpiData.aovGrowth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    <TrendingUp className="mr-1 h-3 w-3" />
-                    {kpiData.aovGrowth > 0 ? '+' : ''}{kpiData.aovGrowth}%
-                  </span>
-                  {' '}from last month
-                </p>
+                <div className="text-2xl font-bold">{formatPrice(kpiData?.averageOrderValue ?? 0)}</div>
+                <Growth value={kpiData?.aovGrowth ?? null} days={rangeDays} />
               </CardContent>
             </Card>
           </div>
@@ -334,7 +1152,7 @@ export default function OwnerDashboard() {
             <Card className="col-span-4">
               <CardHeader>
                 <CardTitle>Revenue Overview</CardTitle>
-                <CardDescription>Daily revenue for the last 30 days</CardDescription>
+                <CardDescription>Daily revenue for the last {rangeDays} days</CardDescription>
               </CardHeader>
               <CardContent className="pl-2">
                 <ResponsiveContainer width="100%" height={350}>
@@ -343,7 +1161,7 @@ export default function OwnerDashboard() {
                     <XAxis dataKey="date" />
                     <YAxis />
                     <Tooltip 
-                      formatter={(value: number) => [`$${value}`, 'Revenue']}
+                      formatter={(value: number) => [formatPrice(value), 'Revenue']}
                       labelFormatter={(label) => `Date: ${label}`}
                     />
                     <Line 
@@ -365,7 +1183,10 @@ export default function OwnerDashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {orders.slice(0, 5).map((order) => (
+                  {recentOrders?.orders.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No orders in this period yet.</p>
+                  )}
+                  {recentOrders?.orders.map((order) => (
                     <div key={order.id} className="flex items-center justify-between">
                       <div className="flex items-center space-x-4">
                         <div className="flex items-center space-x-2">
@@ -377,9 +1198,9 @@ export default function OwnerDashboard() {
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm font-medium">${order.total.toFixed(2)}</p>
+                        <p className="text-sm font-medium">{formatPrice(order.total)}</p>
                         <Badge className={`text-xs ${getStatusColor(order.status)}`}>
-                          {order.status}
+                          {ORDER_STATUS_LABELS[order.status]}
                         </Badge>
                       </div>
                     </div>
@@ -391,97 +1212,7 @@ export default function OwnerDashboard() {
         </TabsContent>
 
         <TabsContent value="orders" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Order Management</CardTitle>
-              <CardDescription>Manage and track all orders</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Order #</TableHead>
-                    <TableHead>Customer</TableHead>
-                    <TableHead>Items</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Total</TableHead>
-                    <TableHead>Time</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {orders.map((order) => (
-                    <TableRow key={order.id}>
-                      <TableCell className="font-medium">{order.orderNumber}</TableCell>
-                      <TableCell>
-                        <div>
-                          <p className="font-medium">{order.customerName}</p>
-                          <p className="text-sm text-muted-foreground">{order.customerPhone}</p>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="space-y-1">
-                          {order.items.map((item, index) => (
-                            <p key={index} className="text-sm">
-                              {item.quantity}x {item.name}
-                            </p>
-                          ))}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline">{order.orderType}</Badge>
-                        {order.tableNumber && (
-                          <p className="text-xs text-muted-foreground mt-1">{order.tableNumber}</p>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <Badge className={getStatusColor(order.status)}>
-                          {order.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>${order.total.toFixed(2)}</TableCell>
-                      <TableCell>
-                        {order.estimatedTime && (
-                          <p className="text-sm">{order.estimatedTime} min</p>
-                        )}
-                        <p className="text-xs text-muted-foreground">
-                          {format(new Date(order.createdAt), 'HH:mm')}
-                        </p>
-                      </TableCell>
-                      <TableCell>
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" className="h-8 w-8 p-0">
-                              <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => handleOrderAction(order.id, 'confirmed')}>
-                              <CheckCircle className="mr-2 h-4 w-4" />
-                              Confirm
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleOrderAction(order.id, 'preparing')}>
-                              <Clock className="mr-2 h-4 w-4" />
-                              Start Preparing
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleOrderAction(order.id, 'ready')}>
-                              <CheckCircle className="mr-2 h-4 w-4" />
-                              Mark Ready
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => router.push(`/owner/orders/${order.id}`)}>
-                              <Eye className="mr-2 h-4 w-4" />
-                              View Details
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
+          <OrderManagement range={selectedTimeRange} formatPrice={formatPrice} />
         </TabsContent>
 
         <TabsContent value="analytics" className="space-y-4">
@@ -533,6 +1264,32 @@ export default function OwnerDashboard() {
               </CardContent>
             </Card>
           </div>
+
+          <WasteSummary formatPrice={formatPrice} />
+        </TabsContent>
+
+        {tenant?.settings.enableReviews && (
+          <TabsContent value="reviews" className="space-y-4">
+            <ReviewModeration />
+          </TabsContent>
+        )}
+
+        {tenantId && (
+          <TabsContent value="stations" className="space-y-4">
+            <StationSettings tenantId={tenantId} />
+          </TabsContent>
+        )}
+
+        <TabsContent value="printers" className="space-y-4">
+          <PrinterSettings />
+        </TabsContent>
+
+        <TabsContent value="drivers" className="space-y-4">
+          <DriverSettings />
+        </TabsContent>
+
+        <TabsContent value="tables" className="space-y-4">
+          <TableLinks />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,960 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Reorder, useDragControls } from 'framer-motion';
+import { formatMoney, fromMajor } from '@hospity/utils';
+import {
+  ArrowLeft,
+  Check,
+  Edit,
+  Eye,
+  GripVertical,
+  Percent,
+  Plus,
+  Trash2,
+  Utensils,
+  X,
+} from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { MenuItemCard } from '@/components/menu/menu-item-card';
+import { cn } from '@/lib/utils';
+import { COURSE_LABELS, COURSE_ORDER } from '@/lib/courses';
+import { COMMON_ALLERGENS, DIETARY_REQUIREMENTS } from '@/lib/dietary-profile';
+import { isAvailable } from '@/lib/menu-availability';
+import { sortMenu } from '@/lib/menu-order';
+import type { Course, MenuItem, MenuModifier, OwnerMenu, Tenant } from '@/types/menu';
+
+// Radix Select items cannot have an empty value
+const NO_COURSE = 'none';
+const ALL_CATEGORIES = 'all';
+
+type PriceChange = 'percent' | 'amount' | 'set';
+
+const PRICE_CHANGE_LABELS: Record<PriceChange, string> = {
+  percent: 'Change by %',
+  amount: 'Change by amount',
+  set: 'Set price to',
+};
+
+interface OptionDraft {
+  id?: string;
+  name: string;
+  price: string;
+  allergens: string[];
+  dietary: string[];
+}
+
+interface ModifierDraft {
+  id?: string;
+  name: string;
+  type: MenuModifier['type'];
+  required: boolean;
+  minSelections: string;
+  maxSelections: string;
+  parentOptionId?: string;
+  options: OptionDraft[];
+}
+
+// Number fields are kept as typed so a half-entered price is not reformatted
+interface ItemDraft {
+  id?: string;
+  name: string;
+  description: string;
+  category: string;
+  price: string;
+  cost: string;
+  preparationTime: string;
+  calories: string;
+  spiceLevel: string;
+  course: Course | typeof NO_COURSE;
+  images: string;
+  allergens: string[];
+  dietary: string[];
+  tags: string;
+  modifiers: ModifierDraft[];
+}
+
+const optionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+const listOf = (value: string, separator: RegExp) =>
+  value.split(separator).map(entry => entry.trim()).filter(Boolean);
+
+function toDraft(item: MenuItem | null, category: string): ItemDraft {
+  return {
+    id: item?.id,
+    name: item?.name ?? '',
+    description: item?.description ?? '',
+    category: item?.category ?? category,
+    price: item ? String(item.price) : '',
+    cost: item?.cost != null ? String(item.cost) : '',
+    preparationTime: String(item?.preparationTime ?? 10),
+    calories: item?.calories != null ? String(item.calories) : '',
+    spiceLevel: item?.spiceLevel ? String(item.spiceLevel) : '',
+    course: item?.course ?? NO_COURSE,
+    images: (item?.images ?? []).join('\n'),
+    allergens: item?.allergens ?? [],
+    dietary: item?.dietary ?? [],
+    tags: (item?.tags ?? []).join(', '),
+    modifiers: (item?.modifiers ?? []).map(modifier => ({
+      id: modifier.id,
+      name: modifier.name,
+      type: modifier.type,
+      required: modifier.required,
+      minSelections: modifier.minSelections != null ? String(modifier.minSelections) : '',
+      maxSelections: modifier.maxSelections != null ? String(modifier.maxSelections) : '',
+      parentOptionId: modifier.parentOptionId,
+      options: modifier.options.map(option => ({
+        id: option.id,
+        name: option.name,
+        price: String(option.price),
+        allergens: option.allergens ?? [],
+        dietary: option.dietary ?? [],
+      })),
+    })),
+  };
+}
+
+function toPayload(draft: ItemDraft) {
+  return {
+    name: draft.name,
+    description: draft.description,
+    category: draft.category,
+    price: Number(draft.price),
+    cost: optionalNumber(draft.cost),
+    preparationTime: Number(draft.preparationTime) || 0,
+    calories: optionalNumber(draft.calories),
+    spiceLevel: optionalNumber(draft.spiceLevel),
+    course: draft.course === NO_COURSE ? null : draft.course,
+    images: listOf(draft.images, /\n/),
+    allergens: draft.allergens,
+    dietary: draft.dietary,
+    tags: listOf(draft.tags, /,/),
+    modifiers: draft.modifiers.map(modifier => ({
+      id: modifier.id,
+      name: modifier.name,
+      type: modifier.type,
+      required: modifier.required,
+      minSelections: optionalNumber(modifier.minSelections) ?? undefined,
+      maxSelections: optionalNumber(modifier.maxSelections) ?? undefined,
+      parentOptionId: modifier.parentOptionId,
+      options: modifier.options.map(option => ({ ...option, price: Number(option.price) || 0 })),
+    })),
+  };
+}
+
+/** The draft as the guest menu would show it once saved. */
+function previewItem(draft: ItemDraft, saved?: MenuItem): MenuItem {
+  const payload = toPayload(draft);
+  return {
+    id: draft.id ?? 'preview',
+    rating: saved?.rating ?? 0,
+    reviewCount: saved?.reviewCount ?? 0,
+    available: true,
+    ...payload,
+    price: payload.price || 0,
+    calories: payload.calories ?? undefined,
+    spiceLevel: payload.spiceLevel ?? undefined,
+    cost: payload.cost ?? undefined,
+    course: payload.course ?? undefined,
+    modifiers: payload.modifiers.map((modifier, index) => ({
+      ...modifier,
+      id: modifier.id ?? `new-${index}`,
+      options: modifier.options.map((option, position) => ({ ...option, id: option.id ?? `new-${index}-${position}` })),
+    })),
+  };
+}
+
+async function send<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.issues?.[0]?.message || error?.error || 'Failed to save the menu');
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+function ToggleList({
+  values,
+  selected,
+  onChange,
+}: {
+  values: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map(value => {
+        const on = selected.includes(value);
+        return (
+          <Badge
+            key={value}
+            variant={on ? 'default' : 'outline'}
+            className="cursor-pointer capitalize"
+            onClick={() => onChange(on ? selected.filter(entry => entry !== value) : [...selected, value])}
+          >
+            {value}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+function ModifierEditor({
+  modifier,
+  onChange,
+  onRemove,
+}: {
+  modifier: ModifierDraft;
+  onChange: (modifier: ModifierDraft) => void;
+  onRemove: () => void;
+}) {
+  const setOption = (index: number, option: Partial<OptionDraft>) =>
+    onChange({
+      ...modifier,
+      options: modifier.options.map((entry, position) => (position === index ? { ...entry, ...option } : entry)),
+    });
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={modifier.name}
+          placeholder="Group name, e.g. Size"
+          onChange={(e) => onChange({ ...modifier, name: e.target.value })}
+        />
+        <Select
+          value={modifier.type}
+          onValueChange={type => onChange({ ...modifier, type: type as MenuModifier['type'] })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="single">Pick one</SelectItem>
+            <SelectItem value="multiple">Pick several</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="icon" variant="ghost" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <Switch
+            checked={modifier.required}
+            onCheckedChange={required => onChange({ ...modifier, required })}
+          />
+          Required
+        </label>
+        {modifier.type === 'multiple' && (
+          <>
+            <label className="flex items-center gap-2">
+              Min
+              <Input
+                type="number"
+                min={0}
+                className="w-16"
+                value={modifier.minSelections}
+                onChange={(e) => onChange({ ...modifier, minSelections: e.target.value })}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Max
+              <Input
+                type="number"
+                min={1}
+                className="w-16"
+                value={modifier.maxSelections}
+                onChange={(e) => onChange({ ...modifier, maxSelections: e.target.value })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {modifier.options.map((option, index) => (
+          <div key={option.id ?? index} className="flex items-center gap-2">
+            <Input
+              value={option.name}
+              placeholder="Option"
+              onChange={(e) => setOption(index, { name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              className="w-28"
+              value={option.price}
+              placeholder="+ price"
+              onChange={(e) => setOption(index, { price: e.target.value })}
+            />
+            <Button
+              size="icon"
+              variant="ghost"
+              disabled={modifier.options.length === 1}
+              onClick={() => onChange({ ...modifier, options: modifier.options.filter((_, position) => position !== index) })}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            onChange({
+              ...modifier,
+              options: [...modifier.options, { name: '', price: '0', allergens: [], dietary: [] }],
+            })
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add option
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ItemEditor({
+  draft,
+  saved,
+  categories,
+  formatPrice,
+  onClose,
+  onSaved,
+}: {
+  draft: ItemDraft;
+  saved?: MenuItem;
+  categories: string[];
+  formatPrice: (amount: number) => string;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [form, setForm] = useState(draft);
+  const set = (changes: Partial<ItemDraft>) => setForm(current => ({ ...current, ...changes }));
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      form.id
+        ? send<MenuItem>(`/api/owner/menu/${form.id}`, 'PATCH', toPayload(form))
+        : send<MenuItem>('/api/owner/menu', 'POST', toPayload(form)),
+    onSuccess: () => {
+      toast({ title: 'Menu', description: `${form.name} saved` });
+      onSaved();
+    },
+    onError: (error: Error) => toast({ title: 'Menu', description: error.message, variant: 'destructive' }),
+  });
+
+  const field = (label: string, input: React.ReactNode) => (
+    <div className="space-y-1">
+      <label className="text-sm font-medium">{label}</label>
+      {input}
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{form.id ? `Edit ${saved?.name}` : 'New menu item'}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-6 md:grid-cols-[1fr_320px]">
+          <ScrollArea className="max-h-[70vh] pr-4">
+            <div className="space-y-4">
+              {field('Name', <Input value={form.name} onChange={(e) => set({ name: e.target.value })} />)}
+              {field(
+                'Description',
+                <Textarea rows={3} value={form.description} onChange={(e) => set({ description: e.target.value })} />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                {field(
+                  'Category',
+                  <Select value={form.category} onValueChange={category => set({ category })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {field(
+                  'Course',
+                  <Select value={form.course} onValueChange={course => set({ course: course as ItemDraft['course'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COURSE}>Not set (mains)</SelectItem>
+                      {COURSE_ORDER.map(course => (
+                        <SelectItem key={course} value={course}>{COURSE_LABELS[course]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                {field(
+                  'Price',
+                  <Input type="number" min={0} step="0.01" value={form.price} onChange={(e) => set({ price: e.target.value })} />
+                )}
+                {field(
+                  'Food cost',
+                  <Input type="number" min={0} step="0.01" value={form.cost} onChange={(e) => set({ cost: e.target.value })} />
+                )}
+                {field(
+                  'Prep time (min)',
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.preparationTime}
+                    onChange={(e) => set({ preparationTime: e.target.value })}
+                  />
+                )}
+                {field(
+                  'Calories',
+                  <Input type="number" min={0} value={form.calories} onChange={(e) => set({ calories: e.target.value })} />
+                )}
+                {field(
+                  'Spice level (0-5)',
+                  <Input
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={form.spiceLevel}
+                    onChange={(e) => set({ spiceLevel: e.target.value })}
+                  />
+                )}
+              </div>
+              {field(
+                'Image URLs, one per line',
+                <Textarea rows={2} value={form.images} onChange={(e) => set({ images: e.target.value })} />
+              )}
+              {field(
+                'Allergens',
+                <ToggleList values={COMMON_ALLERGENS} selected={form.allergens} onChange={allergens => set({ allergens })} />
+              )}
+              {field(
+                'Dietary',
+                <ToggleList values={DIETARY_REQUIREMENTS} selected={form.dietary} onChange={dietary => set({ dietary })} />
+              )}
+              {field(
+                'Tags, comma separated',
+                <Input value={form.tags} placeholder="popular, new" onChange={(e) => set({ tags: e.target.value })} />
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Options</p>
+                {form.modifiers.map((modifier, index) => (
+                  <ModifierEditor
+                    key={modifier.id ?? index}
+                    modifier={modifier}
+                    onChange={changed =>
+                      set({ modifiers: form.modifiers.map((entry, position) => (position === index ? changed : entry)) })
+                    }
+                    onRemove={() => set({ modifiers: form.modifiers.filter((_, position) => position !== index) })}
+                  />
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    set({
+                      modifiers: [
+                        ...form.modifiers,
+                        {
+                          name: '',
+                          type: 'single',
+                          required: false,
+                          minSelections: '',
+                          maxSelections: '',
+                          options: [{ name: '', price: '0', allergens: [], dietary: [] }],
+                        },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add option group
+                </Button>
+              </div>
+            </div>
+          </ScrollArea>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-muted-foreground">Guest preview</p>
+            <MenuItemCard item={previewItem(form, saved)} price={formatPrice(Number(form.price) || 0)} showRating />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                disabled={!form.name.trim() || !form.category || form.price === '' || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                <Check className="mr-2 h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ItemRow({
+  item,
+  selected,
+  formatPrice,
+  onSelect,
+  onEdit,
+  onDelete,
+  onDragEnd,
+}: {
+  item: MenuItem;
+  selected: boolean;
+  formatPrice: (amount: number) => string;
+  onSelect: (selected: boolean) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onDragEnd: () => void;
+}) {
+  const controls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={item}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onDragEnd}
+      className="flex items-center justify-between rounded-lg border bg-background p-3"
+    >
+      <div className="flex items-center gap-3">
+        <GripVertical
+          className="h-4 w-4 cursor-grab text-muted-foreground touch-none"
+          onPointerDown={(e) => controls.start(e)}
+        />
+        <input
+          type="checkbox"
+          className="h-4 w-4"
+          checked={selected}
+          onChange={(e) => onSelect(e.target.checked)}
+        />
+        <div>
+          <p className={cn('font-medium', !isAvailable(item) && 'text-muted-foreground line-through')}>
+            {item.name}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {item.preparationTime} min
+            {item.course && ` · ${COURSE_LABELS[item.course]}`}
+            {item.modifiers.length > 0 && ` · ${item.modifiers.length} option group${item.modifiers.length === 1 ? '' : 's'}`}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        {!isAvailable(item) && <Badge variant="outline">Sold out</Badge>}
+        <span className="font-medium">{formatPrice(item.price)}</span>
+        <Button size="icon" variant="ghost" onClick={onEdit}>
+          <Edit className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={onDelete}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </Reorder.Item>
+  );
+}
+
+export default function MenuStudioPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const tenantId = session?.user?.tenantId;
+
+  const [categories, setCategories] = useState<string[]>([]);
+  const [items, setItems] = useState<MenuItem[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<ItemDraft | null>(null);
+  const [newCategory, setNewCategory] = useState('');
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const [priceChange, setPriceChange] = useState<PriceChange>('percent');
+  const [priceValue, setPriceValue] = useState('');
+  const [previewCategory, setPreviewCategory] = useState(ALL_CATEGORIES);
+
+  useEffect(() => {
+    if (status !== 'loading' && !session) router.push('/auth/signin');
+  }, [session, status, router]);
+
+  const { data: tenant } = useQuery({
+    queryKey: ['tenant', tenantId],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${tenantId}`);
+      if (!response.ok) throw new Error('Failed to fetch tenant');
+      return response.json() as Promise<Tenant>;
+    },
+    enabled: !!tenantId,
+  });
+
+  const { data: menu, isLoading } = useQuery({
+    queryKey: ['owner-menu'],
+    queryFn: async () => {
+      const response = await fetch('/api/owner/menu');
+      if (!response.ok) throw new Error('Failed to load the menu');
+      return response.json() as Promise<OwnerMenu>;
+    },
+    enabled: !!session,
+  });
+
+  // Local copies so dragging moves rows at once; saved when a drag ends
+  useEffect(() => {
+    if (!menu) return;
+    setCategories(menu.categories);
+    setItems(menu.items);
+    setSelected(current => current.filter(id => menu.items.some(item => item.id === id)));
+  }, [menu]);
+
+  const formatPrice = (amount: number) =>
+    tenant ? formatMoney(fromMajor(amount, tenant.currency), tenant.locale) : amount.toFixed(2);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['owner-menu'] });
+    // Open guest menus in this browser pick up the change too
+    if (tenantId) queryClient.invalidateQueries({ queryKey: ['menu', tenantId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Menu', description: error.message, variant: 'destructive' });
+    refresh();
+  };
+
+  const orderMutation = useMutation({
+    mutationFn: (order: { categories?: string[]; itemIds?: string[] }) =>
+      send<OwnerMenu>('/api/owner/menu/order', 'PUT', order),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (item: MenuItem) => send<void>(`/api/owner/menu/${item.id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const categoryMutation = useMutation({
+    mutationFn: ({ action, name, to }: { action: 'create' | 'rename' | 'delete'; name: string; to?: string }) => {
+      const url = `/api/owner/menu/categories/${encodeURIComponent(name)}`;
+      if (action === 'create') return send<string[]>('/api/owner/menu/categories', 'POST', { name });
+      if (action === 'rename') return send<string[]>(url, 'PATCH', { name: to });
+      return send<string[]>(url, 'DELETE');
+    },
+    onSuccess: () => {
+      setNewCategory('');
+      setRenaming(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const priceMutation = useMutation({
+    mutationFn: () =>
+      send<MenuItem[]>('/api/owner/menu/prices', 'POST', {
+        itemIds: selected,
+        mode: priceChange,
+        value: Number(priceValue),
+      }),
+    onSuccess: updated => {
+      toast({ title: 'Menu', description: `Updated ${updated.length} price${updated.length === 1 ? '' : 's'}` });
+      setPriceValue('');
+      setSelected([]);
+      refresh();
+    },
+    onError,
+  });
+
+  const itemsIn = (category: string) => items.filter(item => item.category === category);
+
+  const reorderItems = (category: string, ordered: MenuItem[]) =>
+    setItems(current => [...current.filter(item => item.category !== category), ...ordered]);
+
+  const saveItemOrder = () =>
+    orderMutation.mutate({ itemIds: categories.flatMap(category => itemsIn(category).map(item => item.id)) });
+
+  // Exactly what the guest menu lists: its ordering, minus anything sold out
+  const preview = useMemo(
+    () =>
+      sortMenu(items, categories).filter(
+        item => isAvailable(item) && (previewCategory === ALL_CATEGORIES || item.category === previewCategory)
+      ),
+    [items, categories, previewCategory]
+  );
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div className="flex items-center gap-2">
+          <Button size="icon" variant="ghost" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h2 className="text-3xl font-bold tracking-tight">Menu</h2>
+        </div>
+        <Button disabled={categories.length === 0} onClick={() => setEditing(toDraft(null, categories[0]))}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Menu Item
+        </Button>
+      </div>
+
+      <Tabs defaultValue="edit" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="edit">Edit</TabsTrigger>
+          <TabsTrigger value="preview">
+            <Eye className="mr-2 h-4 w-4" />
+            Guest preview
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="edit" className="space-y-4">
+          {selected.length > 0 && (
+            <Card>
+              <CardContent className="flex flex-wrap items-center gap-2 p-4">
+                <span className="text-sm font-medium">{selected.length} selected</span>
+                <Select value={priceChange} onValueChange={value => setPriceChange(value as PriceChange)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRICE_CHANGE_LABELS) as PriceChange[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{PRICE_CHANGE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  className="w-28"
+                  value={priceValue}
+                  placeholder={priceChange === 'percent' ? '+10' : '1.50'}
+                  onChange={(e) => setPriceValue(e.target.value)}
+                />
+                <Button
+                  disabled={priceValue === '' || Number.isNaN(Number(priceValue)) || priceMutation.isPending}
+                  onClick={() => priceMutation.mutate()}
+                >
+                  <Percent className="mr-2 h-4 w-4" />
+                  Apply
+                </Button>
+                <Button variant="ghost" onClick={() => setSelected([])}>Clear</Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <Reorder.Group
+            axis="y"
+            values={categories}
+            onReorder={setCategories}
+            className="space-y-4"
+          >
+            {categories.map(category => {
+              const categoryItems = itemsIn(category);
+              const allSelected = categoryItems.length > 0 && categoryItems.every(item => selected.includes(item.id));
+              return (
+                <Reorder.Item
+                  key={category}
+                  value={category}
+                  onDragEnd={() => orderMutation.mutate({ categories })}
+                >
+                  <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                      <div className="flex items-center gap-3">
+                        <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" />
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          disabled={categoryItems.length === 0}
+                          checked={allSelected}
+                          onChange={(e) => {
+                            const ids = categoryItems.map(item => item.id);
+                            setSelected(current =>
+                              e.target.checked
+                                ? Array.from(new Set([...current, ...ids]))
+                                : current.filter(id => !ids.includes(id))
+                            );
+                          }}
+                        />
+                        {renaming?.from === category ? (
+                          <div className="flex items-center gap-2" onPointerDown={(e) => e.stopPropagation()}>
+                            <Input
+                              autoFocus
+                              value={renaming.to}
+                              onChange={(e) => setRenaming({ from: category, to: e.target.value })}
+                            />
+                            <Button
+                              size="icon"
+                              disabled={!renaming.to.trim() || categoryMutation.isPending}
+                              onClick={() => categoryMutation.mutate({ action: 'rename', name: category, to: renaming.to.trim() })}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" onClick={() => setRenaming(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div>
+                            <CardTitle>{category}</CardTitle>
+                            <CardDescription>
+                              {categoryItems.length} item{categoryItems.length === 1 ? '' : 's'}
+                            </CardDescription>
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1" onPointerDown={(e) => e.stopPropagation()}>
+                        <Button size="sm" variant="outline" onClick={() => setEditing(toDraft(null, category))}>
+                          <Plus className="mr-2 h-4 w-4" />
+                          Item
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => setRenaming({ from: category, to: category })}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={categoryItems.length > 0}
+                          title={categoryItems.length > 0 ? 'Move or delete its items first' : undefined}
+                          onClick={() => categoryMutation.mutate({ action: 'delete', name: category })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent onPointerDown={(e) => e.stopPropagation()}>
+                      {categoryItems.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No items yet.</p>
+                      ) : (
+                        <Reorder.Group
+                          axis="y"
+                          values={categoryItems}
+                          onReorder={ordered => reorderItems(category, ordered)}
+                          className="space-y-2"
+                        >
+                          {categoryItems.map(item => (
+                            <ItemRow
+                              key={item.id}
+                              item={item}
+                              selected={selected.includes(item.id)}
+                              formatPrice={formatPrice}
+                              onSelect={on =>
+                                setSelected(current =>
+                                  on ? [...current, item.id] : current.filter(id => id !== item.id)
+                                )
+                              }
+                              onEdit={() => setEditing(toDraft(item, category))}
+                              onDelete={() => {
+                                if (window.confirm(`Delete ${item.name} from the menu?`)) deleteMutation.mutate(item);
+                              }}
+                              onDragEnd={saveItemOrder}
+                            />
+                          ))}
+                        </Reorder.Group>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Reorder.Item>
+              );
+            })}
+          </Reorder.Group>
+
+          <div className="flex items-end gap-2 max-w-md">
+            <div className="flex-1">
+              <label className="text-sm font-medium">New category</label>
+              <Input value={newCategory} placeholder="Starters" onChange={(e) => setNewCategory(e.target.value)} />
+            </div>
+            <Button
+              disabled={!newCategory.trim() || categoryMutation.isPending}
+              onClick={() => categoryMutation.mutate({ action: 'create', name: newCategory.trim() })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="preview" className="space-y-4">
+          <Select value={previewCategory} onValueChange={setPreviewCategory}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All Categories</SelectItem>
+              {categories
+                .filter(category => itemsIn(category).some(item => isAvailable(item)))
+                .map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {preview.map(item => (
+              <MenuItemCard
+                key={item.id}
+                item={item}
+                price={formatPrice(item.price)}
+                showRating={!!tenant?.settings.enableReviews}
+              />
+            ))}
+          </div>
+          {preview.length === 0 && (
+            <div className="text-center py-12">
+              <Utensils className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">Guests would see no items</p>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {editing && (
+        <ItemEditor
+          draft={editing}
+          saved={items.find(item => item.id === editing.id)}
+          categories={categories}
+          formatPrice={formatPrice}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+}
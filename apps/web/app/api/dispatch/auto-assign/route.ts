@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { autoAssignDrivers } from '@/server/dispatch';
+
+// Assigns every waiting delivery now, whether or not auto-assign is switched on
+export async function POST() {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const assigned = await autoAssignDrivers(session.user.tenantId);
+    return NextResponse.json({ assigned });
+  } catch (error) {
+    console.error('Auto-assign error:', error);
+    return NextResponse.json({ error: 'Failed to assign drivers' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { assignDriver, assignDriverSchema, DispatchError } from '@/server/dispatch';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = assignDriverSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid assignment', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await assignDriver(session.user.tenantId, params.id, parsed.data.driverId);
+    if (!job) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Assign driver error:', error);
+    return NextResponse.json({ error: 'Failed to assign driver' }, { status: 500 });
+  }
+}
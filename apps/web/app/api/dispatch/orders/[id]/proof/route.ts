@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { getDeliveryPhoto } from '@/server/dispatch';
+
+export const dynamic = 'force-dynamic';
+
+// The drop-off photo a driver took as proof of delivery
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const photo = await getDeliveryPhoto(session.user.tenantId, params.id);
+  const match = photo?.match(/^data:(image\/[a-z]+);base64,(.*)$/);
+  if (!match) {
+    return NextResponse.json({ error: 'Photo not found' }, { status: 404 });
+  }
+  return new NextResponse(Buffer.from(match[2], 'base64'), {
+    headers: { 'Content-Type': match[1], 'Cache-Control': 'private, max-age=3600' },
+  });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { getDispatchBoard, startDispatchMonitor } from '@/server/dispatch';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  startDispatchMonitor();
+
+  try {
+    return NextResponse.json(await getDispatchBoard(session.user.tenantId));
+  } catch (error) {
+    console.error('Dispatch board error:', error);
+    return NextResponse.json({ error: 'Failed to fetch dispatch board' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getStaffSession } from '@/server/auth';
+import { setAutoAssign } from '@/server/dispatch';
+
+const settingsSchema = z.object({ autoAssign: z.boolean() });
+
+export async function PATCH(req: NextRequest) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = settingsSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid settings', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await setAutoAssign(session.user.tenantId, parsed.data.autoAssign);
+    return NextResponse.json(parsed.data);
+  } catch (error) {
+    console.error('Dispatch settings error:', error);
+    return NextResponse.json({ error: 'Failed to update settings' }, { status: 500 });
+  }
+}
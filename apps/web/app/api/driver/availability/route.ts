@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { findDriverByToken, setDriverAvailability } from '@/server/dispatch';
+
+const availabilitySchema = z.object({ available: z.boolean() });
+
+export async function POST(req: NextRequest) {
+  const driver = await findDriverByToken(req.nextUrl.searchParams.get('token'));
+  if (!driver) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = availabilitySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid availability', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await setDriverAvailability(driver, parsed.data.available));
+  } catch (error) {
+    console.error('Driver availability error:', error);
+    return NextResponse.json({ error: 'Failed to update availability' }, { status: 500 });
+  }
+}
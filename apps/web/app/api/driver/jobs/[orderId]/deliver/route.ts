@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmDelivery, deliveryProofSchema, DispatchError, findDriverByToken } from '@/server/dispatch';
+import { OrderError } from '@/server/orders';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const driver = await findDriverByToken(req.nextUrl.searchParams.get('token'));
+  if (!driver) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = deliveryProofSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid proof of delivery', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await confirmDelivery(driver, params.orderId, parsed.data);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof OrderError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...error.details },
+        { status: error.status }
+      );
+    }
+    console.error('Confirm delivery error:', error);
+    return NextResponse.json({ error: 'Failed to confirm delivery' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { advanceDelivery, DispatchError, driverActionSchema, findDriverByToken } from '@/server/dispatch';
+
+// Accept, decline or pick up a job
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const driver = await findDriverByToken(req.nextUrl.searchParams.get('token'));
+  if (!driver) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = driverActionSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid action', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await advanceDelivery(driver, params.orderId, parsed.data.action);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Driver action error:', error);
+    return NextResponse.json({ error: 'Failed to update job' }, { status: 500 });
+  }
+}
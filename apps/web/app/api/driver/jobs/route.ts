@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findDriverByToken, getDriverJobs } from '@/server/dispatch';
+
+export const dynamic = 'force-dynamic';
+
+// Drivers sign in through the personal link the owner shares with them
+export async function GET(req: NextRequest) {
+  const driver = await findDriverByToken(req.nextUrl.searchParams.get('token'));
+  if (!driver) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json(await getDriverJobs(driver));
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { availabilitySchema, setItemAvailability } from '@/server/stock';
+
+export const dynamic = 'force-dynamic';
+
+// 86es a menu item, or puts it back
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { itemId: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = availabilitySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid availability', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const change = await setItemAvailability(session.user.tenantId, params.itemId, parsed.data);
+    if (!change) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+    return NextResponse.json(change);
+  } catch (error) {
+    console.error('Update availability error:', error);
+    return NextResponse.json({ error: 'Failed to update availability' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { availabilitySchema, setOptionAvailability } from '@/server/stock';
+
+export const dynamic = 'force-dynamic';
+
+// 86es one modifier option, or puts it back
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { optionId: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = availabilitySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid availability', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const change = await setOptionAvailability(session.user.tenantId, params.optionId, parsed.data);
+    if (!change) {
+      return NextResponse.json({ error: 'Option not found' }, { status: 404 });
+    }
+    return NextResponse.json(change);
+  } catch (error) {
+    console.error('Update availability error:', error);
+    return NextResponse.json({ error: 'Failed to update availability' }, { status: 500 });
+  }
+}
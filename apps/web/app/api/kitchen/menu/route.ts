@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { listStock } from '@/server/stock';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listStock(session.user.tenantId));
+  } catch (error) {
+    console.error('List stock error:', error);
+    return NextResponse.json({ error: 'Failed to load the menu' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getStaffSession } from '@/server/auth';
+import { toKitchenOrder } from '@/server/kitchen';
+import { fireCourse, OrderError } from '@/server/orders';
+
+const courseSchema = z.enum(['drinks', 'starters', 'mains', 'dessert']);
+
+// Fires a held course
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string; course: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const course = courseSchema.safeParse(params.course);
+  if (!course.success) {
+    return NextResponse.json({ error: 'Unknown course' }, { status: 404 });
+  }
+
+  try {
+    const order = await fireCourse(session.user.tenantId, params.id, course.data);
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    return NextResponse.json(toKitchenOrder(order));
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Fire course error:', error);
+    return NextResponse.json({ error: 'Failed to fire course' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { getOrderHistory } from '@/server/orders';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const history = await getOrderHistory(session.user.tenantId, params.id);
+  if (!history) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+  return NextResponse.json(history);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { toKitchenOrder } from '@/server/kitchen';
+import { adjustItemSchema, OrderError, remakeOrderItem } from '@/server/orders';
+
+// Remakes an item on a linked ticket; responds with the new ticket
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = adjustItemSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'A reason is required', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const remake = await remakeOrderItem(session.user.tenantId, params.id, params.itemId, parsed.data, {
+      type: 'staff',
+      id: session.user.id,
+      name: session.user.name ?? undefined,
+    });
+    if (!remake) {
+      return NextResponse.json({ error: 'Order item not found' }, { status: 404 });
+    }
+    return NextResponse.json(toKitchenOrder(remake), { status: 201 });
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Remake item error:', error);
+    return NextResponse.json({ error: 'Failed to remake item' }, { status: 500 });
+  }
+}
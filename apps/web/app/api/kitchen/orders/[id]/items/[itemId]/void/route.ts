@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { toKitchenOrder } from '@/server/kitchen';
+import { adjustItemSchema, OrderError, voidOrderItem } from '@/server/orders';
+
+// Voids an item with a reason; responds with the updated order
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = adjustItemSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'A reason is required', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const order = await voidOrderItem(session.user.tenantId, params.id, params.itemId, parsed.data, {
+      type: 'staff',
+      id: session.user.id,
+      name: session.user.name ?? undefined,
+    });
+    if (!order) {
+      return NextResponse.json({ error: 'Order item not found' }, { status: 404 });
+    }
+    return NextResponse.json(toKitchenOrder(order));
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Void item error:', error);
+    return NextResponse.json({ error: 'Failed to void item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { PrinterError, printOrder } from '@/server/printers';
+
+// Queues the order's tickets; printing happens in the background
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const jobs = await printOrder(session.user.tenantId, params.id);
+    return NextResponse.json({ jobs }, { status: 202 });
+  } catch (error) {
+    if (error instanceof PrinterError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Print order error:', error);
+    return NextResponse.json({ error: 'Failed to print order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { toKitchenOrder } from '@/server/kitchen';
+import { OrderError, recallOrder } from '@/server/orders';
+
+// Brings a recently completed order back to the pass
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const order = await recallOrder(session.user.tenantId, params.id, {
+      type: 'staff',
+      id: session.user.id,
+      name: session.user.name ?? undefined,
+    });
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    return NextResponse.json(toKitchenOrder(order));
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...error.details },
+        { status: error.status }
+      );
+    }
+    console.error('Recall order error:', error);
+    return NextResponse.json({ error: 'Failed to recall order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getStaffSession } from '@/server/auth';
+import { toKitchenOrder } from '@/server/kitchen';
+import { OrderError, updateOrderItemStatus, updateOrderStatus } from '@/server/orders';
+
+const itemStatusSchema = z.enum(['pending', 'preparing', 'ready', 'served']);
+const orderStatusSchema = z.enum(['new', 'accepted', 'preparing', 'ready', 'completed', 'cancelled']);
+
+// With an `itemId` the status applies to that item, and the order's status
+// follows from its items. `from` is the status the screen saw; a change made
+// elsewhere in the meantime gets a 409 instead of being overwritten.
+const updateOrderSchema = z.union([
+  z.object({
+    itemId: z.string(),
+    status: itemStatusSchema,
+    from: itemStatusSchema.optional(),
+  }),
+  z.object({
+    itemId: z.undefined(),
+    status: orderStatusSchema,
+    from: orderStatusSchema.optional(),
+  }),
+]);
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updateOrderSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid update', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { tenantId } = session.user;
+    const update = parsed.data;
+    const order = update.itemId !== undefined
+      ? await updateOrderItemStatus(tenantId, params.id, update.itemId, update.status, update.from)
+      : await updateOrderStatus(
+          tenantId,
+          params.id,
+          update.status,
+          { type: 'staff', id: session.user.id, name: session.user.name ?? undefined },
+          update.from
+        );
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    return NextResponse.json(toKitchenOrder(order));
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...error.details },
+        { status: error.status }
+      );
+    }
+    console.error('Update order error:', error);
+    return NextResponse.json({ error: 'Failed to update order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { toKitchenOrder } from '@/server/kitchen';
+import { markStationReady, OrderError } from '@/server/orders';
+
+// Bumps a station's share of an order
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string; station: string } }
+) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const order = await markStationReady(session.user.tenantId, params.id, params.station);
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    return NextResponse.json(toKitchenOrder(order));
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Station bump error:', error);
+    return NextResponse.json({ error: 'Failed to update order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getStaffSession } from '@/server/auth';
+import { listKitchenOrders } from '@/server/kitchen';
+
+export const dynamic = 'force-dynamic';
+
+const tabSchema = z.enum(['active', 'ready', 'completed', 'all', 'scheduled']).catch('active');
+
+export async function GET(req: NextRequest) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const tab = tabSchema.parse(req.nextUrl.searchParams.get('status'));
+  try {
+    const orders = await listKitchenOrders(session.user.tenantId, tab);
+    return NextResponse.json(orders);
+  } catch (error) {
+    console.error('List kitchen orders error:', error);
+    return NextResponse.json({ error: 'Failed to fetch orders' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { listStations } from '@/server/stations';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json(await listStations(session.user.tenantId));
+}
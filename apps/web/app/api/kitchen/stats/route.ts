@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { getKitchenStats, KitchenStatsError, kitchenStatsQuerySchema } from '@/server/kitchen-stats';
+
+export const dynamic = 'force-dynamic';
+
+// ?from=2024-05-01&to=2024-05-07&shift=lunch&station=grill, all optional
+export async function GET(req: NextRequest) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = kitchenStatsQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid stats query', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getKitchenStats(session.user.tenantId, parsed.data));
+  } catch (error) {
+    if (error instanceof KitchenStatsError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Kitchen stats error:', error);
+    return NextResponse.json({ error: 'Failed to fetch stats' }, { status: 500 });
+  }
+}
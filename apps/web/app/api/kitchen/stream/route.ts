@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession } from '@/server/auth';
+import { startDispatchMonitor } from '@/server/dispatch';
+import {
+  kitchenChannel,
+  readSequencedSince,
+  subscribe,
+  type SequencedMessage,
+} from '@/server/realtime';
+import { startSlaMonitor } from '@/server/sla';
+import { createEventStream } from '@/server/sse';
+import { startStockMonitor } from '@/server/stock';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  const session = await getStaffSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Escalations only matter while someone is watching the board
+  startSlaMonitor();
+  startStockMonitor();
+  startDispatchMonitor();
+
+  const channel = kitchenChannel(session.user.tenantId);
+  // Sent by EventSource on reconnect: the sequence number of the last event it saw
+  const lastEventId = Number(req.headers.get('last-event-id'));
+  const resuming = Number.isInteger(lastEventId) && lastEventId > 0;
+
+  return createEventStream(req, async send => {
+    let lastSent = 0;
+    const deliver = (message: SequencedMessage) => {
+      if (message.seq <= lastSent) return;
+      lastSent = message.seq;
+      send('order', message.payload, message.seq);
+    };
+
+    // Subscribe before reading the backlog and hold live messages until it
+    // has been sent, so nothing published in between is lost or reordered.
+    let pending: SequencedMessage[] | null = [];
+    const unsubscribe = subscribe(channel, message => {
+      if (pending) pending.push(message as SequencedMessage);
+      else deliver(message as SequencedMessage);
+    });
+
+    const { seq, missed } = await readSequencedSince(channel, resuming ? lastEventId : 0);
+    if (resuming && missed) {
+      lastSent = lastEventId;
+      missed.forEach(deliver);
+    } else {
+      send('resync', { seq }, seq);
+      lastSent = seq;
+    }
+
+    pending.forEach(deliver);
+    pending = null;
+    return unsubscribe;
+  });
+}
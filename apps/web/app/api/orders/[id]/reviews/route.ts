@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewableItems, ReviewError, submitReview, submitReviewSchema } from '@/server/reviews';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const items = await getReviewableItems(params.id, req.nextUrl.searchParams.get('token'));
+    return NextResponse.json(items);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Get reviewable items error:', error);
+    return NextResponse.json({ error: 'Failed to load reviews' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const parsed = submitReviewSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid review', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const review = await submitReview(params.id, req.nextUrl.searchParams.get('token'), parsed.data);
+    return NextResponse.json(review, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Submit review error:', error);
+    return NextResponse.json({ error: 'Failed to submit review' }, { status: 500 });
+  }
+}
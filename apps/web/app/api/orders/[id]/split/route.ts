@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@hospity/db';
+import { billSplitQuerySchema, splitBill } from '@/server/bill-split';
+import { findOrderByTrackingToken } from '@/server/tracking';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { searchParams } = req.nextUrl;
+  const order = await findOrderByTrackingToken(params.id, searchParams.get('token'));
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+
+  const parsed = billSplitQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid split', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: order.tenantId },
+    select: { locale: true },
+  });
+  return NextResponse.json(splitBill(order, tenant?.locale || 'en-US', parsed.data));
+}
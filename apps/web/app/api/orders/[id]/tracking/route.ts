@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrackedOrder } from '@/server/tracking';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const order = await getTrackedOrder(params.id, req.nextUrl.searchParams.get('token'));
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+  return NextResponse.json(order);
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findOrderByTrackingToken, getTrackedOrder } from '@/server/tracking';
+import { orderChannel, subscribe } from '@/server/realtime';
+import { createEventStream } from '@/server/sse';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const token = req.nextUrl.searchParams.get('token');
+  if (!(await findOrderByTrackingToken(params.id, token))) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+
+  return createEventStream(req, async send => {
+    // Subscribe before reading the current state and hold updates until it
+    // has been sent, so a reconnect never misses or reorders an update.
+    let pending: unknown[] | null = [];
+    const unsubscribe = subscribe(orderChannel(params.id), update => {
+      if (pending) pending.push(update);
+      else send('order', update);
+    });
+
+    const order = await getTrackedOrder(params.id, token);
+    if (order) send('order', order);
+    pending.forEach(update => send('order', update));
+    pending = null;
+    return unsubscribe;
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { deleteDriver, DispatchError, updateDriver, updateDriverSchema } from '@/server/dispatch';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updateDriverSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid driver', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const driver = await updateDriver(session.user.tenantId, params.id, parsed.data);
+    if (!driver) {
+      return NextResponse.json({ error: 'Driver not found' }, { status: 404 });
+    }
+    return NextResponse.json(driver);
+  } catch (error) {
+    console.error('Update driver error:', error);
+    return NextResponse.json({ error: 'Failed to update driver' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    if (!(await deleteDriver(session.user.tenantId, params.id))) {
+      return NextResponse.json({ error: 'Driver not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Delete driver error:', error);
+    return NextResponse.json({ error: 'Failed to delete driver' }, { status: 500 });
+  }
+}
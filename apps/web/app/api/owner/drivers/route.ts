@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { createDriver, createDriverSchema, listDrivers } from '@/server/dispatch';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json(await listDrivers(session.user.tenantId));
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = createDriverSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid driver', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const driver = await createDriver(session.user.tenantId, parsed.data);
+    return NextResponse.json(driver, { status: 201 });
+  } catch (error) {
+    console.error('Create driver error:', error);
+    return NextResponse.json({ error: 'Failed to create driver' }, { status: 500 });
+  }
+}
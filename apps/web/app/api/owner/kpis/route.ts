@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { analyticsQuerySchema, getKpis } from '@/server/owner-analytics';
+
+export const dynamic = 'force-dynamic';
+
+// ?range=7d|30d|90d, compared with the period before
+export async function GET(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = analyticsQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid range', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getKpis(session.user.tenantId, parsed.data));
+  } catch (error) {
+    console.error('Owner KPIs error:', error);
+    return NextResponse.json({ error: 'Failed to fetch KPIs' }, { status: 500 });
+  }
+}
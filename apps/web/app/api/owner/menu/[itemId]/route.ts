@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { deleteMenuItem, updateMenuItem, updateMenuItemSchema } from '@/server/menu';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { itemId: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updateMenuItemSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid menu item', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const item = await updateMenuItem(session.user.tenantId, params.itemId, parsed.data);
+    if (!item) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error('Update menu item error:', error);
+    return NextResponse.json({ error: 'Failed to update menu item' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { itemId: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await deleteMenuItem(session.user.tenantId, params.itemId))) {
+    return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { categorySchema, deleteCategory, MenuError, renameCategory } from '@/server/menu';
+
+// Renames the category; its items and station routing follow
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = categorySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid category', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const categories = await renameCategory(session.user.tenantId, params.name, parsed.data.name);
+    if (!categories) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+    return NextResponse.json(categories);
+  } catch (error) {
+    console.error('Rename category error:', error);
+    return NextResponse.json({ error: 'Failed to rename category' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const categories = await deleteCategory(session.user.tenantId, params.name);
+    if (!categories) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+    return NextResponse.json(categories);
+  } catch (error) {
+    if (error instanceof MenuError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Delete category error:', error);
+    return NextResponse.json({ error: 'Failed to delete category' }, { status: 500 });
+  }
+}
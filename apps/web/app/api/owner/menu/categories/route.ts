@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { categorySchema, createCategory, MenuError } from '@/server/menu';
+
+export async function POST(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = categorySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid category', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const categories = await createCategory(session.user.tenantId, parsed.data.name);
+    return NextResponse.json(categories, { status: 201 });
+  } catch (error) {
+    if (error instanceof MenuError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Create category error:', error);
+    return NextResponse.json({ error: 'Failed to create category' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { menuOrderSchema, reorderMenu } from '@/server/menu';
+
+export async function PUT(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = menuOrderSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid menu order', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await reorderMenu(session.user.tenantId, parsed.data));
+  } catch (error) {
+    console.error('Reorder menu error:', error);
+    return NextResponse.json({ error: 'Failed to reorder the menu' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { bulkPriceSchema, bulkUpdatePrices, MenuError } from '@/server/menu';
+
+// Changes the prices of several items at once
+export async function POST(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = bulkPriceSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid price change', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await bulkUpdatePrices(session.user.tenantId, parsed.data));
+  } catch (error) {
+    if (error instanceof MenuError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Bulk price error:', error);
+    return NextResponse.json({ error: 'Failed to update prices' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { createMenuItem, getOwnerMenu, menuItemSchema } from '@/server/menu';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getOwnerMenu(session.user.tenantId));
+  } catch (error) {
+    console.error('Owner menu error:', error);
+    return NextResponse.json({ error: 'Failed to load the menu' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = menuItemSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid menu item', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const item = await createMenuItem(session.user.tenantId, parsed.data);
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    console.error('Create menu item error:', error);
+    return NextResponse.json({ error: 'Failed to create menu item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { listOwnerOrders, ownerOrdersQuerySchema } from '@/server/owner-analytics';
+
+export const dynamic = 'force-dynamic';
+
+// ?range=30d&status=ready&orderType=delivery&search=jane&page=2&pageSize=20, all optional
+export async function GET(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = ownerOrdersQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid orders query', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await listOwnerOrders(session.user.tenantId, parsed.data));
+  } catch (error) {
+    console.error('Owner orders error:', error);
+    return NextResponse.json({ error: 'Failed to fetch orders' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { deletePrinter, PrinterError, updatePrinter, updatePrinterSchema } from '@/server/printers';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updatePrinterSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid printer', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const printer = await updatePrinter(session.user.tenantId, params.id, parsed.data);
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 });
+    }
+    return NextResponse.json(printer);
+  } catch (error) {
+    if (error instanceof PrinterError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Update printer error:', error);
+    return NextResponse.json({ error: 'Failed to update printer' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await deletePrinter(session.user.tenantId, params.id))) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { PrinterError, printTestTicket } from '@/server/printers';
+
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const job = await printTestTicket(session.user.tenantId, params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 });
+    }
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    if (error instanceof PrinterError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Test print error:', error);
+    return NextResponse.json({ error: 'Failed to print test page' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { createPrinter, createPrinterSchema, listPrinters, PrinterError } from '@/server/printers';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json(await listPrinters(session.user.tenantId));
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = createPrinterSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid printer', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const printer = await createPrinter(session.user.tenantId, parsed.data);
+    return NextResponse.json(printer, { status: 201 });
+  } catch (error) {
+    if (error instanceof PrinterError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Create printer error:', error);
+    return NextResponse.json({ error: 'Failed to create printer' }, { status: 500 });
+  }
+}
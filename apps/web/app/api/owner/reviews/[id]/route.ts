@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { moderateReview, moderateReviewSchema } from '@/server/reviews';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = moderateReviewSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid update', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const review = await moderateReview(session.user.tenantId, params.id, parsed.data);
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+    return NextResponse.json(review);
+  } catch (error) {
+    console.error('Moderate review error:', error);
+    return NextResponse.json({ error: 'Failed to update review' }, { status: 500 });
+  }
+}
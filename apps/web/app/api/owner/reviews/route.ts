@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getOwnerSession } from '@/server/auth';
+import { listReviews } from '@/server/reviews';
+
+export const dynamic = 'force-dynamic';
+
+const statusSchema = z.enum(['pending', 'published', 'hidden']).optional();
+
+export async function GET(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const status = statusSchema.safeParse(req.nextUrl.searchParams.get('status') || undefined);
+  if (!status.success) {
+    return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+  }
+
+  const reviews = await listReviews(session.user.tenantId, status.data);
+  return NextResponse.json(reviews);
+}
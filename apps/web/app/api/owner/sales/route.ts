@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { analyticsQuerySchema, getSales } from '@/server/owner-analytics';
+
+export const dynamic = 'force-dynamic';
+
+// ?range=7d|30d|90d, one entry per day
+export async function GET(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = analyticsQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid range', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getSales(session.user.tenantId, parsed.data));
+  } catch (error) {
+    console.error('Owner sales error:', error);
+    return NextResponse.json({ error: 'Failed to fetch sales' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { deleteStation, updateStation, updateStationSchema } from '@/server/stations';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updateStationSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid station', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const station = await updateStation(session.user.tenantId, params.id, parsed.data);
+  if (!station) {
+    return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+  }
+  return NextResponse.json(station);
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await deleteStation(session.user.tenantId, params.id))) {
+    return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
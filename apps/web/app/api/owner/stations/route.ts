@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { createStation, createStationSchema, listStations, StationError } from '@/server/stations';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json(await listStations(session.user.tenantId));
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = createStationSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid station', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const station = await createStation(session.user.tenantId, parsed.data);
+    return NextResponse.json(station, { status: 201 });
+  } catch (error) {
+    if (error instanceof StationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Create station error:', error);
+    return NextResponse.json({ error: 'Failed to create station' }, { status: 500 });
+  }
+}
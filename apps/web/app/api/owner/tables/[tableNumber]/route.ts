@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { tableLinkPath, tableNumberSchema } from '@/server/table-sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { tableNumber: string } }
+) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = tableNumberSchema.safeParse(params.tableNumber);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid table number', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    tableNumber: parsed.data,
+    path: tableLinkPath(session.user.tenantId, parsed.data),
+  });
+}
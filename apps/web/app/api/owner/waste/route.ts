@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerSession } from '@/server/auth';
+import { getWasteReport, wasteQuerySchema } from '@/server/waste';
+
+export const dynamic = 'force-dynamic';
+
+// ?days=30
+export async function GET(req: NextRequest) {
+  const session = await getOwnerSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = wasteQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid waste query', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getWasteReport(session.user.tenantId, parsed.data));
+  } catch (error) {
+    console.error('Waste report error:', error);
+    return NextResponse.json({ error: 'Failed to fetch waste report' }, { status: 500 });
+  }
+}
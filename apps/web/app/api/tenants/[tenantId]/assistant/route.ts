@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import { askMenuAssistant, getMenuAssistantProvider, type AssistantMenuItem } from '@hospity/ai';
+import type { TenantSettings } from '@/types/menu';
+
+const assistantRequestSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string().min(1).max(1000),
+      })
+    )
+    .min(1)
+    .max(50),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  const parsed = assistantRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid message', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const tenant = await prisma.tenant.findUnique({ where: { id: params.tenantId } });
+  if (!tenant || !(tenant.settings as TenantSettings).enableAIChat) {
+    return NextResponse.json({ error: 'AI assistant is not available' }, { status: 404 });
+  }
+
+  try {
+    const menu = (await prisma.menuItem.findMany({
+      where: { tenantId: tenant.id },
+    })) as AssistantMenuItem[];
+
+    const reply = await askMenuAssistant(getMenuAssistantProvider(), {
+      restaurantName: tenant.name,
+      currency: tenant.currency,
+      locale: tenant.locale,
+      menu,
+      messages: parsed.data.messages,
+    });
+    return NextResponse.json(reply);
+  } catch (error) {
+    console.error('AI assistant error:', error);
+    return NextResponse.json({ error: 'The assistant is unavailable right now' }, { status: 502 });
+  }
+}
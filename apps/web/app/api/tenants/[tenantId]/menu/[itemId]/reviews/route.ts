@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedReviews } from '@/server/reviews';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { tenantId: string; itemId: string } }
+) {
+  const reviews = await getPublishedReviews(params.tenantId, params.itemId);
+  if (!reviews) {
+    return NextResponse.json({ error: 'Reviews are not enabled' }, { status: 404 });
+  }
+  return NextResponse.json(reviews);
+}
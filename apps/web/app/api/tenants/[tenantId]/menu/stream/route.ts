@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { menuChannel, subscribe } from '@/server/realtime';
+import { createEventStream } from '@/server/sse';
+import { startStockMonitor } from '@/server/stock';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  // Scheduled restocks only need pushing while a menu is open
+  startStockMonitor();
+
+  return createEventStream(req, send =>
+    subscribe(menuChannel(params.tenantId), change => send('availability', change))
+  );
+}
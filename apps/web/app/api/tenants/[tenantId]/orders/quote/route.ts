@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PricingError, pricingRequestSchema, quoteOrder } from '@/server/pricing';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  const parsed = pricingRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid cart', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await quoteOrder(params.tenantId, parsed.data);
+    return NextResponse.json(quote);
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Price quote error:', error);
+    return NextResponse.json({ error: 'Failed to price order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PricingError } from '@/server/pricing';
+import { OrderError, createOrder, createOrderSchema } from '@/server/orders';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  const parsed = createOrderSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid order', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const order = await createOrder(params.tenantId, parsed.data);
+    return NextResponse.json(order, { status: 201 });
+  } catch (error) {
+    if (error instanceof PricingError || error instanceof OrderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Create order error:', error);
+    return NextResponse.json({ error: 'Failed to create order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPickupSlots } from '@/server/scheduling';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  try {
+    const slots = await getPickupSlots(params.tenantId);
+    return NextResponse.json(slots);
+  } catch (error) {
+    console.error('Get slots error:', error);
+    return NextResponse.json({ error: 'Failed to load time slots' }, { status: 500 });
+  }
+}
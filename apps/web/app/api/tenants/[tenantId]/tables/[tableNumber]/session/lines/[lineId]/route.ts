@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  TableSessionError,
+  updateTableLine,
+  updateTableLineSchema,
+  verifyTableKey,
+} from '@/server/table-sessions';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { tenantId: string; tableNumber: string; lineId: string } }
+) {
+  if (!verifyTableKey(params.tenantId, params.tableNumber, req.nextUrl.searchParams.get('key'))) {
+    return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+  }
+
+  const parsed = updateTableLineSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid quantity', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const session = await updateTableLine(params.tenantId, params.tableNumber, params.lineId, parsed.data);
+    if (!session) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+    return NextResponse.json(session);
+  } catch (error) {
+    if (error instanceof TableSessionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Update table item error:', error);
+    return NextResponse.json({ error: 'Failed to update item' }, { status: 500 });
+  }
+}
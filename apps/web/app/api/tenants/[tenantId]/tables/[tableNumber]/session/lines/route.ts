@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PricingError } from '@/server/pricing';
+import { addTableLine, addTableLineSchema, verifyTableKey } from '@/server/table-sessions';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { tenantId: string; tableNumber: string } }
+) {
+  if (!verifyTableKey(params.tenantId, params.tableNumber, req.nextUrl.searchParams.get('key'))) {
+    return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+  }
+
+  const parsed = addTableLineSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid item', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const session = await addTableLine(params.tenantId, params.tableNumber, parsed.data);
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Add table item error:', error);
+    return NextResponse.json({ error: 'Failed to add item' }, { status: 500 });
+  }
+}
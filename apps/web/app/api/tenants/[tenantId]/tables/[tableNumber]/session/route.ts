@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestTableSession, verifyTableKey } from '@/server/table-sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { tenantId: string; tableNumber: string } }
+) {
+  if (!verifyTableKey(params.tenantId, params.tableNumber, req.nextUrl.searchParams.get('key'))) {
+    return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await getLatestTableSession(params.tenantId, params.tableNumber);
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Table session error:', error);
+    return NextResponse.json({ error: 'Failed to load table' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestTableSession, tableChannel, verifyTableKey } from '@/server/table-sessions';
+import { subscribe } from '@/server/realtime';
+import { createEventStream } from '@/server/sse';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { tenantId: string; tableNumber: string } }
+) {
+  const { tenantId, tableNumber } = params;
+  if (!verifyTableKey(tenantId, tableNumber, req.nextUrl.searchParams.get('key'))) {
+    return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+  }
+
+  return createEventStream(req, async send => {
+    const unsubscribe = subscribe(tableChannel(tenantId, tableNumber), session => send('session', session));
+    send('session', await getLatestTableSession(tenantId, tableNumber));
+    return unsubscribe;
+  });
+}
@@ -0,0 +1,59 @@
+// Keeps the kitchen screen loadable without a connection. Kitchen pages are
+// fetched network-first and cached for offline reloads; build assets are
+// immutable and served from the cache. Other pages are never cached, as they
+// can hold a guest's or owner's data. API calls are left alone: the kitchen
+// keeps its own data in IndexedDB.
+const CACHE = 'hospity-shell-v2';
+
+const isKitchenPage = pathname => pathname === '/kitchen' || pathname.startsWith('/kitchen/');
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(
+        cached =>
+          cached ||
+          fetch(request).then(response => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE).then(cache => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+    return;
+  }
+
+  if (request.mode === 'navigate' && isKitchenPage(url.pathname)) {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE).then(cache => cache.put(request, copy));
+          }
+          return response;
+        })
+        // The station filter is in the query string; any cached kitchen page will do
+        .catch(() => caches.match(request, { ignoreSearch: true }).then(cached => cached || Response.error()))
+    );
+  }
+});
@@ -0,0 +1,98 @@
+import Image from 'next/image';
+import { AlertTriangle, Clock, Plus, ShieldAlert, Star } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import type { MenuItem } from '@/types/menu';
+
+interface MenuItemCardProps {
+  item: MenuItem;
+  price: string;
+  showRating: boolean;
+  // What in the item clashes with the guest's allergies or diet
+  conflicts?: string[];
+  onAdd?: () => void;
+}
+
+/** An item as guests see it on the menu; the owner's menu preview renders the same card. */
+export function MenuItemCard({ item, price, showRating, conflicts = [], onAdd }: MenuItemCardProps) {
+  return (
+    <Card className="h-full cursor-pointer hover:shadow-lg transition-shadow">
+      <div className="relative">
+        {item.images.length > 0 && (
+          <div className="relative h-48 w-full">
+            <Image
+              src={item.images[0]}
+              alt={item.name}
+              fill
+              className="object-cover rounded-t-lg"
+            />
+          </div>
+        )}
+
+        {item.spiceLevel && item.spiceLevel > 0 && (
+          <Badge className="absolute top-2 right-2 bg-red-500">
+            {'🌶️'.repeat(item.spiceLevel)}
+          </Badge>
+        )}
+      </div>
+
+      <CardContent className="p-4">
+        <div className="flex justify-between items-start mb-2">
+          <h3 className="font-semibold text-lg">{item.name}</h3>
+          <span className="font-bold text-primary">{price}</span>
+        </div>
+
+        <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
+          {item.description}
+        </p>
+
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            <span>{item.preparationTime} min</span>
+
+            {showRating && item.rating > 0 && (
+              <>
+                <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                <span>{item.rating.toFixed(1)} ({item.reviewCount})</span>
+              </>
+            )}
+          </div>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="flex items-center space-x-1 mb-3 p-2 rounded-md bg-red-50 border border-red-200">
+            <ShieldAlert className="h-4 w-4 text-red-600" />
+            <span className="text-xs font-medium text-red-700">
+              Not suitable: {conflicts.join(', ')}
+            </span>
+          </div>
+        )}
+
+        {item.allergens.length > 0 && (
+          <div className="flex items-center space-x-1 mb-3">
+            <AlertTriangle className="h-4 w-4 text-orange-500" />
+            <span className="text-xs text-muted-foreground">
+              Contains: {item.allergens.join(', ')}
+            </span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-1 mb-3">
+          {item.dietary.map(diet => (
+            <Badge key={diet} variant="secondary" className="text-xs">
+              {diet}
+            </Badge>
+          ))}
+        </div>
+
+        <Button className="w-full" onClick={onAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add to Cart
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { fromMajor } from '@hospity/utils';
+import type { MenuItem, MenuModifier } from '@/types/menu';
+import { getCartKey, useCartStore, type CartItem } from './cart-store';
+
+const sauce: MenuModifier = {
+  id: 'sauce',
+  name: 'Sauce',
+  type: 'single',
+  required: false,
+  options: [
+    { id: 'bbq', name: 'BBQ', price: 0.5 },
+    { id: 'ranch', name: 'Ranch', price: 0.5 },
+  ],
+};
+
+const burger: MenuItem = {
+  id: 'burger',
+  name: 'Burger',
+  description: '',
+  price: 10,
+  category: 'Mains',
+  images: [],
+  allergens: [],
+  dietary: [],
+  preparationTime: 10,
+  available: true,
+  rating: 0,
+  reviewCount: 0,
+  tags: [],
+  modifiers: [sauce],
+};
+
+const cartKey = getCartKey('tenant-1', '4');
+
+const line = (modifiers: CartItem['modifiers'] = {}, price = 10): CartItem => ({
+  menuItemId: 'burger',
+  quantity: 1,
+  modifiers,
+  unitPrice: fromMajor(price, 'USD'),
+});
+
+const reconcile = (menu: MenuItem[]) => useCartStore.getState().reconcile(cartKey, menu, 'USD');
+const lines = () => useCartStore.getState().carts[cartKey];
+
+describe('reconcile', () => {
+  beforeEach(() => {
+    useCartStore.setState({ carts: {} });
+  });
+
+  it('keeps lines that can still be ordered at the same price', () => {
+    useCartStore.getState().addItem(cartKey, line({ sauce: ['bbq'] }, 10.5));
+    expect(reconcile([burger])).toEqual([]);
+    expect(lines()).toHaveLength(1);
+  });
+
+  it('drops lines whose item sold out', () => {
+    useCartStore.getState().addItem(cartKey, line());
+    expect(reconcile([{ ...burger, available: false }])).toEqual([line()]);
+    expect(lines()).toEqual([]);
+  });
+
+  it('keeps items that are back once their restock time has passed', () => {
+    useCartStore.getState().addItem(cartKey, line());
+    const restocked = { ...burger, available: false, restockAt: new Date(Date.now() - 60_000).toISOString() };
+    expect(reconcile([restocked])).toEqual([]);
+    expect(lines()).toHaveLength(1);
+  });
+
+  it('keeps lines with a sold-out option so the guest can pick another', () => {
+    useCartStore.getState().addItem(cartKey, line({ sauce: ['bbq'] }, 10.5));
+    const menu = [
+      {
+        ...burger,
+        modifiers: [{ ...sauce, options: sauce.options.map(o => (o.id === 'bbq' ? { ...o, available: false } : o)) }],
+      },
+    ];
+    expect(reconcile(menu)).toEqual([]);
+    expect(lines()).toHaveLength(1);
+  });
+
+  it('drops lines that left the menu or changed price', () => {
+    useCartStore.getState().addItem(cartKey, line());
+    expect(reconcile([{ ...burger, price: 11 }])).toEqual([line()]);
+    useCartStore.getState().addItem(cartKey, line());
+    expect(reconcile([])).toEqual([line()]);
+    expect(lines()).toEqual([]);
+  });
+});
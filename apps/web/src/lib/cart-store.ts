@@ -0,0 +1,144 @@
+import { useCallback, useMemo } from 'react';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { add, fromMajor, moneyEquals, type Money } from '@hospity/utils';
+import type { MenuItem } from '@/types/menu';
+import { isAvailable } from './menu-availability';
+
+export interface CartItem {
+  menuItemId: string;
+  quantity: number;
+  modifiers: { [modifierId: string]: string[] };
+  specialInstructions?: string;
+  unitPrice: Money;
+}
+
+interface CartState {
+  carts: { [cartKey: string]: CartItem[] };
+  addItem: (cartKey: string, item: CartItem) => void;
+  updateQuantity: (cartKey: string, index: number, quantity: number) => void;
+  clear: (cartKey: string) => void;
+  reconcile: (cartKey: string, menu: MenuItem[], currency: string) => CartItem[];
+}
+
+// Carts are scoped per restaurant and per table so a QR rescan at the same
+// table restores the guest's order, while another table starts fresh.
+export const getCartKey = (tenantId: string, tableNumber?: string | null) =>
+  `${tenantId}:${tableNumber || 'no-table'}`;
+
+const normalizeModifiers = (modifiers: CartItem['modifiers']) =>
+  Object.keys(modifiers)
+    .filter(modifierId => modifiers[modifierId].length > 0)
+    .sort()
+    .map(modifierId => `${modifierId}=${[...modifiers[modifierId]].sort().join(',')}`)
+    .join(';');
+
+const isSameLine = (a: CartItem, b: CartItem) =>
+  a.menuItemId === b.menuItemId &&
+  normalizeModifiers(a.modifiers) === normalizeModifiers(b.modifiers) &&
+  (a.specialInstructions?.trim() || '') === (b.specialInstructions?.trim() || '');
+
+export function getUnitPrice(menuItem: MenuItem, modifiers: CartItem['modifiers'], currency: string): Money {
+  return Object.entries(modifiers).reduce((total, [modifierId, optionIds]) => {
+    const modifier = menuItem.modifiers.find(m => m.id === modifierId);
+    if (!modifier) return total;
+
+    return optionIds.reduce((modTotal, optionId) => {
+      const option = modifier.options.find(o => o.id === optionId);
+      return option ? add(modTotal, fromMajor(option.price, currency)) : modTotal;
+    }, total);
+  }, fromMajor(menuItem.price, currency));
+}
+
+export const useCartStore = create<CartState>()(
+  persist(
+    (set, get) => ({
+      carts: {},
+
+      addItem: (cartKey, item) =>
+        set(state => {
+          const lines = state.carts[cartKey] || [];
+          const existing = lines.findIndex(line => isSameLine(line, item));
+          const next = existing === -1
+            ? [...lines, item]
+            : lines.map((line, i) =>
+                i === existing ? { ...line, quantity: line.quantity + item.quantity } : line
+              );
+          return { carts: { ...state.carts, [cartKey]: next } };
+        }),
+
+      updateQuantity: (cartKey, index, quantity) =>
+        set(state => {
+          const lines = state.carts[cartKey] || [];
+          const next = quantity <= 0
+            ? lines.filter((_, i) => i !== index)
+            : lines.map((line, i) => (i === index ? { ...line, quantity } : line));
+          return { carts: { ...state.carts, [cartKey]: next } };
+        }),
+
+      clear: cartKey =>
+        set(state => {
+          const { [cartKey]: _removed, ...carts } = state.carts;
+          return { carts };
+        }),
+
+      // Drops lines whose item is gone, sold out or has changed price since
+      // it was added, and returns the dropped lines so the UI can tell the
+      // guest. Lines with a sold-out option stay, flagged, so the guest can
+      // pick another.
+      reconcile: (cartKey, menu, currency) => {
+        const lines = get().carts[cartKey] || [];
+        const removed: CartItem[] = [];
+        const kept = lines.filter(line => {
+          const menuItem = menu.find(m => m.id === line.menuItemId);
+          const valid =
+            !!menuItem &&
+            isAvailable(menuItem) &&
+            moneyEquals(getUnitPrice(menuItem, line.modifiers, currency), line.unitPrice);
+          if (!valid) removed.push(line);
+          return valid;
+        });
+
+        if (removed.length > 0) {
+          set(state => ({ carts: { ...state.carts, [cartKey]: kept } }));
+        }
+        return removed;
+      },
+    }),
+    {
+      name: 'hospity-cart',
+      version: 1,
+      storage: createJSONStorage(() => localStorage),
+      partialize: state => ({ carts: state.carts }),
+      // v0 carts stored decimal prices; they cannot be reconciled reliably
+      migrate: () => ({ carts: {} }),
+    }
+  )
+);
+
+/**
+ * Binds the cart store to one tenant/table so components don't have to pass
+ * the cart key around.
+ */
+export function useCart(tenantId: string, tableNumber?: string | null) {
+  const cartKey = getCartKey(tenantId, tableNumber);
+  const items = useCartStore(state => state.carts[cartKey]);
+  const addItem = useCartStore(state => state.addItem);
+  const updateQuantity = useCartStore(state => state.updateQuantity);
+  const clear = useCartStore(state => state.clear);
+  const reconcile = useCartStore(state => state.reconcile);
+
+  return {
+    items: useMemo(() => items || [], [items]),
+    addItem: useCallback((item: CartItem) => addItem(cartKey, item), [addItem, cartKey]),
+    updateQuantity: useCallback(
+      (index: number, quantity: number) => updateQuantity(cartKey, index, quantity),
+      [updateQuantity, cartKey]
+    ),
+    clear: useCallback(() => clear(cartKey), [clear, cartKey]),
+    reconcile: useCallback(
+      (menu: MenuItem[], currency: string) => reconcile(cartKey, menu, currency),
+      [reconcile, cartKey]
+    ),
+  };
+}
@@ -0,0 +1,38 @@
+import type { Course } from '@/types/menu';
+
+export const COURSE_ORDER: Course[] = ['drinks', 'starters', 'mains', 'dessert'];
+
+export const COURSE_LABELS: Record<Course, string> = {
+  drinks: 'Drinks',
+  starters: 'Starters',
+  mains: 'Mains',
+  dessert: 'Dessert',
+};
+
+export const DEFAULT_COURSE: Course = 'mains';
+
+interface CourseItem {
+  course?: Course | null;
+  held?: boolean | null;
+}
+
+export const courseOf = (item: CourseItem): Course => item.course ?? DEFAULT_COURSE;
+
+/**
+ * The courses of a dine-in order that go to the kitchen straight away:
+ * drinks and the first food course. The rest wait to be fired.
+ */
+export function firstCourses(courses: Course[]): Course[] {
+  const food = COURSE_ORDER.filter(course => course !== 'drinks' && courses.includes(course));
+  return ['drinks', ...food.slice(0, 1)];
+}
+
+/** Items grouped by course, in the order courses are served. */
+export function groupByCourse<T extends CourseItem>(items: T[]): { course: Course; items: T[]; held: boolean }[] {
+  return COURSE_ORDER.map(course => {
+    const courseItems = items.filter(item => courseOf(item) === course);
+    return { course, items: courseItems, held: courseItems.some(item => item.held) };
+  }).filter(group => group.items.length > 0);
+}
+
+export const hasHeldCourses = (order: { items: CourseItem[] }) => order.items.some(item => item.held);
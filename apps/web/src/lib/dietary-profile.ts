@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { MenuItem, ModifierOption } from '@/types/menu';
+
+export const COMMON_ALLERGENS = [
+  'peanuts',
+  'tree nuts',
+  'milk',
+  'eggs',
+  'fish',
+  'shellfish',
+  'soy',
+  'wheat',
+  'gluten',
+  'sesame',
+];
+
+export const DIETARY_REQUIREMENTS = ['vegetarian', 'vegan', 'halal', 'kosher', 'gluten-free', 'dairy-free'];
+
+export const dietaryProfileSchema = z.object({
+  avoidAllergens: z.array(z.string().max(50)).max(30),
+  dietary: z.array(z.string().max(50)).max(10),
+});
+
+export type DietaryProfile = z.infer<typeof dietaryProfileSchema>;
+
+export const isEmptyProfile = (profile: DietaryProfile) =>
+  profile.avoidAllergens.length === 0 && profile.dietary.length === 0;
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+const includesNormalized = (values: string[] | undefined, value: string) =>
+  (values || []).some(v => normalize(v) === normalize(value));
+
+/**
+ * Lists why an option does not fit the profile. Options without their own
+ * dietary tags, or with an empty list, are treated as neutral and inherit
+ * the item's suitability.
+ */
+export function getOptionConflicts(option: ModifierOption, profile: DietaryProfile): string[] {
+  const conflicts = profile.avoidAllergens
+    .filter(allergen => includesNormalized(option.allergens, allergen))
+    .map(allergen => `contains ${allergen}`);
+
+  if (option.dietary && option.dietary.length > 0) {
+    profile.dietary
+      .filter(need => !includesNormalized(option.dietary, need))
+      .forEach(need => conflicts.push(`not ${need}`));
+  }
+  return conflicts;
+}
+
+/**
+ * Lists why an item, with the chosen options, does not fit the profile.
+ * An empty list means the item is safe to order.
+ */
+export function getItemConflicts(
+  item: MenuItem,
+  profile: DietaryProfile,
+  selection: { [modifierId: string]: string[] } = {}
+): string[] {
+  const conflicts = profile.avoidAllergens
+    .filter(allergen => includesNormalized(item.allergens, allergen))
+    .map(allergen => `contains ${allergen}`);
+
+  profile.dietary
+    .filter(need => !includesNormalized(item.dietary, need))
+    .forEach(need => conflicts.push(`not ${need}`));
+
+  for (const modifier of item.modifiers) {
+    for (const optionId of selection[modifier.id] || []) {
+      const option = modifier.options.find(o => o.id === optionId);
+      if (!option) continue;
+      getOptionConflicts(option, profile).forEach(conflict =>
+        conflicts.push(`${option.name} ${conflict}`)
+      );
+    }
+  }
+
+  return Array.from(new Set(conflicts));
+}
+
+/**
+ * Builds the ticket warnings the kitchen sees: the guest's declared profile,
+ * then any ordered line that conflicts with it.
+ */
+export function buildAllergyWarnings(
+  profile: DietaryProfile | undefined,
+  lines: Array<{ menuItem: MenuItem; modifiers: { [modifierId: string]: string[] } }>
+): string[] {
+  if (!profile || isEmptyProfile(profile)) return [];
+
+  const warnings: string[] = [];
+  if (profile.avoidAllergens.length > 0) {
+    warnings.push(`Guest allergies: ${profile.avoidAllergens.join(', ')}`);
+  }
+  if (profile.dietary.length > 0) {
+    warnings.push(`Guest diet: ${profile.dietary.join(', ')}`);
+  }
+
+  for (const { menuItem, modifiers } of lines) {
+    const conflicts = getItemConflicts(menuItem, profile, modifiers);
+    if (conflicts.length > 0) {
+      warnings.push(`${menuItem.name}: ${conflicts.join(', ')}`);
+    }
+  }
+  return warnings;
+}
+
+interface DietaryProfileState extends DietaryProfile {
+  hideUnsafe: boolean;
+  toggleAllergen: (allergen: string) => void;
+  toggleDietary: (need: string) => void;
+  setHideUnsafe: (hideUnsafe: boolean) => void;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// The profile belongs to the guest, not to a restaurant, so it is shared
+// across every tenant's menu on this device.
+export const useDietaryProfile = create<DietaryProfileState>()(
+  persist(
+    set => ({
+      avoidAllergens: [],
+      dietary: [],
+      hideUnsafe: false,
+      toggleAllergen: allergen => set(state => ({ avoidAllergens: toggle(state.avoidAllergens, allergen) })),
+      toggleDietary: need => set(state => ({ dietary: toggle(state.dietary, need) })),
+      setHideUnsafe: hideUnsafe => set({ hideUnsafe }),
+    }),
+    {
+      name: 'hospity-dietary-profile',
+      storage: createJSONStorage(() => localStorage),
+      partialize: ({ avoidAllergens, dietary, hideUnsafe }) => ({ avoidAllergens, dietary, hideUnsafe }),
+    }
+  )
+);
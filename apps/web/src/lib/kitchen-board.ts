@@ -0,0 +1,174 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { KitchenEvent, KitchenOrder, KitchenOrderItem, OrderStatus } from '@/types/order';
+import { compareByPriority } from './order-priority';
+
+export type KitchenTab = 'active' | 'ready' | 'completed' | 'all' | 'scheduled';
+
+// null means every status
+export const KITCHEN_TAB_STATUSES: Record<Exclude<KitchenTab, 'scheduled'>, OrderStatus[] | null> = {
+  active: ['new', 'accepted', 'preparing'],
+  ready: ['ready'],
+  completed: ['completed'],
+  all: null,
+};
+
+// Longest the feed sleeps before checking pre-order fire times again
+const MAX_FIRE_WAIT = 60_000;
+
+// The pass: sees whole orders and releases them once every station is done
+export const EXPO_STATION = 'expo';
+
+const isItemDone = (item: KitchenOrderItem) =>
+  item.voided || item.status === 'ready' || item.status === 'served';
+
+export const getStationItems = (order: KitchenOrder, station: string) =>
+  order.items.filter(item => item.station === station);
+
+/** True once every item routed to a station is ready; unrouted items don't block. */
+export const allStationsReady = (order: KitchenOrder) =>
+  order.items.every(item => !item.station || isItemDone(item));
+
+/** True once a station has nothing left to cook; held courses are not its work yet. */
+export const isStationDone = (order: KitchenOrder, station: string) =>
+  getStationItems(order, station).every(item => item.held || isItemDone(item));
+
+export const isFired = (order: KitchenOrder, now = new Date()) =>
+  !order.fireAt || new Date(order.fireAt) <= now;
+
+/** Client-side twin of the server's tab filter, for applying pushed events. */
+export function matchesKitchenTab(order: KitchenOrder, tab: KitchenTab, now = new Date()): boolean {
+  if (tab === 'scheduled') {
+    return !isFired(order, now) && order.status !== 'completed' && order.status !== 'cancelled';
+  }
+  const statuses = KITCHEN_TAB_STATUSES[tab];
+  return isFired(order, now) && (!statuses || statuses.includes(order.status));
+}
+
+const compareForTab = (tab: KitchenTab) =>
+  tab === 'scheduled'
+    ? (a: KitchenOrder, b: KitchenOrder) => a.fireAt!.localeCompare(b.fireAt!)
+    : compareByPriority;
+
+/** Puts an order into, or takes it out of, every cached kitchen tab. */
+export function applyKitchenEvent(queryClient: QueryClient, order: KitchenOrder) {
+  for (const [queryKey, orders] of queryClient.getQueriesData<KitchenOrder[]>({ queryKey: ['kitchen-orders'] })) {
+    if (!orders) continue;
+    const tab = queryKey[1] as KitchenTab;
+    const rest = orders.filter(existing => existing.id !== order.id);
+    const next = matchesKitchenTab(order, tab) ? [...rest, order] : rest;
+    next.sort(compareForTab(tab));
+    queryClient.setQueryData(queryKey, next);
+  }
+}
+
+/**
+ * Keeps the kitchen order queries current from the tenant's event stream.
+ * Events carry a sequence number; the browser sends the last one back on
+ * reconnect and the server replays what was missed, or asks for a reload
+ * with `resync` when it no longer has them. `onArrival` runs once for each
+ * order that lands on the board, never for replays of ones already seen;
+ * `onEscalation` runs when the SLA check raises an order's priority.
+ */
+export function useKitchenFeed(
+  onArrival: (order: KitchenOrder) => void,
+  onEscalation?: (order: KitchenOrder) => void
+) {
+  const queryClient = useQueryClient();
+  const onArrivalRef = useRef(onArrival);
+  onArrivalRef.current = onArrival;
+  const onEscalationRef = useRef(onEscalation);
+  onEscalationRef.current = onEscalation;
+
+  useEffect(() => {
+    let closed = false;
+    let lastSeq: number | null = null;
+    const announced = new Set<string>();
+    // Pre-orders fire without an event, so the feed keeps its own list of
+    // them rather than relying on the Scheduled tab having been opened
+    const upcoming = new Map<string, KitchenOrder>();
+    let fireTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const announce = (order: KitchenOrder) => {
+      if (announced.has(order.id) || !isFired(order)) return;
+      announced.add(order.id);
+      onArrivalRef.current(order);
+    };
+
+    const track = (order: KitchenOrder) => {
+      if (matchesKitchenTab(order, 'scheduled')) upcoming.set(order.id, order);
+      else upcoming.delete(order.id);
+    };
+
+    // Wakes up at the next fire time, and at least every minute since timers
+    // drift while a tablet sleeps
+    const scheduleFire = () => {
+      clearTimeout(fireTimer);
+      if (closed || upcoming.size === 0) return;
+      const next = Math.min(...Array.from(upcoming.values(), order => new Date(order.fireAt!).getTime()));
+      fireTimer = setTimeout(fireDue, Math.min(Math.max(0, next - Date.now()), MAX_FIRE_WAIT));
+    };
+
+    const fireDue = () => {
+      const due = Array.from(upcoming.values()).filter(order => isFired(order));
+      if (due.length > 0) {
+        due.forEach(order => {
+          upcoming.delete(order.id);
+          announce(order);
+        });
+        queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      }
+      scheduleFire();
+    };
+
+    const loadUpcoming = async () => {
+      try {
+        const response = await fetch('/api/kitchen/orders?status=scheduled');
+        if (!response.ok || closed) return;
+        const orders = (await response.json()) as KitchenOrder[];
+        upcoming.clear();
+        orders.forEach(track);
+        fireDue();
+      } catch {
+        // Offline; the next resync loads them again
+      }
+    };
+
+    const resync = () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stats'] });
+      void loadUpcoming();
+    };
+
+    const source = new EventSource('/api/kitchen/stream');
+
+    source.addEventListener('resync', event => {
+      lastSeq = JSON.parse((event as MessageEvent).data).seq;
+      resync();
+    });
+
+    source.addEventListener('order', event => {
+      const seq = Number((event as MessageEvent).lastEventId);
+      if (lastSeq !== null && seq <= lastSeq) return;
+      const gap = lastSeq !== null && seq > lastSeq + 1;
+      lastSeq = seq;
+
+      const { type, order } = JSON.parse((event as MessageEvent).data) as KitchenEvent;
+      applyKitchenEvent(queryClient, order);
+      track(order);
+      scheduleFire();
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stats'] });
+      if (type === 'order.created') announce(order);
+      if (type === 'order.escalated') onEscalationRef.current?.(order);
+      if (gap) resync();
+    });
+
+    void loadUpcoming();
+
+    return () => {
+      closed = true;
+      source.close();
+      clearTimeout(fireTimer);
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { Course } from '@/types/menu';
+import type { KitchenOrder, KitchenOrderItem, OrderItemStatus, OrderStatus } from '@/types/order';
+import { courseOf } from './courses';
+import { applyKitchenEvent, type KitchenTab } from './kitchen-board';
+
+const DB_NAME = 'hospity-kitchen';
+const ORDERS_STORE = 'orders';
+const OUTBOX_STORE = 'outbox';
+
+// A kitchen change that can wait for the connection to come back. `from`
+// is what this screen saw when the change was made; the server refuses the
+// change if the order or item has moved on since.
+export type KitchenMutation =
+  | { kind: 'order-status'; orderId: string; orderNumber: string; from: OrderStatus; status: OrderStatus }
+  | {
+      kind: 'item-status';
+      orderId: string;
+      orderNumber: string;
+      itemId: string;
+      from: OrderItemStatus;
+      status: OrderItemStatus;
+    }
+  | { kind: 'station-ready'; orderId: string; orderNumber: string; station: string }
+  | { kind: 'fire-course'; orderId: string; orderNumber: string; course: Course };
+
+type QueuedMutation = KitchenMutation & { id: number; queuedAt: string };
+
+export interface KitchenConflict {
+  mutation: KitchenMutation;
+  message: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ORDERS_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveKitchenOrders(tab: KitchenTab, orders: KitchenOrder[]): Promise<void> {
+  await run(ORDERS_STORE, 'readwrite', store => store.put({ orders, savedAt: new Date().toISOString() }, tab));
+}
+
+export async function loadKitchenOrders(tab: KitchenTab): Promise<KitchenOrder[] | null> {
+  const saved = await run<{ orders: KitchenOrder[] } | undefined>(ORDERS_STORE, 'readonly', store => store.get(tab));
+  return saved?.orders ?? null;
+}
+
+/**
+ * Fetches a kitchen tab, falling back to the copy in IndexedDB when the
+ * network is down so the board survives a reload.
+ */
+export async function fetchKitchenOrders(tab: KitchenTab): Promise<KitchenOrder[]> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/kitchen/orders?status=${tab}`);
+  } catch (error) {
+    const saved = await loadKitchenOrders(tab).catch(() => null);
+    if (saved) return saved;
+    throw error;
+  }
+  if (!response.ok) throw new Error('Failed to fetch orders');
+  return response.json();
+}
+
+function toRequest(mutation: KitchenMutation): [string, RequestInit] {
+  const base = `/api/kitchen/orders/${mutation.orderId}`;
+  switch (mutation.kind) {
+    case 'order-status':
+    case 'item-status':
+      return [
+        base,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            status: mutation.status,
+            from: mutation.from,
+            itemId: mutation.kind === 'item-status' ? mutation.itemId : undefined,
+          }),
+        },
+      ];
+    case 'station-ready':
+      return [`${base}/stations/${mutation.station}`, { method: 'POST' }];
+    case 'fire-course':
+      return [`${base}/courses/${mutation.course}`, { method: 'POST' }];
+  }
+}
+
+/** What the board should look like once the server accepts the change. */
+function applyLocally(queryClient: QueryClient, mutation: KitchenMutation) {
+  const orders = queryClient.getQueriesData<KitchenOrder[]>({ queryKey: ['kitchen-orders'] });
+  const order = orders.flatMap(([, data]) => data ?? []).find(entry => entry.id === mutation.orderId);
+  if (!order) return;
+
+  const updateItems = (update: (item: KitchenOrderItem) => KitchenOrderItem): KitchenOrder => ({
+    ...order,
+    items: order.items.map(update),
+  });
+
+  switch (mutation.kind) {
+    case 'order-status':
+      return applyKitchenEvent(queryClient, { ...order, status: mutation.status });
+    case 'item-status':
+      return applyKitchenEvent(
+        queryClient,
+        updateItems(item => (item.id === mutation.itemId ? { ...item, status: mutation.status } : item))
+      );
+    case 'station-ready':
+      return applyKitchenEvent(
+        queryClient,
+        updateItems(item =>
+          item.station === mutation.station && !item.held ? { ...item, status: 'ready' } : item
+        )
+      );
+    case 'fire-course':
+      return applyKitchenEvent(
+        queryClient,
+        updateItems(item =>
+          courseOf(item) === mutation.course && item.held
+            ? { ...item, held: false, firedAt: new Date().toISOString() }
+            : item
+        )
+      );
+  }
+}
+
+// The server refused the change for good; retrying would not help
+const REJECTED_STATUSES = [404, 409, 422];
+// The kitchen's sign-in expired; the queue waits until staff sign back in
+const SIGNED_OUT_STATUSES = [401, 403];
+
+/** Null when the server's answer means the change should be dropped as it is already in effect. */
+async function describeConflict(mutation: KitchenMutation, response: Response): Promise<string | null> {
+  const body = await response.json().catch(() => null);
+  if (response.status === 404) {
+    return `Order #${mutation.orderNumber} no longer exists.`;
+  }
+  // Another screen made the same move first
+  if ((mutation.kind === 'order-status' || mutation.kind === 'item-status') && body?.from === mutation.status) {
+    return null;
+  }
+  const current = body?.from ? ` It is now ${body.from}.` : '';
+  return `Order #${mutation.orderNumber} was changed on another screen; your change was not applied.${current}`;
+}
+
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+}
+
+const RETRY_INTERVAL = 15_000;
+
+/**
+ * Keeps the kitchen working through a dropped connection. Every kitchen tab
+ * the board loads or receives is copied to IndexedDB. Changes are sent
+ * straight away, or queued while the connection is down and shown on the
+ * board at once; the queue replays in order when the connection returns. A
+ * change another screen has overtaken is dropped and reported through
+ * `onConflicts`, never forced through. If the session has expired the queue
+ * is kept and `signedOut` asks staff to sign in again.
+ */
+export function useOfflineKitchen(onConflicts: (conflicts: KitchenConflict[]) => void) {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [signedOut, setSignedOut] = useState(false);
+  const replaying = useRef(false);
+  const onConflictsRef = useRef(onConflicts);
+  onConflictsRef.current = onConflicts;
+
+  const refreshPending = useCallback(async () => {
+    setPending(await run(OUTBOX_STORE, 'readonly', store => store.count()).catch(() => 0));
+  }, []);
+
+  const queue = useCallback(
+    async (mutation: KitchenMutation) => {
+      await run(OUTBOX_STORE, 'readwrite', store => store.add({ ...mutation, queuedAt: new Date().toISOString() }));
+      applyLocally(queryClient, mutation);
+      await refreshPending();
+    },
+    [queryClient, refreshPending]
+  );
+
+  const replay = useCallback(async () => {
+    if (replaying.current) return;
+    replaying.current = true;
+    setSyncing(true);
+
+    const conflicts: KitchenConflict[] = [];
+    let sent = 0;
+    try {
+      const queued = await run<QueuedMutation[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+      for (const mutation of queued) {
+        let response: Response;
+        try {
+          response = await fetch(...toRequest(mutation));
+        } catch {
+          break; // Still offline; the rest wait for the next attempt
+        }
+        if (SIGNED_OUT_STATUSES.includes(response.status)) {
+          setSignedOut(true);
+          break;
+        }
+        setSignedOut(false);
+        // Server trouble and throttling are not conflicts; keep the rest for later
+        if (!response.ok && !REJECTED_STATUSES.includes(response.status)) break;
+
+        if (!response.ok) {
+          const message = await describeConflict(mutation, response);
+          if (message) conflicts.push({ mutation, message });
+        }
+        await run(OUTBOX_STORE, 'readwrite', store => store.delete(mutation.id));
+        sent++;
+      }
+    } finally {
+      replaying.current = false;
+      setSyncing(false);
+      await refreshPending();
+    }
+
+    if (sent > 0) {
+      // Replace the optimistic board with what the server now says
+      queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stats'] });
+    }
+    if (conflicts.length > 0) onConflictsRef.current(conflicts);
+  }, [queryClient, refreshPending]);
+
+  useEffect(() => {
+    refreshPending();
+  }, [refreshPending]);
+
+  // Covers pushed events and optimistic changes as well as fetches
+  useEffect(
+    () =>
+      queryClient.getQueryCache().subscribe(event => {
+        const [key, tab] = event.query.queryKey;
+        if (key !== 'kitchen-orders' || event.type !== 'updated' || event.action.type !== 'success') return;
+        saveKitchenOrders(tab as KitchenTab, event.query.state.data as KitchenOrder[]).catch(() => {
+          // Private browsing can refuse storage; the board still works online
+        });
+      }),
+    [queryClient]
+  );
+
+  // navigator.onLine can stay true through a dead Wi-Fi link, so keep trying
+  useEffect(() => {
+    if (!online || pending === 0) return;
+    replay();
+    const retry = setInterval(replay, RETRY_INTERVAL);
+    return () => clearInterval(retry);
+  }, [online, pending, replay]);
+
+  /**
+   * Sends the change now, or queues it and resolves to null. Anything
+   * already queued goes first, so changes always reach the server in order.
+   */
+  const submit = useCallback(
+    async (mutation: KitchenMutation): Promise<Response | null> => {
+      if (!online || pending > 0) {
+        await queue(mutation);
+        return null;
+      }
+      try {
+        return await fetch(...toRequest(mutation));
+      } catch {
+        // navigator.onLine lags behind a dropped Wi-Fi connection
+        await queue(mutation);
+        return null;
+      }
+    },
+    [online, pending, queue]
+  );
+
+  return { online, pending, syncing, signedOut, submit };
+}
@@ -0,0 +1,19 @@
+import type { KitchenReason } from '@/types/order';
+
+export const KITCHEN_REASONS: KitchenReason[] = [
+  'burnt',
+  'wrong-modifier',
+  'wrong-item',
+  'dropped',
+  'customer-changed-mind',
+  'other',
+];
+
+export const KITCHEN_REASON_LABELS: Record<KitchenReason, string> = {
+  burnt: 'Burnt',
+  'wrong-modifier': 'Wrong modifier',
+  'wrong-item': 'Wrong item',
+  dropped: 'Dropped',
+  'customer-changed-mind': 'Customer changed mind',
+  other: 'Other',
+};
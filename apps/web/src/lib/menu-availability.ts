@@ -0,0 +1,72 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { AvailabilityChange, MenuItem } from '@/types/menu';
+
+interface Stockable {
+  available?: boolean;
+  restockAt?: Date | string | null;
+}
+
+/**
+ * Whether an item or option can be ordered. One the kitchen ran out of counts
+ * as back once its restock time has passed, even before the database has
+ * caught up.
+ */
+export function isAvailable(entity: Stockable, now = new Date()): boolean {
+  if (entity.available !== false) return true;
+  return !!entity.restockAt && new Date(entity.restockAt) <= now;
+}
+
+/** Names of whatever in a cart line cannot be ordered right now: the item or its chosen options. */
+export function unavailableParts(
+  menuItem: MenuItem,
+  modifiers: { [modifierId: string]: string[] },
+  now = new Date()
+): string[] {
+  if (!isAvailable(menuItem, now)) return [menuItem.name];
+  return menuItem.modifiers.flatMap(modifier =>
+    modifier.options
+      .filter(option => (modifiers[modifier.id] || []).includes(option.id) && !isAvailable(option, now))
+      .map(option => option.name)
+  );
+}
+
+export function applyAvailabilityChange(menu: MenuItem[], change: AvailabilityChange): MenuItem[] {
+  const stock = { available: change.available, restockAt: change.restockAt };
+  return menu.map(item => {
+    if (item.id !== change.menuItemId) return item;
+    if (!change.optionId) return { ...item, ...stock };
+    return {
+      ...item,
+      modifiers: item.modifiers.map(modifier => ({
+        ...modifier,
+        options: modifier.options.map(option => (option.id === change.optionId ? { ...option, ...stock } : option)),
+      })),
+    };
+  });
+}
+
+/**
+ * Keeps a guest's menu in step with the kitchen: items and options it runs
+ * out of or restocks change on screen without a reload. A reconnect refetches
+ * the menu, since changes made while disconnected are not replayed.
+ */
+export function useMenuAvailability(tenantId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const queryKey = ['menu', tenantId];
+    const source = new EventSource(`/api/tenants/${tenantId}/menu/stream`);
+    let connected = false;
+
+    source.addEventListener('open', () => {
+      if (connected) queryClient.invalidateQueries({ queryKey });
+      connected = true;
+    });
+    source.addEventListener('availability', event => {
+      const change = JSON.parse((event as MessageEvent).data) as AvailabilityChange;
+      queryClient.setQueryData<MenuItem[]>(queryKey, menu => menu && applyAvailabilityChange(menu, change));
+    });
+    return () => source.close();
+  }, [tenantId, queryClient]);
+}
@@ -0,0 +1,26 @@
+import type { MenuItem } from '@/types/menu';
+
+/** Category names in the order guests see them: the owner's order first, then any others A-Z. */
+export function orderCategories(menu: MenuItem[], categoryOrder: string[] = []): string[] {
+  const present = new Set(menu.map(item => item.category));
+  const listed = categoryOrder.filter(category => present.has(category));
+  const rest = Array.from(present)
+    .filter(category => !categoryOrder.includes(category))
+    .sort((a, b) => a.localeCompare(b));
+  return [...listed, ...rest];
+}
+
+/**
+ * The menu as guests see it: grouped by category in the owner's order, then
+ * by each item's position in its category. Shared by the guest menu and the
+ * owner's preview so the two always agree.
+ */
+export function sortMenu(menu: MenuItem[], categoryOrder: string[] = []): MenuItem[] {
+  const categories = orderCategories(menu, categoryOrder);
+  return [...menu].sort(
+    (a, b) =>
+      categories.indexOf(a.category) - categories.indexOf(b.category) ||
+      (a.sortOrder ?? 0) - (b.sortOrder ?? 0) ||
+      a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { MenuItem, MenuModifier } from '@/types/menu';
+import { getActiveModifiers, getSelectionLimits, pruneSelection, validateModifiers } from './modifier-rules';
+
+const option = (id: string) => ({ id, name: id, price: 0 });
+
+const size: MenuModifier = {
+  id: 'size',
+  name: 'Size',
+  type: 'single',
+  required: true,
+  options: [option('small'), option('large')],
+};
+
+const style: MenuModifier = {
+  id: 'style',
+  name: 'Style',
+  type: 'single',
+  required: false,
+  options: [option('burger'), option('wings')],
+};
+
+// Only offered with wings
+const sauces: MenuModifier = {
+  id: 'sauces',
+  name: 'Sauce',
+  type: 'multiple',
+  required: false,
+  minSelections: 1,
+  maxSelections: 2,
+  parentOptionId: 'wings',
+  options: [option('bbq'), option('buffalo'), option('ranch')],
+};
+
+const item: MenuItem = {
+  id: 'chicken',
+  name: 'Chicken',
+  description: '',
+  price: 10,
+  category: 'Mains',
+  images: [],
+  allergens: [],
+  dietary: [],
+  preparationTime: 10,
+  available: true,
+  rating: 0,
+  reviewCount: 0,
+  tags: [],
+  modifiers: [size, style, sauces],
+};
+
+describe('getSelectionLimits', () => {
+  it('allows one choice for single groups and requires it when required', () => {
+    expect(getSelectionLimits(size)).toEqual({ min: 1, max: 1 });
+    expect(getSelectionLimits(style)).toEqual({ min: 0, max: 1 });
+  });
+
+  it('caps the maximum at the number of options', () => {
+    expect(getSelectionLimits(sauces)).toEqual({ min: 1, max: 2 });
+    expect(getSelectionLimits({ ...sauces, maxSelections: 10 })).toEqual({ min: 1, max: 3 });
+  });
+});
+
+describe('getActiveModifiers', () => {
+  it('offers nested groups only while their parent option is chosen', () => {
+    expect(getActiveModifiers(item, { style: ['burger'] })).toEqual([size, style]);
+    expect(getActiveModifiers(item, { style: ['wings'] })).toEqual([size, style, sauces]);
+  });
+});
+
+describe('pruneSelection', () => {
+  it('drops choices for groups that are no longer offered', () => {
+    expect(pruneSelection(item, { size: ['large'], style: ['burger'], sauces: ['bbq'] })).toEqual({
+      size: ['large'],
+      style: ['burger'],
+    });
+  });
+});
+
+describe('validateModifiers', () => {
+  it('accepts a complete selection', () => {
+    expect(validateModifiers(item, { size: ['small'], style: ['wings'], sauces: ['bbq', 'ranch'] })).toBeNull();
+  });
+
+  it('requires required groups', () => {
+    expect(validateModifiers(item, {})).toEqual({ size: 'Please choose a size' });
+  });
+
+  it('enforces the limits of nested groups once offered', () => {
+    expect(validateModifiers(item, { size: ['small'], style: ['wings'] })).toEqual({
+      sauces: 'Please choose a sauce',
+    });
+    expect(validateModifiers(item, { size: ['small'], style: ['wings'], sauces: ['bbq', 'buffalo', 'ranch'] })).toEqual({
+      sauces: 'Choose up to 2',
+    });
+  });
+
+  it('rejects choices for groups that are not offered', () => {
+    expect(validateModifiers(item, { size: ['small'], sauces: ['bbq'] })).toEqual({
+      sauces: 'Sauce is not available for this choice',
+    });
+  });
+
+  it('rejects unknown groups, unknown options and repeats', () => {
+    expect(validateModifiers(item, { size: ['small'], extras: ['cheese'] })).toEqual({
+      extras: 'Unknown option group',
+    });
+    expect(validateModifiers(item, { size: ['medium'] })).toEqual({ size: 'Unknown option for Size' });
+    expect(validateModifiers(item, { size: ['small', 'small'] })).toEqual({
+      size: 'Each option can only be chosen once',
+    });
+  });
+
+  it('rejects more than one choice in a single group', () => {
+    expect(validateModifiers(item, { size: ['small', 'large'] })).toEqual({ size: 'Choose only one' });
+  });
+});
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import type { MenuItem, MenuModifier } from '@/types/menu';
+
+export type ModifierSelection = { [modifierId: string]: string[] };
+export type ModifierErrors = { [modifierId: string]: string };
+
+export function getSelectionLimits(modifier: MenuModifier) {
+  const min = modifier.minSelections ?? (modifier.required ? 1 : 0);
+  const max = modifier.type === 'single'
+    ? 1
+    : Math.min(modifier.maxSelections ?? modifier.options.length, modifier.options.length);
+  return { min, max };
+}
+
+/**
+ * Returns the modifier groups offered for the current selection. A nested
+ * group is active only while its parent option is chosen in an active group.
+ */
+export function getActiveModifiers(menuItem: MenuItem, selection: ModifierSelection): MenuModifier[] {
+  const active = new Map<string, MenuModifier>();
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const modifier of menuItem.modifiers) {
+      if (active.has(modifier.id)) continue;
+
+      const parentSelected = !modifier.parentOptionId || Array.from(active.values()).some(parent =>
+        parent.options.some(o => o.id === modifier.parentOptionId) &&
+        (selection[parent.id] || []).includes(modifier.parentOptionId!)
+      );
+      if (parentSelected) {
+        active.set(modifier.id, modifier);
+        changed = true;
+      }
+    }
+  }
+
+  return menuItem.modifiers.filter(modifier => active.has(modifier.id));
+}
+
+/**
+ * Removes selections for groups that are no longer offered, e.g. sauces after
+ * the guest switches away from wings.
+ */
+export function pruneSelection(menuItem: MenuItem, selection: ModifierSelection): ModifierSelection {
+  const active = getActiveModifiers(menuItem, selection);
+  return active.reduce<ModifierSelection>((pruned, modifier) => {
+    if (selection[modifier.id]?.length) pruned[modifier.id] = selection[modifier.id];
+    return pruned;
+  }, {});
+}
+
+export function buildModifierSchema(menuItem: MenuItem) {
+  return z.record(z.array(z.string())).superRefine((selection, ctx) => {
+    const active = getActiveModifiers(menuItem, selection);
+
+    for (const [modifierId, optionIds] of Object.entries(selection)) {
+      if (optionIds.length === 0) continue;
+
+      const modifier = menuItem.modifiers.find(m => m.id === modifierId);
+      if (!modifier) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [modifierId], message: 'Unknown option group' });
+        continue;
+      }
+      if (!active.includes(modifier)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [modifierId],
+          message: `${modifier.name} is not available for this choice`,
+        });
+        continue;
+      }
+      if (new Set(optionIds).size !== optionIds.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [modifierId], message: 'Each option can only be chosen once' });
+      }
+      if (optionIds.some(optionId => !modifier.options.some(o => o.id === optionId))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [modifierId], message: `Unknown option for ${modifier.name}` });
+      }
+    }
+
+    for (const modifier of active) {
+      const count = selection[modifier.id]?.length ?? 0;
+      const { min, max } = getSelectionLimits(modifier);
+
+      if (count < min) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [modifier.id],
+          message: min === 1 ? `Please choose a ${modifier.name.toLowerCase()}` : `Choose at least ${min}`,
+        });
+      } else if (count > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [modifier.id],
+          message: max === 1 ? 'Choose only one' : `Choose up to ${max}`,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Validates a modifier selection and returns the first error per group, or
+ * null when the selection is valid.
+ */
+export function validateModifiers(menuItem: MenuItem, selection: ModifierSelection): ModifierErrors | null {
+  const result = buildModifierSchema(menuItem).safeParse(selection);
+  if (result.success) return null;
+
+  return result.error.issues.reduce<ModifierErrors>((errors, issue) => {
+    const modifierId = String(issue.path[0]);
+    if (!errors[modifierId]) errors[modifierId] = issue.message;
+    return errors;
+  }, {});
+}
@@ -0,0 +1,62 @@
+import type { OrderStatus } from '@/types/order';
+
+/**
+ * The one order lifecycle, shared by the API and every staff screen. An
+ * order only moves along these edges; the server rejects anything else.
+ * Starting to cook implies accepting, so `new` may go straight to
+ * `preparing`. Once completed (picked up, served or delivered) an order can
+ * no longer be cancelled.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  new: ['accepted', 'preparing', 'cancelled'],
+  accepted: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'New',
+  accepted: 'Accepted',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// What staff call the move into each status
+export const ORDER_ACTION_LABELS: Record<OrderStatus, string> = {
+  new: 'Reopen',
+  accepted: 'Accept',
+  preparing: 'Start Preparing',
+  ready: 'Mark Ready',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+/** The main forward step from a status, skipping shortcuts and cancellation. */
+export function getNextStatus(status: OrderStatus): OrderStatus | null {
+  const forward = ORDER_TRANSITIONS[status].filter(to => to !== 'cancelled');
+  return forward[0] ?? null;
+}
+
+export const isFinalStatus = (status: OrderStatus) => ORDER_TRANSITIONS[status].length === 0;
+
+// How long after completion an order can still be recalled to the pass
+export const RECALL_WINDOW_MINUTES = 30;
+
+/**
+ * Whether a completed order may go back to `ready`, e.g. when a dish comes
+ * back from the table. Outside the lifecycle on purpose: it undoes a step.
+ */
+export const canRecall = (
+  order: { status: OrderStatus; completedAt?: Date | string | null },
+  now = new Date()
+) =>
+  order.status === 'completed' &&
+  !!order.completedAt &&
+  now.getTime() - new Date(order.completedAt).getTime() <= RECALL_WINDOW_MINUTES * 60_000;
@@ -0,0 +1,60 @@
+import type { SlaSettings } from '@/types/menu';
+import type { KitchenOrder, OrderPriority } from '@/types/order';
+
+export const PRIORITY_RANK: Record<OrderPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3,
+};
+
+export const DEFAULT_SLA: SlaSettings = {
+  highAtPercent: 80,
+  urgentWhenOverdue: true,
+  highWhenDriverAssigned: true,
+};
+
+export const resolveSla = (sla?: Partial<SlaSettings>): SlaSettings => ({ ...DEFAULT_SLA, ...sla });
+
+const MINUTE = 60_000;
+
+const isItemDone = (item: KitchenOrder['items'][number]) =>
+  item.voided || item.status === 'ready' || item.status === 'served';
+
+/**
+ * The priority an order's SLA calls for right now, measured from when the
+ * kitchen got its current work (its fire time for pre-orders, or when the
+ * last course was fired) against the time it was promised for. The rolling
+ * estimate is not used: it keeps moving ahead of a late order. Never lower
+ * than the order's own priority: escalation only goes up.
+ */
+export function slaPriority(order: KitchenOrder, sla: SlaSettings, now = new Date()): OrderPriority {
+  const start = Math.max(
+    new Date(order.fireAt ?? order.createdAt).getTime(),
+    ...order.items.map(item => (item.firedAt ? new Date(item.firedAt).getTime() : 0))
+  );
+  const due = order.promisedAt
+    ? new Date(order.promisedAt).getTime()
+    : start + order.totalEstimatedTime * MINUTE;
+
+  let target: OrderPriority = order.priority;
+  const raise = (priority: OrderPriority) => {
+    if (PRIORITY_RANK[priority] > PRIORITY_RANK[target]) target = priority;
+  };
+
+  if (sla.highWhenDriverAssigned && order.orderType === 'delivery' && order.driverAssigned) raise('high');
+  // A table still on its starters is not the kitchen running late
+  const waitingOnTable = order.items.some(item => item.held) && order.items.every(item => item.held || isItemDone(item));
+
+  // Without any estimate there is nothing to be late against
+  if (due > start && !waitingOnTable) {
+    const elapsed = now.getTime() - start;
+    if (elapsed >= ((due - start) * sla.highAtPercent) / 100) raise('high');
+    if (sla.urgentWhenOverdue && now.getTime() > due) raise('urgent');
+  }
+  return target;
+}
+
+/** Kitchen board order: most urgent first, then oldest first. */
+export const compareByPriority = (a: KitchenOrder, b: KitchenOrder) =>
+  PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.createdAt.localeCompare(b.createdAt);
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { CartItem } from '@/lib/cart-store';
+import type { MenuItem } from '@/types/menu';
+import type { TableSession } from '@/types/table';
+
+export interface TableCartItem extends CartItem {
+  id: string;
+  dinerId: string;
+  dinerName: string;
+}
+
+interface DinerIdentityState {
+  dinerId: string;
+  dinerSecret: string;
+  dinerName: string;
+  setDinerName: (dinerName: string) => void;
+}
+
+// Identifies this device at a shared table so lines can be attributed and
+// split by diner. Not an account; clearing storage makes a new diner. The
+// secret is only sent with this diner's own changes and lets the server
+// check they are editing their own lines.
+export const useDinerIdentity = create<DinerIdentityState>()(
+  persist(
+    set => ({
+      dinerId: crypto.randomUUID(),
+      dinerSecret: crypto.randomUUID(),
+      dinerName: '',
+      setDinerName: dinerName => set({ dinerName }),
+    }),
+    {
+      name: 'hospity-diner',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+/**
+ * The shared cart for a dine-in table. Lines live on the server and every
+ * diner at the table sees changes live. Returns the same shape as `useCart`
+ * so the menu page can use either. `tableKey` is the signed key from the
+ * table's QR code; the server refuses the table without it.
+ */
+export function useTableCart(tenantId: string, tableNumber?: string | null, tableKey?: string | null) {
+  const queryClient = useQueryClient();
+  const { dinerId, dinerSecret, dinerName } = useDinerIdentity();
+  const baseUrl = `/api/tenants/${tenantId}/tables/${encodeURIComponent(tableNumber || '')}/session`;
+  const keyQuery = `?key=${encodeURIComponent(tableKey || '')}`;
+  const queryKey = useMemo(() => ['table-session', tenantId, tableNumber], [tenantId, tableNumber]);
+
+  const { data: session } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`${baseUrl}${keyQuery}`);
+      if (!response.ok) throw new Error('Failed to load the table');
+      return response.json() as Promise<TableSession>;
+    },
+    enabled: !!tableNumber && !!tableKey,
+  });
+
+  // The server sends the current session on every connect, so reconnects
+  // after a dropped connection catch up on their own.
+  useEffect(() => {
+    if (!tableNumber || !tableKey) return;
+
+    const source = new EventSource(`${baseUrl}/stream${keyQuery}`);
+    source.addEventListener('session', event => {
+      queryClient.setQueryData(queryKey, JSON.parse((event as MessageEvent).data));
+    });
+    return () => source.close();
+  }, [tableNumber, tableKey, baseUrl, keyQuery, queryKey, queryClient]);
+
+  const setSession = (next: TableSession) => queryClient.setQueryData(queryKey, next);
+
+  const addMutation = useMutation({
+    mutationFn: async (item: CartItem) => {
+      const response = await fetch(`${baseUrl}/lines${keyQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          menuItemId: item.menuItemId,
+          quantity: item.quantity,
+          modifiers: item.modifiers,
+          specialInstructions: item.specialInstructions,
+          dinerId,
+          dinerSecret,
+          dinerName: dinerName.trim() || 'Guest',
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to add item');
+      }
+      return response.json() as Promise<TableSession>;
+    },
+    onSuccess: setSession,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ lineId, quantity }: { lineId: string; quantity: number }) => {
+      const response = await fetch(`${baseUrl}/lines/${lineId}${keyQuery}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quantity: Math.max(0, quantity), dinerSecret }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to update item');
+      }
+      return response.json() as Promise<TableSession>;
+    },
+    onSuccess: setSession,
+  });
+
+  const items: TableCartItem[] = useMemo(
+    () =>
+      session?.status === 'open'
+        ? session.lines.map(line => ({
+            id: line.id,
+            dinerId: line.dinerId,
+            dinerName: line.dinerName,
+            menuItemId: line.menuItemId,
+            quantity: line.quantity,
+            modifiers: line.modifiers,
+            specialInstructions: line.specialInstructions,
+            unitPrice: line.unitPrice,
+          }))
+        : [],
+    [session]
+  );
+
+  const { mutateAsync: addLine } = addMutation;
+  const { mutateAsync: updateLine } = updateMutation;
+
+  return {
+    session,
+    items,
+    addItem: useCallback((item: CartItem) => addLine(item), [addLine]),
+    updateQuantity: useCallback(
+      (index: number, quantity: number) => {
+        const line = items[index];
+        return line ? updateLine({ lineId: line.id, quantity }) : undefined;
+      },
+      [items, updateLine]
+    ),
+    // Submitting closes the session on the server; nothing to clear locally
+    clear: useCallback(() => {}, []),
+    // Lines are priced on the server when added and re-priced at checkout
+    reconcile: useCallback((_menu: MenuItem[], _currency: string): CartItem[] => [], []),
+  };
+}
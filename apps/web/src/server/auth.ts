@@ -0,0 +1,24 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from './auth-options';
+
+/**
+ * Returns the signed-in staff member's session, or null for guests and
+ * customers. Staff routes scope every query to `session.user.tenantId`.
+ */
+export async function getStaffSession() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId || session.user.role === 'CUSTOMER') {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Returns the session only for the tenant's owner. Owner routes change
+ * settings, prices and staff, or reach outside the app (printers), so other
+ * staff roles are refused along with guests.
+ */
+export async function getOwnerSession() {
+  const session = await getStaffSession();
+  return session?.user.role === 'OWNER' ? session : null;
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import type { Prisma } from '@hospity/db';
+import { allocate, fromMajor, subtract, sumMoney, type Money } from '@hospity/utils';
+import type { BillShare, BillSplit } from '@/types/table';
+
+export const billSplitQuerySchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('together') }),
+  z.object({ mode: z.literal('even'), ways: z.coerce.number().int().min(2).max(20) }),
+  z.object({ mode: z.literal('by-item') }),
+]);
+
+export type BillSplitQuery = z.infer<typeof billSplitQuerySchema>;
+
+type SplittableOrder = Pick<Prisma.OrderGetPayload<{ include: { items: true } }>, 'currency' | 'total' | 'items'>;
+type BilledItem = SplittableOrder['items'][number];
+
+/**
+ * Splits an order's total. By-item shares pay for their own lines plus a
+ * proportional part of tax and fees; every split adds up to the exact total.
+ */
+export function splitBill(order: SplittableOrder, locale: string, query: BillSplitQuery): BillSplit {
+  const currency = order.currency;
+  const total = fromMajor(order.total, currency);
+  // Voided lines are off the bill; the order total already excludes them
+  const billed = order.items.filter(item => !item.voidedAt);
+  const describe = (item: BilledItem) => `${item.quantity}x ${item.name}`;
+
+  let shares: BillShare[];
+  switch (query.mode) {
+    case 'together':
+      shares = [{ label: 'Whole table', amount: total, items: billed.map(describe) }];
+      break;
+
+    case 'even':
+      shares = allocate(total, Array(query.ways).fill(1)).map((amount, index) => ({
+        label: `Person ${index + 1}`,
+        amount,
+        items: [],
+      }));
+      break;
+
+    case 'by-item': {
+      // Grouped by diner, not by name: two Sams at a table pay separately
+      const diners = new Map<string, { label: string; items: BilledItem[] }>();
+      const namesakes = new Map<string, number>();
+      for (const item of billed) {
+        const key = item.dinerId ?? '';
+        if (!diners.has(key)) {
+          const name = item.dinerId ? item.dinerName || 'Guest' : 'Unassigned';
+          const count = (namesakes.get(name) ?? 0) + 1;
+          namesakes.set(name, count);
+          diners.set(key, { label: count > 1 ? `${name} (${count})` : name, items: [] });
+        }
+        diners.get(key)!.items.push(item);
+      }
+
+      const entries = Array.from(diners.values());
+      const subtotals: Money[] = entries.map(({ items }) =>
+        sumMoney(items.map(item => fromMajor(item.total, currency)), currency)
+      );
+      const extras = subtract(total, sumMoney(subtotals, currency));
+      const extraShares = allocate(extras, subtotals.map(subtotal => subtotal.amount));
+
+      shares = entries.map(({ label, items }, index) => ({
+        label,
+        amount: sumMoney([subtotals[index], extraShares[index]], currency),
+        items: items.map(describe),
+      }));
+      break;
+    }
+  }
+
+  return { mode: query.mode, locale, total, shares };
+}
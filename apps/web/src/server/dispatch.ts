@@ -0,0 +1,408 @@
+import { z } from 'zod';
+import { prisma, type Prisma } from '@hospity/db';
+import { isFinalStatus } from '@/lib/order-lifecycle';
+import type { DeliveryJob, DeliveryStatus, DispatchBoard, Driver } from '@/types/driver';
+import type { TenantSettings } from '@/types/menu';
+import { ORDER_INCLUDE, publishKitchenEvent } from './kitchen';
+import { completeDelivery } from './orders';
+import { generateTrackingToken, publishTrackingUpdate } from './tracking';
+
+const CHECK_INTERVAL = 30_000;
+// Auto-assignment stacks at most this many jobs on one driver
+const MAX_AUTO_JOBS = 2;
+// A phone photo downscaled on the device to about 1 MB, as a data URL
+const MAX_PHOTO_LENGTH = 1_500_000;
+// Delivered orders stay on the board this long so staff can check the proof
+const RECENT_WINDOW = 2 * 60 * 60 * 1000;
+
+const ACTIVE_DELIVERY: DeliveryStatus[] = ['assigned', 'accepted', 'picked-up'];
+const DISPATCH_STATUSES = ['new', 'accepted', 'preparing', 'ready'];
+// Orders cancelled from the kitchen mid-delivery drop off the driver's list
+const ACTIVE_JOB = { deliveryStatus: { in: ACTIVE_DELIVERY }, status: { in: DISPATCH_STATUSES } };
+
+export const createDriverSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  phone: z.string().trim().min(6).max(30),
+  active: z.boolean().default(true),
+});
+
+export const updateDriverSchema = createDriverSchema.partial();
+
+export const assignDriverSchema = z.object({
+  // null takes the job back off its driver
+  driverId: z.string().nullable(),
+});
+
+export const driverActionSchema = z.object({
+  action: z.enum(['accept', 'decline', 'pick-up']),
+});
+
+export const deliveryProofSchema = z.union([
+  z.object({ pin: z.string().regex(/^\d{4}$/, 'Enter the 4-digit PIN') }),
+  z.object({
+    photo: z
+      .string()
+      .regex(/^data:image\/(jpeg|png|webp);base64,/, 'Attach a JPEG, PNG or WebP photo')
+      .max(MAX_PHOTO_LENGTH, 'The photo is too large'),
+  }),
+]);
+
+export type CreateDriverInput = z.infer<typeof createDriverSchema>;
+export type UpdateDriverInput = z.infer<typeof updateDriverSchema>;
+export type DriverAction = z.infer<typeof driverActionSchema>['action'];
+export type DeliveryProof = z.infer<typeof deliveryProofSchema>;
+
+export class DispatchError extends Error {
+  constructor(
+    public readonly code: 'NOT_DELIVERY' | 'DRIVER_UNAVAILABLE' | 'DRIVER_BUSY' | 'INVALID_STEP' | 'WRONG_PIN',
+    message: string,
+    public readonly status = 409
+  ) {
+    super(message);
+    this.name = 'DispatchError';
+  }
+}
+
+type DriverRow = Prisma.DriverGetPayload<true>;
+
+const globalForDispatch = globalThis as unknown as {
+  dispatchMonitor?: ReturnType<typeof setInterval>;
+};
+
+const toIso = (date?: Date | string | null) => (date ? new Date(date).toISOString() : undefined);
+
+function toDriver(driver: DriverRow, activeJobs: number, withToken = false): Driver {
+  return {
+    id: driver.id,
+    name: driver.name,
+    phone: driver.phone,
+    active: driver.active,
+    available: driver.available,
+    activeJobs,
+    accessToken: withToken ? driver.accessToken : undefined,
+  };
+}
+
+function toDeliveryJob(order: any): DeliveryJob {
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    orderStatus: order.status,
+    customerName: order.customerName ?? undefined,
+    customerPhone: order.customerPhone ?? undefined,
+    deliveryAddress: order.deliveryAddress ?? undefined,
+    itemCount: (order.items || []).reduce((count: number, item: any) => count + item.quantity, 0),
+    readyAt: toIso(order.readyAt),
+    estimatedCompletionTime: toIso(order.estimatedCompletionTime),
+    driver: order.driver ? { id: order.driver.id, name: order.driver.name, phone: order.driver.phone } : undefined,
+    deliveryStatus: order.deliveryStatus ?? undefined,
+    assignedAt: toIso(order.driverAssignedAt),
+    pickedUpAt: toIso(order.pickedUpAt),
+    deliveredAt: toIso(order.deliveredAt),
+    proof: order.deliveryProof ?? undefined,
+  };
+}
+
+async function countActiveJobs(driverIds: string[]): Promise<Map<string, number>> {
+  const groups = await prisma.order.groupBy({
+    by: ['driverId'],
+    where: { driverId: { in: driverIds }, ...ACTIVE_JOB },
+    _count: { _all: true },
+  });
+  return new Map(groups.map((group: any) => [group.driverId, group._count._all]));
+}
+
+/** Kitchen screens show the driver; guests see who is bringing their order. */
+async function publishDelivery(order: any): Promise<void> {
+  await Promise.all([publishKitchenEvent('order.updated', order), publishTrackingUpdate(order)]);
+}
+
+const deliveryUpdate = (orderId: string, data: object) =>
+  prisma.order.update({ where: { id: orderId }, data, include: ORDER_INCLUDE });
+
+const UNASSIGNED = { driverId: null, deliveryStatus: null, driverAssignedAt: null };
+
+export async function listDrivers(tenantId: string): Promise<Driver[]> {
+  const drivers = await prisma.driver.findMany({ where: { tenantId }, orderBy: { name: 'asc' } });
+  const jobs = await countActiveJobs(drivers.map((driver: any) => driver.id));
+  return drivers.map((driver: any) => toDriver(driver, jobs.get(driver.id) ?? 0, true));
+}
+
+export async function createDriver(tenantId: string, input: CreateDriverInput): Promise<Driver> {
+  const driver = await prisma.driver.create({
+    data: { tenantId, ...input, available: false, accessToken: generateTrackingToken() },
+  });
+  return toDriver(driver, 0, true);
+}
+
+/** Returns null if the driver does not belong to the tenant. */
+export async function updateDriver(
+  tenantId: string,
+  driverId: string,
+  input: UpdateDriverInput
+): Promise<Driver | null> {
+  const existing = await prisma.driver.findFirst({ where: { id: driverId, tenantId } });
+  if (!existing) return null;
+
+  // Taking someone off the roster also takes them off shift
+  const data = input.active === false ? { ...input, available: false } : input;
+  const driver = await prisma.driver.update({ where: { id: driverId }, data });
+  const jobs = await countActiveJobs([driverId]);
+  return toDriver(driver, jobs.get(driverId) ?? 0, true);
+}
+
+/** Refused while the driver still has jobs. Returns false if the driver is not the tenant's. */
+export async function deleteDriver(tenantId: string, driverId: string): Promise<boolean> {
+  const existing = await prisma.driver.findFirst({ where: { id: driverId, tenantId } });
+  if (!existing) return false;
+
+  const jobs = await countActiveJobs([driverId]);
+  if (jobs.get(driverId)) {
+    throw new DispatchError('DRIVER_BUSY', `${existing.name} still has deliveries; reassign them first`);
+  }
+  await prisma.driver.delete({ where: { id: driverId } });
+  return true;
+}
+
+/**
+ * Delivery orders still in the kitchen or out on the road, then those
+ * delivered recently, with the drivers who could take them.
+ */
+export async function getDispatchBoard(tenantId: string): Promise<DispatchBoard> {
+  const [orders, drivers, tenant] = await Promise.all([
+    prisma.order.findMany({
+      where: {
+        tenantId,
+        orderType: 'delivery',
+        OR: [{ status: { in: DISPATCH_STATUSES } }, { deliveredAt: { gte: new Date(Date.now() - RECENT_WINDOW) } }],
+      },
+      include: ORDER_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    }),
+    listDrivers(tenantId),
+    prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } }),
+  ]);
+
+  const jobs = orders.map(toDeliveryJob).sort((a: DeliveryJob, b: DeliveryJob) => {
+    if (!a.deliveredAt !== !b.deliveredAt) return a.deliveredAt ? 1 : -1;
+    if (a.deliveredAt) return b.deliveredAt!.localeCompare(a.deliveredAt);
+    if (!a.driver !== !b.driver) return a.driver ? 1 : -1;
+    if (!a.readyAt !== !b.readyAt) return a.readyAt ? -1 : 1;
+    return (a.readyAt ?? '').localeCompare(b.readyAt ?? '');
+  });
+  return {
+    jobs,
+    drivers: drivers.filter(driver => driver.active),
+    autoAssign: !!(tenant?.settings as Partial<TenantSettings> | null)?.autoAssignDrivers,
+  };
+}
+
+/**
+ * Gives a delivery order to a driver, or takes it back with `driverId: null`.
+ * Returns null if the order does not belong to the tenant.
+ */
+export async function assignDriver(
+  tenantId: string,
+  orderId: string,
+  driverId: string | null
+): Promise<DeliveryJob | null> {
+  const order = await prisma.order.findFirst({ where: { id: orderId, tenantId } });
+  if (!order) return null;
+  if (order.orderType !== 'delivery') {
+    throw new DispatchError('NOT_DELIVERY', `Order ${order.orderNumber} is not a delivery`, 400);
+  }
+  if (isFinalStatus(order.status) || order.deliveryStatus === 'picked-up') {
+    throw new DispatchError('INVALID_STEP', `Order ${order.orderNumber} has already left`);
+  }
+
+  let data: object = UNASSIGNED;
+  if (driverId) {
+    const driver = await prisma.driver.findFirst({ where: { id: driverId, tenantId, active: true } });
+    if (!driver) {
+      throw new DispatchError('DRIVER_UNAVAILABLE', 'That driver is not on the roster', 400);
+    }
+    data = { driverId, deliveryStatus: 'assigned', driverAssignedAt: new Date() };
+  }
+
+  const updated = await deliveryUpdate(orderId, data);
+  await publishDelivery(updated);
+  return toDeliveryJob(updated);
+}
+
+/**
+ * Hands every ready, unassigned delivery to the available driver with the
+ * fewest jobs, up to two jobs each. Returns how many orders were assigned.
+ */
+export async function autoAssignDrivers(tenantId: string): Promise<number> {
+  const [waiting, drivers] = await Promise.all([
+    prisma.order.findMany({
+      where: { tenantId, orderType: 'delivery', status: 'ready', driverId: null },
+      orderBy: { readyAt: 'asc' },
+    }),
+    prisma.driver.findMany({ where: { tenantId, active: true, available: true } }),
+  ]);
+  if (waiting.length === 0 || drivers.length === 0) return 0;
+
+  const load = await countActiveJobs(drivers.map((driver: any) => driver.id));
+  let assigned = 0;
+  for (const order of waiting) {
+    const driver = drivers
+      .filter((entry: any) => (load.get(entry.id) ?? 0) < MAX_AUTO_JOBS)
+      .sort((a: any, b: any) => (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0))[0];
+    if (!driver) break;
+
+    // A dispatcher may have assigned it by hand in the meantime
+    const { count } = await prisma.order.updateMany({
+      where: { id: order.id, driverId: null },
+      data: { driverId: driver.id, deliveryStatus: 'assigned', driverAssignedAt: new Date() },
+    });
+    if (count === 0) continue;
+
+    load.set(driver.id, (load.get(driver.id) ?? 0) + 1);
+    assigned++;
+    await publishDelivery(
+      await prisma.order.findUniqueOrThrow({ where: { id: order.id }, include: ORDER_INCLUDE })
+    );
+  }
+  return assigned;
+}
+
+async function isAutoAssignOn(tenantId: string): Promise<boolean> {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+  return !!(tenant?.settings as Partial<TenantSettings> | null)?.autoAssignDrivers;
+}
+
+export async function setAutoAssign(tenantId: string, enabled: boolean): Promise<void> {
+  const tenant = await prisma.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { settings: true } });
+  await prisma.tenant.update({
+    where: { id: tenantId },
+    data: { settings: { ...(tenant.settings as object), autoAssignDrivers: enabled } },
+  });
+  if (enabled) await autoAssignDrivers(tenantId);
+}
+
+/** The proof-of-delivery photo as a data URL, for staff. Null if there is none. */
+export async function getDeliveryPhoto(tenantId: string, orderId: string): Promise<string | null> {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, tenantId },
+    select: { deliveryPhoto: true },
+  });
+  return order?.deliveryPhoto ?? null;
+}
+
+/** The driver a link belongs to. Null for unknown tokens and drivers taken off the roster. */
+export async function findDriverByToken(token: string | null) {
+  if (!token) return null;
+  const driver = await prisma.driver.findUnique({ where: { accessToken: token } });
+  return driver?.active ? driver : null;
+}
+
+export async function getDriverJobs(driver: DriverRow): Promise<{ driver: Driver; jobs: DeliveryJob[] }> {
+  const orders = await prisma.order.findMany({
+    where: { driverId: driver.id, ...ACTIVE_JOB },
+    include: ORDER_INCLUDE,
+    orderBy: { driverAssignedAt: 'asc' },
+  });
+  return { driver: toDriver(driver, orders.length), jobs: orders.map(toDeliveryJob) };
+}
+
+export async function setDriverAvailability(driver: DriverRow, available: boolean): Promise<Driver> {
+  const updated = await prisma.driver.update({ where: { id: driver.id }, data: { available } });
+  const jobs = await countActiveJobs([driver.id]);
+  if (available && (await isAutoAssignOn(driver.tenantId))) {
+    await autoAssignDrivers(driver.tenantId);
+  }
+  return toDriver(updated, jobs.get(driver.id) ?? 0);
+}
+
+// Which delivery status each driver action starts from, and where it leads
+const DRIVER_STEPS: Record<DriverAction, { from: DeliveryStatus[]; data: () => object }> = {
+  accept: { from: ['assigned'], data: () => ({ deliveryStatus: 'accepted', driverAcceptedAt: new Date() }) },
+  decline: { from: ['assigned', 'accepted'], data: () => UNASSIGNED },
+  'pick-up': { from: ['accepted'], data: () => ({ deliveryStatus: 'picked-up', pickedUpAt: new Date() }) },
+};
+
+/**
+ * Moves one of the driver's jobs a step. Returns null if the order is not
+ * assigned to this driver.
+ */
+export async function advanceDelivery(driver: DriverRow, orderId: string, action: DriverAction): Promise<DeliveryJob | null> {
+  const order = await prisma.order.findFirst({ where: { id: orderId, driverId: driver.id } });
+  if (!order) return null;
+
+  const step = DRIVER_STEPS[action];
+  if (!step.from.includes(order.deliveryStatus)) {
+    throw new DispatchError('INVALID_STEP', `Order ${order.orderNumber} is ${order.deliveryStatus}`);
+  }
+  if (action === 'pick-up' && order.status !== 'ready') {
+    throw new DispatchError('INVALID_STEP', `Order ${order.orderNumber} is not ready yet`);
+  }
+
+  // Conditional, so a dispatcher reassigning the job at the same time wins cleanly
+  const { count } = await prisma.order.updateMany({
+    where: { id: orderId, driverId: driver.id, deliveryStatus: order.deliveryStatus },
+    data: step.data(),
+  });
+  if (count === 0) return null;
+
+  const updated = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: ORDER_INCLUDE,
+  });
+  await publishDelivery(updated);
+  return toDeliveryJob(updated);
+}
+
+/**
+ * Closes a picked-up order on the doorstep. The guest's PIN or a photo of the
+ * drop-off is the proof; either completes the order. Returns null if the
+ * order is not assigned to this driver.
+ */
+export async function confirmDelivery(driver: DriverRow, orderId: string, proof: DeliveryProof): Promise<DeliveryJob | null> {
+  const order = await prisma.order.findFirst({ where: { id: orderId, driverId: driver.id } });
+  if (!order) return null;
+  if (order.deliveryStatus !== 'picked-up') {
+    throw new DispatchError('INVALID_STEP', `Pick up order ${order.orderNumber} first`);
+  }
+  if ('pin' in proof && proof.pin !== order.deliveryPin) {
+    throw new DispatchError('WRONG_PIN', 'That PIN does not match; ask the guest again or take a photo', 400);
+  }
+
+  const completed = await completeDelivery(
+    order,
+    { type: 'driver', id: driver.id, name: driver.name },
+    {
+      deliveredAt: new Date(),
+      deliveryProof: 'pin' in proof ? 'pin' : 'photo',
+      deliveryPhoto: 'photo' in proof ? proof.photo : null,
+    }
+  );
+  return toDeliveryJob(completed);
+}
+
+/**
+ * Runs auto-assignment every 30 seconds for tenants that turned it on, for
+ * as long as the process runs. Started by the first kitchen or dispatch
+ * screen to connect; later calls do nothing.
+ */
+export function startDispatchMonitor(): void {
+  if (globalForDispatch.dispatchMonitor) return;
+
+  globalForDispatch.dispatchMonitor = setInterval(async () => {
+    try {
+      const waiting = await prisma.order.findMany({
+        where: { orderType: 'delivery', status: 'ready', driverId: null },
+        select: { tenantId: true, tenant: { select: { settings: true } } },
+        distinct: ['tenantId'],
+      });
+      for (const { tenantId, tenant } of waiting) {
+        if ((tenant.settings as Partial<TenantSettings> | null)?.autoAssignDrivers) {
+          await autoAssignDrivers(tenantId);
+        }
+      }
+    } catch (error) {
+      console.error('Auto-assign error:', error);
+    }
+  }, CHECK_INTERVAL);
+  globalForDispatch.dispatchMonitor.unref?.();
+}
@@ -0,0 +1,202 @@
+import { COURSE_LABELS, groupByCourse } from '@/lib/courses';
+import type { KitchenOrder, KitchenOrderItem } from '@/types/order';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INIT = [ESC, 0x40];
+const align = (position: 'left' | 'center') => [ESC, 0x61, position === 'left' ? 0 : 1];
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0];
+const inverse = (on: boolean) => [GS, 0x42, on ? 1 : 0];
+// Character size as width and height multipliers, 1-8 each
+const size = (width: number, height = width) => [GS, 0x21, ((width - 1) << 4) | (height - 1)];
+// Feed past the tear bar, then a partial cut
+const CUT = [GS, 0x56, 0x42, 0x03];
+
+const ORDER_TYPE_LABELS: Record<KitchenOrder['orderType'], string> = {
+  'dine-in': 'DINE IN',
+  takeaway: 'TAKEAWAY',
+  delivery: 'DELIVERY',
+};
+
+export interface TicketOptions {
+  // Characters per line at normal size
+  columns?: number;
+  // Only print this station's items; the whole order when unset
+  station?: string;
+  // Tenant timezone for printed times
+  timeZone?: string;
+}
+
+/**
+ * Printers run in their default code page, so only plain ASCII is safe:
+ * accents are dropped ("Crème" prints as "Creme") and anything else
+ * becomes "?".
+ */
+function toPrintable(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of toPrintable(text).split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = '';
+    }
+    let rest = line ? `${line} ${word}` : word;
+    while (rest.length > width) {
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+class TicketBuilder {
+  private bytes: number[] = [];
+
+  constructor(private readonly columns: number) {}
+
+  command(command: number[]) {
+    this.bytes.push(...command);
+    return this;
+  }
+
+  line(text = '') {
+    this.bytes.push(...Buffer.from(toPrintable(text), 'ascii'), LF);
+    return this;
+  }
+
+  /** Word-wrapped text, indented on every line, at the given character width. */
+  text(text: string, { indent = 0, width = 1, fill = false } = {}) {
+    const available = Math.floor(this.columns / width) - indent;
+    for (const line of wrap(text, available)) {
+      // Inverse print only covers the characters sent, so pad to a full band
+      this.line(' '.repeat(indent) + (fill ? line.padEnd(available) : line));
+    }
+    return this;
+  }
+
+  divider(char = '-') {
+    return this.line(char.repeat(this.columns));
+  }
+
+  build(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+const formatTime = (iso: string, timeZone?: string) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' }).format(new Date(iso));
+
+function renderItem(ticket: TicketBuilder, item: KitchenOrderItem) {
+  ticket
+    .command(bold(true))
+    .command(size(1, 2))
+    .text(`${item.quantity} x ${item.name}`)
+    .command(size(1))
+    .command(bold(false));
+
+  for (const modifier of item.modifiers) {
+    ticket.text(`+ ${modifier}`, { indent: 3 });
+  }
+  if (item.specialInstructions) {
+    ticket.command(bold(true)).text(`>> ${item.specialInstructions}`, { indent: 3 }).command(bold(false));
+  }
+  if (item.allergens.length > 0) {
+    ticket
+      .command(inverse(true))
+      .text(`ALLERGENS: ${item.allergens.join(', ')}`, { indent: 3, fill: true })
+      .command(inverse(false));
+  }
+}
+
+/**
+ * Renders a kitchen ticket as ESC/POS bytes for a raw TCP printer. Returns
+ * null when a station ticket would have no items on it.
+ */
+export function renderKitchenTicket(order: KitchenOrder, options: TicketOptions = {}): Buffer | null {
+  const { columns = 42, station, timeZone } = options;
+  // Voided items are not cooked, so they stay off paper
+  const items = order.items.filter(item => !item.voided && (!station || item.station === station));
+  if (items.length === 0) return null;
+
+  const ticket = new TicketBuilder(columns).command(INIT).command(align('center'));
+
+  ticket.command(bold(true)).text(ORDER_TYPE_LABELS[order.orderType]);
+  if (order.tableNumber) {
+    ticket.line('TABLE').command(size(4)).text(order.tableNumber, { width: 4 }).command(size(1));
+  } else if (order.customerName) {
+    ticket.command(size(2)).text(order.customerName, { width: 2 }).command(size(1));
+  }
+  ticket.command(bold(false)).line(`#${order.orderNumber}  ${formatTime(order.createdAt, timeZone)}`);
+
+  if (order.scheduledFor) {
+    ticket.command(bold(true)).line(`PRE-ORDER FOR ${formatTime(order.scheduledFor, timeZone)}`).command(bold(false));
+  }
+  if (order.remakeOf) {
+    ticket.command(inverse(true)).line(` REMAKE OF #${order.remakeOf.orderNumber} `).command(inverse(false));
+  }
+  if (station) {
+    ticket.command(inverse(true)).line(` ${station.toUpperCase()} `).command(inverse(false));
+  }
+
+  ticket.command(align('left')).divider();
+
+  if (order.allergyWarnings.length > 0) {
+    ticket
+      .command(bold(true))
+      .command(inverse(true))
+      .text(`ALLERGY: ${order.allergyWarnings.join(', ')}`, { fill: true })
+      .command(inverse(false))
+      .command(bold(false))
+      .divider();
+  }
+
+  const courses = groupByCourse(items);
+  for (const { course, items: courseItems, held } of courses) {
+    // A single-course ticket needs no headings
+    if (courses.length > 1) {
+      ticket
+        .command(bold(true))
+        .line(`-- ${COURSE_LABELS[course].toUpperCase()}${held ? ' (HOLD)' : ''} --`)
+        .command(bold(false));
+    }
+    courseItems.forEach(item => renderItem(ticket, item));
+  }
+
+  if (order.specialRequests) {
+    ticket.divider().command(bold(true)).line('NOTE:').command(bold(false)).text(order.specialRequests);
+  }
+
+  return ticket.divider('=').command(CUT).build();
+}
+
+/** A one-off page to check a printer is reachable and set up right. */
+export function renderTestTicket(printerName: string, columns = 42): Buffer {
+  return new TicketBuilder(columns)
+    .command(INIT)
+    .command(align('center'))
+    .command(bold(true))
+    .text(printerName)
+    .command(bold(false))
+    .line('Test print')
+    .command(align('left'))
+    .divider()
+    .line('0123456789'.repeat(Math.ceil(columns / 10)).slice(0, columns))
+    .command(inverse(true))
+    .text('Inverse print', { fill: true })
+    .command(inverse(false))
+    .divider('=')
+    .command(CUT)
+    .build();
+}
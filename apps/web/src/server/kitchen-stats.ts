@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import { prisma, Prisma } from '@hospity/db';
+import type { KitchenShift, TenantSettings } from '@/types/menu';
+import type { KitchenStats } from '@/types/kitchen-stats';
+import { parseTime, zonedParts, zonedTimeToUtc } from './scheduling';
+
+const MINUTE = 60_000;
+const MAX_RANGE_DAYS = 92;
+
+// Used when the tenant has not named its own shifts
+const DEFAULT_SHIFTS: KitchenShift[] = [
+  { name: 'breakfast', start: '06:00', end: '11:00' },
+  { name: 'lunch', start: '11:00', end: '16:00' },
+  { name: 'dinner', start: '16:00', end: '00:00' },
+];
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+export const kitchenStatsQuerySchema = z
+  .object({
+    // Days in the tenant's timezone, both inclusive; today when omitted
+    from: isoDay.optional(),
+    to: isoDay.optional(),
+    shift: z.string().optional(),
+    station: z.string().optional(),
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: '`from` must not be after `to`',
+  });
+
+export type KitchenStatsQuery = z.infer<typeof kitchenStatsQuerySchema>;
+
+export class KitchenStatsError extends Error {
+  constructor(
+    public readonly code: 'UNKNOWN_SHIFT' | 'RANGE_TOO_LONG',
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'KitchenStatsError';
+  }
+}
+
+const round = (minutes: number | null) => Math.round((minutes ?? 0) * 10) / 10;
+
+function dayStart(date: string, timeZone: string): Date {
+  const [year, month, dayOfMonth] = date.split('-').map(Number);
+  return zonedTimeToUtc(year, month, dayOfMonth, 0, timeZone);
+}
+
+function today(timeZone: string): string {
+  const { year, month, day } = zonedParts(new Date(), timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Raw rows from the aggregate queries below; Postgres does the sums
+interface TicketRow {
+  completed: number;
+  avg: number | null;
+  p50: number | null;
+  p90: number | null;
+}
+
+interface ItemRow {
+  menuItemId: string;
+  name: string;
+  count: number;
+  avg: number;
+  p90: number;
+}
+
+const ACTIVE_STATUSES = ['new', 'accepted', 'preparing'];
+
+async function getLiveCounts(tenantId: string, station: string | undefined, now: Date) {
+  const where = {
+    tenantId,
+    OR: [{ fireAt: null }, { fireAt: { lte: now } }],
+    // A station only counts orders it still has work on
+    ...(station && {
+      items: { some: { station, voidedAt: null, status: { notIn: ['ready', 'served'] } } },
+    }),
+  };
+
+  const [activeOrders, pendingOrders, overdueOrders] = await Promise.all([
+    prisma.order.count({ where: { ...where, status: { in: ['accepted', 'preparing'] } } }),
+    prisma.order.count({ where: { ...where, status: 'new' } }),
+    prisma.order.count({ where: { ...where, status: { in: ACTIVE_STATUSES }, promisedAt: { lt: now } } }),
+  ]);
+  return { activeOrders, pendingOrders, overdueOrders };
+}
+
+/** SQL condition for orders placed during `shift`, by the tenant's wall clock. */
+function shiftFilter(shift: KitchenShift | undefined, timeZone: string): Prisma.Sql {
+  if (!shift) return Prisma.empty;
+
+  const local = Prisma.sql`(o."createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}`;
+  const minutes = Prisma.sql`(EXTRACT(HOUR FROM ${local}) * 60 + EXTRACT(MINUTE FROM ${local}))`;
+  const start = parseTime(shift.start);
+  const end = parseTime(shift.end);
+  // Overnight shifts wrap past midnight
+  return start <= end
+    ? Prisma.sql`AND ${minutes} >= ${start} AND ${minutes} < ${end}`
+    : Prisma.sql`AND (${minutes} >= ${start} OR ${minutes} < ${end})`;
+}
+
+/**
+ * Kitchen stats for a range of days in the tenant's timezone, optionally
+ * narrowed to orders placed during one shift and to one station's items.
+ * Counts, averages and percentiles are worked out in the database, so a long
+ * range does not load every order.
+ */
+export async function getKitchenStats(tenantId: string, query: KitchenStatsQuery): Promise<KitchenStats> {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+  const settings = (tenant?.settings ?? {}) as Partial<TenantSettings>;
+  const timeZone = settings.scheduling?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const shifts = settings.shifts?.length ? settings.shifts : DEFAULT_SHIFTS;
+  let shift: KitchenShift | undefined;
+  if (query.shift) {
+    shift = shifts.find(
+      entry => entry.name.toLowerCase() === query.shift!.toLowerCase()
+    );
+    if (!shift) {
+      throw new KitchenStatsError('UNKNOWN_SHIFT', `There is no "${query.shift}" shift`);
+    }
+  }
+
+  const fromDay = query.from ?? query.to ?? today(timeZone);
+  const toDay = query.to ?? query.from ?? fromDay;
+  const from = dayStart(fromDay, timeZone);
+  const to = dayStart(nextDay(toDay), timeZone);
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * MINUTE) {
+    throw new KitchenStatsError('RANGE_TOO_LONG', `Pick at most ${MAX_RANGE_DAYS} days`);
+  }
+
+  // Voided items were never cooked; a station only sees its own items
+  const items = Prisma.sql`
+    FROM "Order" o
+    JOIN "OrderItem" i ON i."orderId" = o."id"
+    WHERE o."tenantId" = ${tenantId}
+      AND o."createdAt" >= ${from} AND o."createdAt" < ${to}
+      AND o."status" <> 'cancelled'
+      AND i."voidedAt" IS NULL
+      ${query.station ? Prisma.sql`AND i."station" = ${query.station}` : Prisma.empty}
+      ${shiftFilter(shift, timeZone)}`;
+  const prepMinutes = Prisma.sql`EXTRACT(EPOCH FROM i."readyAt" - i."startedAt") / 60`;
+
+  const [live, [tickets], byItem] = await Promise.all([
+    getLiveCounts(tenantId, query.station, new Date()),
+    // Only whole tickets are timed: a half-bumped order would look quicker
+    // than it was. Percentiles are nearest-rank.
+    prisma.$queryRaw<TicketRow[]>`
+      WITH tickets AS (
+        SELECT o."status",
+          bool_and(i."startedAt" IS NOT NULL AND i."readyAt" IS NOT NULL) AS timed,
+          EXTRACT(EPOCH FROM MAX(i."readyAt") - MIN(i."startedAt")) / 60 AS minutes
+        ${items}
+        GROUP BY o."id", o."status"
+      )
+      SELECT
+        (COUNT(*) FILTER (WHERE "status" = 'completed'))::int AS completed,
+        (AVG(minutes) FILTER (WHERE timed))::float8 AS avg,
+        (percentile_disc(0.5) WITHIN GROUP (ORDER BY minutes) FILTER (WHERE timed))::float8 AS p50,
+        (percentile_disc(0.9) WITHIN GROUP (ORDER BY minutes) FILTER (WHERE timed))::float8 AS p90
+      FROM tickets`,
+    prisma.$queryRaw<ItemRow[]>`
+      SELECT i."menuItemId", MIN(i."name") AS name, COUNT(*)::int AS count,
+        AVG(${prepMinutes})::float8 AS avg,
+        (percentile_disc(0.9) WITHIN GROUP (ORDER BY ${prepMinutes}))::float8 AS p90
+      ${items}
+        AND i."startedAt" IS NOT NULL AND i."readyAt" IS NOT NULL
+      GROUP BY i."menuItemId"
+      ORDER BY avg DESC`,
+  ]);
+
+  return {
+    ...live,
+    completedToday: tickets.completed,
+    avgPrepTime: round(tickets.avg),
+    p50PrepTime: round(tickets.p50),
+    p90PrepTime: round(tickets.p90),
+    items: byItem.map(item => ({
+      menuItemId: item.menuItemId,
+      name: item.name,
+      count: item.count,
+      avgPrepTime: round(item.avg),
+      p90PrepTime: round(item.p90),
+    })),
+    shifts: shifts.map(entry => entry.name),
+    from: from.toISOString(),
+    to: to.toISOString(),
+  };
+}
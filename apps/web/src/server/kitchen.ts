@@ -0,0 +1,98 @@
+import { prisma } from '@hospity/db';
+import { KITCHEN_TAB_STATUSES, type KitchenTab } from '@/lib/kitchen-board';
+import { compareByPriority } from '@/lib/order-priority';
+import type { KitchenEvent, KitchenOrder } from '@/types/order';
+import { kitchenChannel, publishSequenced } from './realtime';
+
+const toIso = (date?: Date | string | null) => (date ? new Date(date).toISOString() : undefined);
+
+// Everything the kitchen card and guest tracking serializers read. Events
+// replace whole orders on screen, so every publisher loads orders with this.
+// The driver row also holds their access token, so only the contact is read.
+export const ORDER_INCLUDE = {
+  items: true,
+  driver: { select: { id: true, name: true, phone: true } },
+} as const;
+
+export function toKitchenOrder(order: any): KitchenOrder {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    tableNumber: order.tableNumber ?? undefined,
+    customerName: order.customerName ?? undefined,
+    orderType: order.orderType,
+    status: order.status,
+    priority: order.priority,
+    createdAt: toIso(order.createdAt)!,
+    acceptedAt: toIso(order.acceptedAt),
+    completedAt: toIso(order.completedAt),
+    estimatedCompletionTime: toIso(order.estimatedCompletionTime),
+    promisedAt: toIso(order.promisedAt),
+    totalEstimatedTime: order.totalEstimatedTime,
+    specialRequests: order.specialRequests ?? undefined,
+    allergyWarnings: order.allergyWarnings || [],
+    scheduledFor: toIso(order.scheduledFor),
+    fireAt: toIso(order.fireAt),
+    driverAssigned: order.driver
+      ? { id: order.driver.id, name: order.driver.name, phone: order.driver.phone }
+      : undefined,
+    remakeOf: order.remakeOfId ? { orderId: order.remakeOfId, orderNumber: order.remakeOfNumber } : undefined,
+    items: (order.items || []).map((item: any) => ({
+      id: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      modifiers: item.modifiers || [],
+      specialInstructions: item.specialInstructions ?? undefined,
+      allergens: item.allergens || [],
+      estimatedTime: item.estimatedTime,
+      status: item.status,
+      station: item.station ?? undefined,
+      course: item.course ?? undefined,
+      held: item.held || undefined,
+      firedAt: toIso(item.firedAt),
+      voided: item.voidedAt ? true : undefined,
+      voidReason: item.voidReason ?? undefined,
+      remakeReason: item.remakeReason ?? undefined,
+    })),
+  };
+}
+
+// Tabs that keep every past order; they load the latest rather than the oldest
+const HISTORY_TABS: KitchenTab[] = ['completed', 'all'];
+const TAB_LIMIT = 200;
+
+/**
+ * Orders for one kitchen tab. Pre-orders only join the other tabs once their
+ * fire time has passed; until then they are listed under `scheduled`, by fire
+ * time. The other tabs put the most urgent orders first.
+ */
+export async function listKitchenOrders(tenantId: string, tab: KitchenTab): Promise<KitchenOrder[]> {
+  const now = new Date();
+
+  const where =
+    tab === 'scheduled'
+      ? { tenantId, status: { notIn: ['completed', 'cancelled'] }, fireAt: { gt: now } }
+      : {
+          tenantId,
+          ...(KITCHEN_TAB_STATUSES[tab] ? { status: { in: KITCHEN_TAB_STATUSES[tab]! } } : {}),
+          OR: [{ fireAt: null }, { fireAt: { lte: now } }],
+        };
+
+  const orders = await prisma.order.findMany({
+    where,
+    include: ORDER_INCLUDE,
+    orderBy:
+      tab === 'scheduled'
+        ? { fireAt: 'asc' }
+        : { createdAt: HISTORY_TABS.includes(tab) ? 'desc' : 'asc' },
+    take: TAB_LIMIT,
+  });
+  const kitchenOrders = orders.map(toKitchenOrder);
+  return tab === 'scheduled' ? kitchenOrders : kitchenOrders.sort(compareByPriority);
+}
+
+/** Pushes an order change to every kitchen screen of the tenant. */
+export async function publishKitchenEvent(type: KitchenEvent['type'], order: any): Promise<void> {
+  const event: KitchenEvent = { type, order: toKitchenOrder(order) };
+  await publishSequenced(kitchenChannel(order.tenantId), event);
+}
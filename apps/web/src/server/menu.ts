@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { prisma, type Prisma } from '@hospity/db';
+import { add, fromMajor, multiply, toMajor } from '@hospity/utils';
+import { orderCategories, sortMenu } from '@/lib/menu-order';
+import type { MenuItem, OwnerMenu, TenantSettings } from '@/types/menu';
+
+const categoryName = z.string().trim().min(1).max(40);
+
+const modifierOptionSchema = z.object({
+  // Omitted for options added in this edit
+  id: z.string().optional(),
+  name: z.string().trim().min(1).max(60),
+  price: z.number().min(0),
+  allergens: z.array(z.string()).default([]),
+  // Left out when the option does not change the item's suitability
+  dietary: z.array(z.string()).optional(),
+});
+
+const modifierSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().trim().min(1).max(60),
+    type: z.enum(['single', 'multiple']),
+    required: z.boolean().default(false),
+    minSelections: z.number().int().min(0).optional(),
+    maxSelections: z.number().int().min(1).optional(),
+    parentOptionId: z.string().optional(),
+    options: z.array(modifierOptionSchema).min(1, 'Add at least one option'),
+  })
+  .refine(
+    modifier => !modifier.minSelections || !modifier.maxSelections || modifier.minSelections <= modifier.maxSelections,
+    { message: 'The minimum cannot be above the maximum', path: ['minSelections'] }
+  );
+
+export const menuItemSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(500).default(''),
+  price: z.number().min(0),
+  category: categoryName,
+  images: z.array(z.string().url()).max(8).default([]),
+  allergens: z.array(z.string()).default([]),
+  dietary: z.array(z.string()).default([]),
+  tags: z.array(z.string().trim().min(1).max(30)).default([]),
+  calories: z.number().int().min(0).nullable().optional(),
+  spiceLevel: z.number().int().min(0).max(5).nullable().optional(),
+  preparationTime: z.number().int().min(0).max(240),
+  course: z.enum(['drinks', 'starters', 'mains', 'dessert']).nullable().optional(),
+  cost: z.number().min(0).nullable().optional(),
+  // Replaces the item's groups; groups and options sent with an id are kept
+  modifiers: z.array(modifierSchema).default([]),
+});
+
+export const updateMenuItemSchema = menuItemSchema.partial();
+
+export const menuOrderSchema = z.object({
+  categories: z.array(categoryName).optional(),
+  // Every item in its new position; only the order within a category matters
+  itemIds: z.array(z.string()).optional(),
+});
+
+export const bulkPriceSchema = z.object({
+  itemIds: z.array(z.string()).min(1),
+  // percent: +10 raises by 10%; amount: adds to each price; set: one price for all
+  mode: z.enum(['percent', 'amount', 'set']),
+  value: z.number(),
+});
+
+export const categorySchema = z.object({ name: categoryName });
+
+export type MenuItemInput = z.infer<typeof menuItemSchema>;
+export type UpdateMenuItemInput = z.infer<typeof updateMenuItemSchema>;
+export type MenuOrderInput = z.infer<typeof menuOrderSchema>;
+export type BulkPriceInput = z.infer<typeof bulkPriceSchema>;
+type ModifierInput = z.infer<typeof modifierSchema>;
+
+export class MenuError extends Error {
+  constructor(
+    public readonly code: 'INVALID_PRICE' | 'CATEGORY_EXISTS' | 'CATEGORY_NOT_EMPTY' | 'UNKNOWN_ITEM',
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'MenuError';
+  }
+}
+
+const WITH_MODIFIERS = {
+  modifiers: { include: { options: { orderBy: { sortOrder: 'asc' } } }, orderBy: { sortOrder: 'asc' } },
+} as const;
+
+async function getSettings(tenantId: string) {
+  const tenant = await prisma.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { settings: true } });
+  return (tenant.settings ?? {}) as Partial<TenantSettings>;
+}
+
+async function saveCategoryOrder(tenantId: string, categories: string[]) {
+  const settings = await getSettings(tenantId);
+  await prisma.tenant.update({
+    where: { id: tenantId },
+    data: { settings: { ...settings, menuCategories: Array.from(new Set(categories)) } },
+  });
+}
+
+/**
+ * Brings an item's modifier groups in line with the editor: groups and
+ * options it no longer has are removed, the rest updated in place so carts
+ * and the kitchen's stock switches keep pointing at the same options.
+ */
+async function saveModifiers(tx: Prisma.TransactionClient, menuItemId: string, modifiers: ModifierInput[]) {
+  const existing = await tx.menuModifier.findMany({ where: { menuItemId }, include: { options: true } });
+  const keptIds = modifiers.map(modifier => modifier.id).filter((kept): kept is string => !!kept);
+  await tx.menuModifier.deleteMany({ where: { menuItemId, id: { notIn: keptIds } } });
+
+  for (const [index, { id, options, ...fields }] of modifiers.entries()) {
+    const data = {
+      ...fields,
+      minSelections: fields.minSelections ?? null,
+      maxSelections: fields.maxSelections ?? null,
+      parentOptionId: fields.parentOptionId ?? null,
+      sortOrder: index,
+    };
+    const current = existing.find(modifier => modifier.id === id);
+    const modifier = current
+      ? await tx.menuModifier.update({ where: { id: current.id }, data })
+      : await tx.menuModifier.create({ data: { ...data, menuItemId } });
+
+    const keptOptionIds = options.map(option => option.id).filter((kept): kept is string => !!kept);
+    if (current) {
+      await tx.modifierOption.deleteMany({ where: { modifierId: modifier.id, id: { notIn: keptOptionIds } } });
+    }
+    for (const [position, { id: optionId, ...option }] of options.entries()) {
+      // An empty list is neutral, and clears tags the option had before
+      const optionData = { ...option, dietary: option.dietary ?? [], sortOrder: position };
+      if (optionId && current?.options.some(entry => entry.id === optionId)) {
+        await tx.modifierOption.update({ where: { id: optionId }, data: optionData });
+      } else {
+        await tx.modifierOption.create({ data: { ...optionData, modifierId: modifier.id } });
+      }
+    }
+  }
+}
+
+const loadItem = (tx: Prisma.TransactionClient, menuItemId: string) =>
+  tx.menuItem.findUniqueOrThrow({ where: { id: menuItemId }, include: WITH_MODIFIERS }) as Promise<MenuItem>;
+
+/** Every item, sold out or not, with categories in guest order; empty categories included. */
+export async function getOwnerMenu(tenantId: string): Promise<OwnerMenu> {
+  const [items, settings] = await Promise.all([
+    prisma.menuItem.findMany({ where: { tenantId }, include: WITH_MODIFIERS }) as Promise<MenuItem[]>,
+    getSettings(tenantId),
+  ]);
+  const listed = settings.menuCategories ?? [];
+  return {
+    items: sortMenu(items, listed),
+    categories: Array.from(new Set([...listed, ...orderCategories(items, listed)])),
+  };
+}
+
+export async function createMenuItem(tenantId: string, input: MenuItemInput): Promise<MenuItem> {
+  const { modifiers, ...fields } = input;
+  const last = await prisma.menuItem.findFirst({
+    where: { tenantId, category: fields.category },
+    orderBy: { sortOrder: 'desc' },
+    select: { sortOrder: true },
+  });
+
+  return prisma.$transaction(async tx => {
+    const item = await tx.menuItem.create({
+      data: { tenantId, ...fields, sortOrder: (last?.sortOrder ?? -1) + 1 },
+    });
+    await saveModifiers(tx, item.id, modifiers);
+    return loadItem(tx, item.id);
+  });
+}
+
+/** Returns null if the item does not belong to the tenant. */
+export async function updateMenuItem(
+  tenantId: string,
+  menuItemId: string,
+  input: UpdateMenuItemInput
+): Promise<MenuItem | null> {
+  const existing = await prisma.menuItem.findFirst({ where: { id: menuItemId, tenantId } });
+  if (!existing) return null;
+
+  const { modifiers, ...fields } = input;
+  let sortOrder = existing.sortOrder;
+  if (fields.category && fields.category !== existing.category) {
+    // A move to another category lands at its end
+    const last = await prisma.menuItem.findFirst({
+      where: { tenantId, category: fields.category },
+      orderBy: { sortOrder: 'desc' },
+      select: { sortOrder: true },
+    });
+    sortOrder = (last?.sortOrder ?? -1) + 1;
+  }
+
+  return prisma.$transaction(async tx => {
+    await tx.menuItem.update({ where: { id: menuItemId }, data: { ...fields, sortOrder } });
+    if (modifiers) await saveModifiers(tx, menuItemId, modifiers);
+    return loadItem(tx, menuItemId);
+  });
+}
+
+export async function deleteMenuItem(tenantId: string, menuItemId: string): Promise<boolean> {
+  const { count } = await prisma.menuItem.deleteMany({ where: { id: menuItemId, tenantId } });
+  return count === 1;
+}
+
+/** Saves the order of categories and of items within them, as dragged in the studio. */
+export async function reorderMenu(tenantId: string, input: MenuOrderInput): Promise<OwnerMenu> {
+  if (input.itemIds) {
+    await prisma.$transaction(
+      input.itemIds.map((id, index) =>
+        prisma.menuItem.updateMany({ where: { id, tenantId }, data: { sortOrder: index } })
+      )
+    );
+  }
+  if (input.categories) await saveCategoryOrder(tenantId, input.categories);
+  return getOwnerMenu(tenantId);
+}
+
+/** Changes several prices at once, rounded to the currency's smallest unit. */
+export async function bulkUpdatePrices(tenantId: string, input: BulkPriceInput): Promise<MenuItem[]> {
+  const [items, tenant] = await Promise.all([
+    prisma.menuItem.findMany({ where: { tenantId, id: { in: input.itemIds } }, select: { id: true, name: true, price: true } }),
+    prisma.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { currency: true } }),
+  ]);
+  if (items.length !== new Set(input.itemIds).size) {
+    throw new MenuError('UNKNOWN_ITEM', 'Some of the selected items no longer exist', 404);
+  }
+
+  const prices = items.map(item => {
+    const current = fromMajor(item.price, tenant.currency);
+    const next =
+      input.mode === 'percent'
+        ? multiply(current, 1 + input.value / 100)
+        : input.mode === 'amount'
+          ? add(current, fromMajor(input.value, tenant.currency))
+          : fromMajor(input.value, tenant.currency);
+    const price = toMajor(next);
+    if (price < 0) {
+      throw new MenuError('INVALID_PRICE', `That would make ${item.name} cost less than nothing`);
+    }
+    return { id: item.id, price };
+  });
+
+  await prisma.$transaction(
+    prices.map(({ id, price }) =>
+      prisma.menuItem.update({ where: { id }, data: { price } })
+    )
+  );
+  return (await prisma.menuItem.findMany({
+    where: { tenantId, id: { in: input.itemIds } },
+    include: WITH_MODIFIERS,
+  })) as MenuItem[];
+}
+
+/** Adds an empty category at the end of the menu. */
+export async function createCategory(tenantId: string, name: string): Promise<string[]> {
+  const { categories } = await getOwnerMenu(tenantId);
+  if (categories.includes(name)) {
+    throw new MenuError('CATEGORY_EXISTS', `There is already a "${name}" category`, 409);
+  }
+  await saveCategoryOrder(tenantId, [...categories, name]);
+  return [...categories, name];
+}
+
+/**
+ * Renames a category on its items and on the stations that cook it. Renaming
+ * onto an existing category merges the two. Returns null for unknown names.
+ */
+export async function renameCategory(tenantId: string, from: string, to: string): Promise<string[] | null> {
+  const { categories } = await getOwnerMenu(tenantId);
+  if (!categories.includes(from)) return null;
+
+  const stations = await prisma.kitchenStation.findMany({ where: { tenantId, categories: { has: from } } });
+  await prisma.$transaction([
+    prisma.menuItem.updateMany({ where: { tenantId, category: from }, data: { category: to } }),
+    ...stations.map(station =>
+      prisma.kitchenStation.update({
+        where: { id: station.id },
+        data: {
+          categories: Array.from(new Set(station.categories.map(category => (category === from ? to : category)))),
+        },
+      })
+    ),
+  ]);
+
+  const renamed = Array.from(new Set(categories.map(category => (category === from ? to : category))));
+  await saveCategoryOrder(tenantId, renamed);
+  return renamed;
+}
+
+/** Only empty categories can go; move or delete their items first. Returns null for unknown names. */
+export async function deleteCategory(tenantId: string, name: string): Promise<string[] | null> {
+  const { categories } = await getOwnerMenu(tenantId);
+  if (!categories.includes(name)) return null;
+
+  const items = await prisma.menuItem.count({ where: { tenantId, category: name } });
+  if (items > 0) {
+    throw new MenuError('CATEGORY_NOT_EMPTY', `"${name}" still has ${items} item${items === 1 ? '' : 's'}`, 409);
+  }
+  const remaining = categories.filter(category => category !== name);
+  await saveCategoryOrder(tenantId, remaining);
+  return remaining;
+}
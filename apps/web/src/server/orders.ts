@@ -0,0 +1,823 @@
+import { z } from 'zod';
+import { prisma, type Prisma } from '@hospity/db';
+import { allocate, fromMajor, multiply, subtract, sumMoney, toMajor } from '@hospity/utils';
+import { buildAllergyWarnings, dietaryProfileSchema } from '@/lib/dietary-profile';
+import { courseOf, firstCourses } from '@/lib/courses';
+import type { Course, MenuItem } from '@/types/menu';
+import { canRecall, canTransition, isFinalStatus, ORDER_TRANSITIONS, RECALL_WINDOW_MINUTES } from '@/lib/order-lifecycle';
+import type { OrderActor, OrderItemStatus, OrderStatus, OrderStatusChange } from '@/types/order';
+import {
+  pricingLineSchema,
+  verifyQuote,
+  type SignedPriceBreakdown,
+} from './pricing';
+import { ORDER_INCLUDE, publishKitchenEvent } from './kitchen';
+import { predictPrepMinutes, refreshEstimates } from './prep-time';
+import { checkSlot } from './scheduling';
+import { listStations, routeToStation } from './stations';
+import { kitchenReasonSchema, recordAdjustment } from './waste';
+import {
+  claimTableSession,
+  getTableSessionLines,
+  linkTableSessionOrder,
+  releaseTableSession,
+} from './table-sessions';
+import { generateDeliveryPin, generateTrackingToken, publishTrackingUpdate } from './tracking';
+
+export const orderLineSchema = pricingLineSchema.extend({
+  specialInstructions: z.string().max(500).optional(),
+});
+
+export const createOrderSchema = z.object({
+  customerInfo: z.object({
+    name: z.string().min(2),
+    email: z.string().email(),
+    phone: z.string().min(10),
+  }),
+  orderType: z.enum(['dine-in', 'takeaway', 'delivery']),
+  tableNumber: z.string().optional(),
+  deliveryAddress: z.string().optional(),
+  specialRequests: z.string().optional(),
+  dietaryProfile: dietaryProfileSchema.optional(),
+  items: z.array(orderLineSchema).min(1),
+  // Shared table cart; its lines replace `items` when set
+  tableSessionId: z.string().optional(),
+  // Pre-order for a pickup/delivery slot; omitted means as soon as possible
+  scheduledFor: z.string().datetime().optional(),
+  quote: z.object({ signature: z.string() }).passthrough(),
+});
+
+export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+
+// A remake or void; `quantity` remakes part of a line, e.g. one of three burgers
+export const adjustItemSchema = z.object({
+  reason: kitchenReasonSchema,
+  quantity: z.number().int().min(1).optional(),
+  note: z.string().trim().max(200).optional(),
+});
+
+export type AdjustItemInput = z.infer<typeof adjustItemSchema>;
+
+type OrderLine = z.infer<typeof orderLineSchema> & { dinerId?: string; dinerName?: string };
+
+type OrderWithItems = Prisma.OrderGetPayload<{ include: { items: true } }>;
+type OrderItemRow = OrderWithItems['items'][number];
+// What the kitchen and tracking publishers need
+type PublishableOrder = Prisma.OrderGetPayload<{ include: typeof ORDER_INCLUDE }>;
+
+export class OrderError extends Error {
+  constructor(
+    public readonly code:
+      | 'TABLE_ALREADY_SUBMITTED'
+      | 'EMPTY_ORDER'
+      | 'INVALID_SLOT'
+      | 'SLOT_FULL'
+      | 'ITEMS_NOT_READY'
+      | 'INVALID_TRANSITION'
+      | 'STATUS_CHANGED'
+      | 'OUT_FOR_DELIVERY'
+      | 'ORDER_CLOSED'
+      | 'COURSE_HELD'
+      | 'ITEM_VOIDED'
+      | 'NOT_RECALLABLE'
+      | 'INVALID_QUANTITY',
+    message: string,
+    public readonly status = 409,
+    // Extra fields for the error response, e.g. the allowed transitions
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'OrderError';
+  }
+}
+
+/**
+ * Takes the tenant's next order number. The counter is incremented in the
+ * database, so concurrent checkouts never get the same number.
+ */
+async function nextOrderNumber(tx: Prisma.TransactionClient, tenantId: string): Promise<string> {
+  const { orderSequence } = await tx.tenant.update({
+    where: { id: tenantId },
+    data: { orderSequence: { increment: 1 } },
+    select: { orderSequence: true },
+  });
+  return `ORD-${String(orderSequence).padStart(3, '0')}`;
+}
+
+/**
+ * Creates a kitchen order from a guest checkout. Totals always come from the
+ * server-side re-pricing, never from the submitted quote.
+ */
+export async function createOrder(tenantId: string, input: CreateOrderInput) {
+  const { tableSessionId } = input;
+  const lines: OrderLine[] | null = tableSessionId
+    ? await getTableSessionLines(tenantId, tableSessionId)
+    : input.items;
+  if (!lines) {
+    throw new OrderError('TABLE_ALREADY_SUBMITTED', "Your table's order has already been sent");
+  }
+  if (lines.length === 0) {
+    throw new OrderError('EMPTY_ORDER', 'The order is empty', 400);
+  }
+
+  const pricing = await verifyQuote(
+    tenantId,
+    { orderType: input.orderType, items: lines },
+    input.quote as unknown as SignedPriceBreakdown
+  );
+
+  const [menuItems, stations] = await Promise.all([
+    prisma.menuItem.findMany({
+      where: { tenantId, id: { in: pricing.lines.map(line => line.menuItemId) } },
+      include: { modifiers: { include: { options: true } } },
+    }) as Promise<MenuItem[]>,
+    listStations(tenantId),
+  ]);
+
+  // Orders are stored in decimal major units, like menu prices
+  const items = pricing.lines.map((line, index) => {
+    const menuItem = menuItems.find(m => m.id === line.menuItemId);
+    return {
+      menuItemId: line.menuItemId,
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: toMajor(line.unitPrice),
+      total: toMajor(line.lineTotal),
+      selectedModifiers: line.modifiers,
+      modifiers: line.modifierNames,
+      specialInstructions: lines[index].specialInstructions,
+      dinerId: lines[index].dinerId,
+      dinerName: lines[index].dinerName,
+      allergens: menuItem?.allergens ?? [],
+      estimatedTime: menuItem?.preparationTime ?? 0,
+      station: menuItem ? routeToStation(stations, menuItem) : null,
+      course: courseOf({ course: menuItem?.course }),
+      status: 'pending',
+    };
+  });
+
+  // Dine-in tables eat course by course; everything else cooks at once
+  const fireNow = firstCourses(items.map(item => item.course));
+  const orderItems = items.map(item => ({
+    ...item,
+    held: input.orderType === 'dine-in' && !fireNow.includes(item.course),
+  }));
+
+  // Scheduled orders reach the kitchen `totalEstimatedTime` before the slot
+  const scheduledFor = input.scheduledFor ? new Date(input.scheduledFor) : null;
+  const totalEstimatedTime = await predictPrepMinutes(tenantId, items, scheduledFor ?? undefined);
+  if (scheduledFor && input.orderType === 'dine-in') {
+    throw new OrderError('INVALID_SLOT', 'Dine-in orders cannot be scheduled', 400);
+  }
+
+  if (tableSessionId && !(await claimTableSession(tenantId, tableSessionId, input.customerInfo.name))) {
+    throw new OrderError('TABLE_ALREADY_SUBMITTED', "Your table's order has already been sent");
+  }
+
+  let order;
+  try {
+    order = await prisma.$transaction(async tx => {
+      // Taking the order number locks the tenant's row until commit, so two
+      // checkouts for the same slot are checked one after the other
+      const orderNumber = await nextOrderNumber(tx, tenantId);
+      if (scheduledFor) {
+        const slot = await checkSlot(tenantId, scheduledFor, items, tx);
+        if (slot === 'unknown') {
+          throw new OrderError('INVALID_SLOT', 'That time is not available for pre-orders', 400);
+        }
+        if (slot === 'full') {
+          throw new OrderError('SLOT_FULL', 'That time slot just filled up, please pick another');
+        }
+      }
+
+      return tx.order.create({
+        data: {
+          tenantId,
+          orderNumber,
+          trackingToken: generateTrackingToken(),
+          deliveryPin: input.orderType === 'delivery' ? generateDeliveryPin() : null,
+          orderType: input.orderType,
+          tableNumber: input.tableNumber || null,
+          deliveryAddress: input.deliveryAddress || null,
+          customerName: input.customerInfo.name,
+          customerEmail: input.customerInfo.email,
+          customerPhone: input.customerInfo.phone,
+          specialRequests: input.specialRequests || null,
+          currency: pricing.currency,
+          subtotal: toMajor(pricing.subtotal),
+          tax: toMajor(pricing.tax),
+          deliveryFee: toMajor(pricing.deliveryFee),
+          total: toMajor(pricing.total),
+          status: 'new',
+          priority: 'normal',
+          paymentStatus: 'pending',
+          totalEstimatedTime,
+          scheduledFor,
+          fireAt: scheduledFor && new Date(scheduledFor.getTime() - totalEstimatedTime * 60_000),
+          estimatedCompletionTime: scheduledFor,
+          statusHistory: {
+            create: { from: null, to: 'new', actorType: 'guest', actorName: input.customerInfo.name },
+          },
+          allergyWarnings: buildAllergyWarnings(
+            input.dietaryProfile,
+            pricing.lines.map(line => ({
+              menuItem: menuItems.find(m => m.id === line.menuItemId)!,
+              modifiers: line.modifiers,
+            }))
+          ),
+          items: { create: orderItems },
+        },
+        include: ORDER_INCLUDE,
+      });
+    });
+  } catch (error) {
+    // Let the table try again rather than leaving the session stuck
+    if (tableSessionId) await releaseTableSession(tableSessionId);
+    throw error;
+  }
+
+  if (tableSessionId) {
+    await linkTableSessionOrder(tableSessionId, order.id);
+  }
+  await publishKitchenEvent('order.created', order);
+
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    total: order.total,
+    trackingToken: order.trackingToken,
+  };
+}
+
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, string>> = {
+  accepted: 'acceptedAt',
+  preparing: 'preparingAt',
+  ready: 'readyAt',
+  completed: 'completedAt',
+  cancelled: 'cancelledAt',
+};
+
+// Item transitions are stamped for prep-time analytics
+const ITEM_STATUS_TIMESTAMPS: Partial<Record<OrderItemStatus, string>> = {
+  preparing: 'startedAt',
+  ready: 'readyAt',
+  served: 'servedAt',
+};
+
+const ITEM_STATUS_ORDER: OrderItemStatus[] = ['pending', 'preparing', 'ready', 'served'];
+
+// Delivery statuses before pick-up; the kitchen can still cancel these
+const ASSIGNED_DELIVERY = ['assigned', 'accepted'];
+
+// Voided items count as done: nobody is going to cook them
+const isItemDone = (item: OrderItemRow) => !!item.voidedAt || item.status === 'ready' || item.status === 'served';
+
+const stampStatus = <S extends string>(status: S, timestamps: Partial<Record<S, string>>, now = new Date()) => {
+  const field = timestamps[status];
+  return { status, ...(field ? { [field]: now } : {}) };
+};
+
+/** Moves items matching `where` forward to `status`; items already past it are left alone. */
+async function advanceItems(orderId: string, where: object, status: OrderItemStatus) {
+  const earlier = ITEM_STATUS_ORDER.slice(0, ITEM_STATUS_ORDER.indexOf(status));
+  await prisma.orderItem.updateMany({
+    where: { orderId, ...where, voidedAt: null, status: { in: earlier } },
+    data: stampStatus(status, ITEM_STATUS_TIMESTAMPS),
+  });
+}
+
+/**
+ * The next status an order's items imply: preparing once any item has
+ * started, ready once all are done. Follows the lifecycle one edge at a time,
+ * and null when nothing changes.
+ */
+function deriveOrderStatus(order: OrderWithItems): OrderStatus | null {
+  const status = order.status as OrderStatus;
+  if (isFinalStatus(status) || order.items.length === 0) return null;
+
+  if (order.items.every(isItemDone) && canTransition(status, 'ready')) return 'ready';
+  const started = order.items.some(item => item.status !== 'pending');
+  return started && canTransition(status, 'preparing') ? 'preparing' : null;
+}
+
+/**
+ * Any status change moves the kitchen queue, so estimates are refreshed
+ * first and the order goes out with its own new estimate.
+ */
+async function publishOrderChange(order: PublishableOrder): Promise<void> {
+  const estimates = await refreshEstimates(order.tenantId, order.id);
+  const estimate = estimates.get(order.id);
+  if (estimate) {
+    order.estimatedCompletionTime = estimate;
+    // A first estimate is also the promise the SLA measures against
+    order.promisedAt ??= estimate;
+  }
+  await Promise.all([publishTrackingUpdate(order), publishKitchenEvent('order.updated', order)]);
+}
+
+type TransitioningOrder = Pick<OrderWithItems, 'id' | 'tenantId' | 'orderNumber' | 'status'>;
+
+function assertTransition(order: TransitioningOrder, to: OrderStatus) {
+  if (!canTransition(order.status as OrderStatus, to)) {
+    throw new OrderError(
+      'INVALID_TRANSITION',
+      `Cannot move order ${order.orderNumber} from ${order.status} to ${to}`,
+      409,
+      { from: order.status, to, allowed: ORDER_TRANSITIONS[order.status as OrderStatus] }
+    );
+  }
+}
+
+/**
+ * Moves an order along one lifecycle edge, stamping the status timestamp and
+ * recording who did it. Throws for transitions the lifecycle does not allow.
+ */
+async function transitionOrder(order: TransitioningOrder, to: OrderStatus, actor: OrderActor) {
+  assertTransition(order, to);
+  return writeTransition(order, to, actor, stampStatus(to, STATUS_TIMESTAMPS));
+}
+
+/**
+ * Writes a status change checked against `order.status`. The write only
+ * applies while the order is still in that status, so a change made elsewhere
+ * since it was read is reported instead of overwritten.
+ */
+async function writeTransition(order: TransitioningOrder, to: OrderStatus, actor: OrderActor, data: object) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, tenantId: order.tenantId, status: order.status },
+      data,
+    });
+    if (count === 0) {
+      const latest = await tx.order.findUnique({ where: { id: order.id }, select: { status: true } });
+      throw new OrderError(
+        'STATUS_CHANGED',
+        `Order ${order.orderNumber} was changed on another screen`,
+        409,
+        { from: latest?.status ?? order.status, to }
+      );
+    }
+    await tx.orderStatusChange.create({
+      data: {
+        orderId: order.id,
+        from: order.status,
+        to,
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        actorName: actor.name ?? null,
+      },
+    });
+    return tx.order.findUniqueOrThrow({ where: { id: order.id }, include: ORDER_INCLUDE });
+  });
+}
+
+/**
+ * Marks a picked-up delivery delivered and completes the order in one
+ * transaction. Both only apply while the order is still with this driver,
+ * picked up and in the status it was read with, so a cancellation or
+ * reassignment in between is reported instead of overwritten.
+ */
+export async function completeDelivery(
+  order: TransitioningOrder & { driverId: string | null },
+  actor: OrderActor,
+  delivery: object
+): Promise<PublishableOrder> {
+  assertTransition(order, 'completed');
+
+  const completed = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, status: order.status, driverId: order.driverId, deliveryStatus: 'picked-up' },
+      data: { ...delivery, deliveryStatus: 'delivered', ...stampStatus('completed', STATUS_TIMESTAMPS) },
+    });
+    if (count === 0) {
+      throw new OrderError('STATUS_CHANGED', `Order ${order.orderNumber} was changed while out for delivery`);
+    }
+    await tx.orderStatusChange.create({
+      data: {
+        orderId: order.id,
+        from: order.status,
+        to: 'completed',
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        actorName: actor.name ?? null,
+      },
+    });
+    return tx.order.findUniqueOrThrow({ where: { id: order.id }, include: ORDER_INCLUDE });
+  });
+
+  await publishOrderChange(completed);
+  return completed;
+}
+
+/** Reloads an order after item changes, applies the derived status and publishes it. */
+async function syncOrderStatus(orderId: string) {
+  let order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: ORDER_INCLUDE,
+  });
+
+  // At most new -> preparing -> ready
+  for (let derived = deriveOrderStatus(order); derived; derived = deriveOrderStatus(order)) {
+    try {
+      order = await transitionOrder(order, derived, { type: 'system' });
+    } catch (error) {
+      if (!(error instanceof OrderError && error.code === 'STATUS_CHANGED')) throw error;
+      // Moved on another screen in the meantime; derive again from there
+      order = await prisma.order.findUniqueOrThrow({ where: { id: orderId }, include: ORDER_INCLUDE });
+    }
+  }
+
+  await publishOrderChange(order);
+  return order;
+}
+
+/**
+ * Moves an order to a new status if the lifecycle allows it, and pushes the
+ * change to the kitchen and anyone tracking the order. With `from`, the
+ * change is refused when the order is no longer in the status the caller
+ * saw. Returns null if the order does not belong to the tenant.
+ */
+export async function updateOrderStatus(
+  tenantId: string,
+  orderId: string,
+  status: OrderStatus,
+  actor: OrderActor,
+  from?: OrderStatus
+) {
+  const existing = await prisma.order.findFirst({ where: { id: orderId, tenantId }, include: { items: true } });
+  if (!existing) return null;
+
+  if (from && existing.status !== from) {
+    throw new OrderError(
+      'STATUS_CHANGED',
+      `Order ${existing.orderNumber} was changed on another screen`,
+      409,
+      { from: existing.status, to: status }
+    );
+  }
+  // Once the driver has the food it can only be delivered
+  if (status === 'cancelled' && existing.deliveryStatus && !ASSIGNED_DELIVERY.includes(existing.deliveryStatus)) {
+    throw new OrderError('OUT_FOR_DELIVERY', `Order ${existing.orderNumber} is already with the driver`);
+  }
+
+  assertTransition(existing, status);
+  if (status === 'ready') {
+    if (existing.items.some(item => item.held)) {
+      throw new OrderError('COURSE_HELD', 'Some courses have not been fired yet');
+    }
+    // The expo may only release an order once every station has finished
+    if (existing.items.some(item => item.station && !isItemDone(item))) {
+      throw new OrderError('ITEMS_NOT_READY', 'Some stations have not finished their items yet');
+    }
+    // Releasing the whole order finishes whatever items were not bumped
+    await advanceItems(orderId, {}, 'ready');
+  }
+  if (status === 'preparing') {
+    // Starting the whole order starts its fired items, so they are timed
+    await advanceItems(orderId, { held: false }, 'preparing');
+  }
+
+  const order = await transitionOrder(existing, status, actor);
+  await publishOrderChange(order);
+  return order;
+}
+
+async function findOpenOrder(tenantId: string, orderId: string) {
+  const order = await prisma.order.findFirst({ where: { id: orderId, tenantId } });
+  if (order && isFinalStatus(order.status)) {
+    throw new OrderError('ORDER_CLOSED', `Order ${order.orderNumber} is already ${order.status}`);
+  }
+  return order;
+}
+
+/**
+ * Moves one item forward and derives the order's status from its items.
+ * Items never move back; setting the current status again only re-derives.
+ * With `from`, the change is refused when the item is no longer in the
+ * status the caller saw. Returns null if the order or item does not belong
+ * to the tenant.
+ */
+export async function updateOrderItemStatus(
+  tenantId: string,
+  orderId: string,
+  itemId: string,
+  status: OrderItemStatus,
+  from?: OrderItemStatus
+) {
+  if (!(await findOpenOrder(tenantId, orderId))) return null;
+
+  const item = await prisma.orderItem.findFirst({ where: { id: itemId, orderId } });
+  if (!item) return null;
+  if (item.held) {
+    throw new OrderError('COURSE_HELD', `Fire the ${item.course} course before starting ${item.name}`);
+  }
+  if (item.voidedAt) {
+    throw new OrderError('ITEM_VOIDED', `${item.name} has been voided`);
+  }
+
+  const changed = (current: string) =>
+    new OrderError('STATUS_CHANGED', `${item.name} was changed on another screen`, 409, {
+      from: current,
+      to: status,
+    });
+  if (from && item.status !== from) throw changed(item.status);
+
+  const current = ITEM_STATUS_ORDER.indexOf(item.status as OrderItemStatus);
+  const next = ITEM_STATUS_ORDER.indexOf(status);
+  if (next < current) {
+    throw new OrderError('INVALID_TRANSITION', `${item.name} is already ${item.status}`, 409, {
+      from: item.status,
+      to: status,
+    });
+  }
+
+  if (next > current) {
+    // Only moves the item from the status read above, so a bump from
+    // another screen in between is reported instead of overwritten
+    const { count } = await prisma.orderItem.updateMany({
+      where: { id: itemId, status: item.status },
+      data: stampStatus(status, ITEM_STATUS_TIMESTAMPS),
+    });
+    if (count === 0) {
+      const latest = await prisma.orderItem.findUniqueOrThrow({ where: { id: itemId } });
+      throw changed(latest.status);
+    }
+  }
+  return syncOrderStatus(orderId);
+}
+
+/**
+ * Bumps every fired item routed to `station` on an order to ready. Returns
+ * null if the order does not belong to the tenant.
+ */
+export async function markStationReady(tenantId: string, orderId: string, station: string) {
+  if (!(await findOpenOrder(tenantId, orderId))) return null;
+
+  await advanceItems(orderId, { station, held: false }, 'ready');
+  return syncOrderStatus(orderId);
+}
+
+/**
+ * Sends a held course to the kitchen. Firing a course that is already
+ * cooking changes nothing. Returns null if the order does not belong to the
+ * tenant.
+ */
+export async function fireCourse(tenantId: string, orderId: string, course: Course) {
+  if (!(await findOpenOrder(tenantId, orderId))) return null;
+
+  const { count } = await prisma.orderItem.updateMany({
+    where: { orderId, course, held: true },
+    data: { held: false, firedAt: new Date() },
+  });
+  // The new course gets its own promise on the next estimate
+  if (count > 0) await prisma.order.update({ where: { id: orderId }, data: { promisedAt: null } });
+  return syncOrderStatus(orderId);
+}
+
+/**
+ * Puts a recently completed order back on the pass, e.g. when a dish comes
+ * back from the table, so items can be remade or voided. Returns null if the
+ * order does not belong to the tenant.
+ */
+export async function recallOrder(tenantId: string, orderId: string, actor: OrderActor) {
+  const existing = await prisma.order.findFirst({ where: { id: orderId, tenantId }, include: { items: true } });
+  if (!existing) return null;
+  if (!canRecall(existing)) {
+    throw new OrderError(
+      'NOT_RECALLABLE',
+      existing.status === 'completed'
+        ? `Only orders completed in the last ${RECALL_WINDOW_MINUTES} minutes can be recalled`
+        : `Order ${existing.orderNumber} is ${existing.status}, not completed`,
+      409,
+      { from: existing.status }
+    );
+  }
+
+  const order = await writeTransition(existing, 'ready', actor, { status: 'ready', completedAt: null });
+  await recordAdjustment({ tenantId, orderId, kind: 'recall', actor });
+  await publishOrderChange(order);
+  return order;
+}
+
+/**
+ * Takes some or all of an item off an open order with a reason: the voided
+ * quantity stays on the ticket but nobody cooks it, and it comes off the
+ * order's subtotal, tax and total. Voiding the last item cancels the order.
+ * Returns null if the order or item does not belong to the tenant.
+ */
+export async function voidOrderItem(
+  tenantId: string,
+  orderId: string,
+  itemId: string,
+  input: AdjustItemInput,
+  actor: OrderActor
+) {
+  const order = await findOpenOrder(tenantId, orderId);
+  if (!order) return null;
+
+  const item = await prisma.orderItem.findFirst({ where: { id: itemId, orderId } });
+  if (!item) return null;
+  if (item.voidedAt) {
+    throw new OrderError('ITEM_VOIDED', `${item.name} has already been voided`);
+  }
+  const quantity = input.quantity ?? item.quantity;
+  if (quantity > item.quantity) {
+    throw new OrderError('INVALID_QUANTITY', `Only ${item.quantity} ${item.name} were ordered`, 400);
+  }
+
+  const { currency } = order;
+  const unitPrice = fromMajor(item.unitPrice, currency);
+  const removed = multiply(unitPrice, quantity);
+  const subtotal = fromMajor(order.subtotal, currency);
+  const remaining = subtract(subtotal, removed);
+  // Tax comes off in proportion to the food it was charged on
+  const [tax] =
+    subtotal.amount > 0
+      ? allocate(fromMajor(order.tax, currency), [remaining.amount, removed.amount])
+      : [fromMajor(order.tax, currency)];
+  const total = sumMoney([remaining, tax, fromMajor(order.deliveryFee, currency)], currency);
+  const voided = { voidedAt: new Date(), voidReason: input.reason, held: false };
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    if (quantity === item.quantity) {
+      await tx.orderItem.update({ where: { id: itemId }, data: { ...voided, total: 0 } });
+    } else {
+      // A partial void splits the line: the rest is still cooked and charged
+      await tx.orderItem.update({
+        where: { id: itemId },
+        data: {
+          quantity: item.quantity - quantity,
+          total: toMajor(multiply(unitPrice, item.quantity - quantity)),
+        },
+      });
+      await tx.orderItem.create({
+        data: {
+          orderId,
+          menuItemId: item.menuItemId,
+          name: item.name,
+          quantity,
+          unitPrice: item.unitPrice,
+          total: 0,
+          selectedModifiers: item.selectedModifiers,
+          modifiers: item.modifiers,
+          specialInstructions: item.specialInstructions,
+          dinerId: item.dinerId,
+          dinerName: item.dinerName,
+          allergens: item.allergens,
+          estimatedTime: item.estimatedTime,
+          station: item.station,
+          course: item.course,
+          status: item.status,
+          startedAt: item.startedAt,
+          ...voided,
+        },
+      });
+    }
+    await tx.order.update({
+      where: { id: orderId },
+      data: { subtotal: toMajor(remaining), tax: toMajor(tax), total: toMajor(total) },
+    });
+  });
+  await recordAdjustment({ tenantId, orderId, kind: 'void', actor, item, quantity, reason: input.reason, note: input.note });
+
+  const updated = await prisma.order.findUniqueOrThrow({ where: { id: orderId }, include: ORDER_INCLUDE });
+  if (updated.items.every(entry => entry.voidedAt)) {
+    const cancelled = await transitionOrder(updated, 'cancelled', actor);
+    await publishOrderChange(cancelled);
+    return cancelled;
+  }
+  return syncOrderStatus(orderId);
+}
+
+/**
+ * Cooks an item again on a new ticket linked to its order, at no charge and
+ * at high priority. Works on completed orders too, for dishes sent back from
+ * the table. Returns the remake ticket, or null if the order or item does not
+ * belong to the tenant.
+ */
+export async function remakeOrderItem(
+  tenantId: string,
+  orderId: string,
+  itemId: string,
+  input: AdjustItemInput,
+  actor: OrderActor
+) {
+  const original = await prisma.order.findFirst({ where: { id: orderId, tenantId }, include: { items: true } });
+  if (!original) return null;
+  if (original.status === 'cancelled') {
+    throw new OrderError('ORDER_CLOSED', `Order ${original.orderNumber} is cancelled`);
+  }
+  const item = original.items.find(entry => entry.id === itemId);
+  if (!item) return null;
+  if (item.voidedAt) {
+    throw new OrderError('ITEM_VOIDED', `${item.name} has been voided`);
+  }
+  const quantity = input.quantity ?? item.quantity;
+  if (quantity > item.quantity) {
+    throw new OrderError('INVALID_QUANTITY', `Only ${item.quantity} ${item.name} were ordered`, 400);
+  }
+
+  const now = new Date();
+  const totalEstimatedTime = await predictPrepMinutes(tenantId, [{ ...item, status: 'pending' }], now);
+  const remake = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // Touching the original locks its row until commit, so concurrent
+    // remakes of the same order count their siblings one after the other
+    await tx.order.update({ where: { id: original.id }, data: { updatedAt: now } });
+    const remakes = await tx.order.count({ where: { remakeOfId: original.id } });
+
+    return tx.order.create({
+      data: {
+        tenantId,
+        orderNumber: `${original.orderNumber}-R${remakes + 1}`,
+        trackingToken: generateTrackingToken(),
+        remakeOfId: original.id,
+        remakeOfNumber: original.orderNumber,
+        orderType: original.orderType,
+        tableNumber: original.tableNumber,
+        deliveryAddress: original.deliveryAddress,
+        customerName: original.customerName,
+        customerEmail: original.customerEmail,
+        customerPhone: original.customerPhone,
+        specialRequests: input.note || null,
+        // The guest already paid for the dish
+        currency: original.currency,
+        subtotal: 0,
+        tax: 0,
+        deliveryFee: 0,
+        total: 0,
+        status: 'accepted',
+        acceptedAt: now,
+        priority: 'high',
+        paymentStatus: original.paymentStatus,
+        totalEstimatedTime,
+        allergyWarnings: original.allergyWarnings,
+        statusHistory: {
+          create: { from: null, to: 'accepted', actorType: actor.type, actorId: actor.id ?? null, actorName: actor.name ?? null },
+        },
+        items: {
+          create: {
+            menuItemId: item.menuItemId,
+            name: item.name,
+            quantity,
+            unitPrice: 0,
+            total: 0,
+            selectedModifiers: item.selectedModifiers,
+            modifiers: item.modifiers,
+            specialInstructions: item.specialInstructions,
+            dinerId: item.dinerId,
+            dinerName: item.dinerName,
+            allergens: item.allergens,
+            estimatedTime: item.estimatedTime,
+            station: item.station,
+            course: item.course,
+            held: false,
+            remakeReason: input.reason,
+            status: 'pending',
+          },
+        },
+      },
+      include: ORDER_INCLUDE,
+    });
+  });
+
+  await recordAdjustment({
+    tenantId,
+    orderId,
+    kind: 'remake',
+    actor,
+    item,
+    quantity,
+    reason: input.reason,
+    remakeOrderId: remake.id,
+    note: input.note,
+  });
+  const estimates = await refreshEstimates(tenantId, remake.id);
+  const estimate = estimates.get(remake.id);
+  if (estimate) {
+    remake.estimatedCompletionTime = estimate;
+    remake.promisedAt ??= estimate;
+  }
+  await publishKitchenEvent('order.created', remake);
+  return remake;
+}
+
+/** Who moved the order where, oldest first. Null if the order is not the tenant's. */
+export async function getOrderHistory(tenantId: string, orderId: string): Promise<OrderStatusChange[] | null> {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, tenantId },
+    include: { statusHistory: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!order) return null;
+
+  return order.statusHistory.map(change => ({
+    id: change.id,
+    from: change.from,
+    to: change.to,
+    actor: {
+      type: change.actorType,
+      id: change.actorId ?? undefined,
+      name: change.actorName ?? undefined,
+    },
+    createdAt: new Date(change.createdAt).toISOString(),
+  }));
+}
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { prisma, type Prisma } from '@hospity/db';
+import { fromMajor, multiply, toMajor, zero, type Money } from '@hospity/utils';
+import type { OrderType, TenantSettings } from '@/types/menu';
+import type { KPIData, OwnerOrder, OwnerOrderPage, SalesData, TimeRange } from '@/types/analytics';
+import type { OrderStatus } from '@/types/order';
+import { zonedParts, zonedTimeToUtc } from './scheduling';
+
+const RANGE_DAYS: Record<TimeRange, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+const timeRangeSchema = z.enum(['7d', '30d', '90d']).default('30d');
+
+export const analyticsQuerySchema = z.object({
+  range: timeRangeSchema,
+});
+
+export const ownerOrdersQuerySchema = z.object({
+  range: timeRangeSchema,
+  status: z.enum(['new', 'accepted', 'preparing', 'ready', 'completed', 'cancelled']).optional(),
+  orderType: z.enum(['dine-in', 'takeaway', 'delivery']).optional(),
+  // Order number, guest name or phone
+  search: z.string().trim().max(60).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type OwnerOrdersQuery = z.infer<typeof ownerOrdersQuerySchema>;
+
+// Cancelled orders earned nothing and remakes were already paid for
+const COUNTED_ORDERS = { status: { not: 'cancelled' }, remakeOfId: null };
+
+type OwnerOrderRow = Prisma.OrderGetPayload<{ include: { items: true } }>;
+
+function growth(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+function localDay(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function dayStart(date: string, timeZone: string): Date {
+  const [year, month, dayOfMonth] = date.split('-').map(Number);
+  return zonedTimeToUtc(year, month, dayOfMonth, 0, timeZone);
+}
+
+/**
+ * The range as whole days in the tenant's timezone, ending now, and the
+ * equally long period just before it for comparison.
+ */
+async function resolvePeriod(tenantId: string, range: TimeRange) {
+  const tenant = await prisma.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    select: { settings: true, currency: true },
+  });
+  const settings = (tenant.settings ?? {}) as Partial<TenantSettings>;
+  const timeZone = settings.scheduling?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const to = new Date();
+  const firstDay = addDays(localDay(to, timeZone), 1 - RANGE_DAYS[range]);
+  const from = dayStart(firstDay, timeZone);
+  const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()));
+  return { currency: tenant.currency, timeZone, firstDay, from, to, previousFrom };
+}
+
+/**
+ * Revenue, order count and distinct customers for one period, added up in
+ * the database rather than loading every order.
+ */
+async function summarize(tenantId: string, currency: string, from: Date, to: Date) {
+  const where = { tenantId, ...COUNTED_ORDERS, createdAt: { gte: from, lt: to } };
+  const [totals, customers] = await Promise.all([
+    prisma.order.aggregate({ where, _sum: { total: true }, _count: { _all: true } }),
+    prisma.order.groupBy({ by: ['customerPhone'], where: { ...where, customerPhone: { not: null } } }),
+  ]);
+
+  const revenue = fromMajor(totals._sum.total ?? 0, currency);
+  const orders = totals._count._all;
+  return {
+    revenue,
+    orders,
+    customers: customers.length,
+    averageOrderValue: orders === 0 ? zero(currency) : multiply(revenue, 1 / orders),
+  };
+}
+
+/** Headline numbers for the range, each compared with the period before. */
+export async function getKpis(tenantId: string, query: AnalyticsQuery): Promise<KPIData> {
+  const { currency, from, to, previousFrom } = await resolvePeriod(tenantId, query.range);
+  const [current, previous] = await Promise.all([
+    summarize(tenantId, currency, from, to),
+    summarize(tenantId, currency, previousFrom, from),
+  ]);
+
+  return {
+    totalRevenue: toMajor(current.revenue),
+    totalOrders: current.orders,
+    activeCustomers: current.customers,
+    averageOrderValue: toMajor(current.averageOrderValue),
+    revenueGrowth: growth(current.revenue.amount, previous.revenue.amount),
+    ordersGrowth: growth(current.orders, previous.orders),
+    customersGrowth: growth(current.customers, previous.customers),
+    aovGrowth: growth(current.averageOrderValue.amount, previous.averageOrderValue.amount),
+    from: from.toISOString(),
+    to: to.toISOString(),
+  };
+}
+
+/** Revenue and order count per day of the range, including days without orders. */
+export async function getSales(tenantId: string, query: AnalyticsQuery): Promise<SalesData[]> {
+  const { currency, timeZone, firstDay, from, to } = await resolvePeriod(tenantId, query.range);
+  // Grouped by the tenant's calendar day in the database, with the same
+  // filter as COUNTED_ORDERS
+  const totals = await prisma.$queryRaw<{ date: string; revenue: number; orders: number }[]>`
+    SELECT to_char(("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') AS date,
+      SUM("total")::float8 AS revenue,
+      COUNT(*)::int AS orders
+    FROM "Order"
+    WHERE "tenantId" = ${tenantId}
+      AND "createdAt" >= ${from} AND "createdAt" < ${to}
+      AND "status" <> 'cancelled' AND "remakeOfId" IS NULL
+    GROUP BY 1`;
+
+  const days = new Map<string, { date: string; revenue: Money; orders: number }>();
+  for (let i = 0; i < RANGE_DAYS[query.range]; i++) {
+    const date = addDays(firstDay, i);
+    days.set(date, { date, revenue: zero(currency), orders: 0 });
+  }
+  for (const total of totals) {
+    const entry = days.get(total.date);
+    if (!entry) continue;
+    entry.revenue = fromMajor(total.revenue, currency);
+    entry.orders = total.orders;
+  }
+  return Array.from(days.values()).map(entry => ({ ...entry, revenue: toMajor(entry.revenue) }));
+}
+
+function toOwnerOrder(order: OwnerOrderRow): OwnerOrder {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    customerName: order.customerName ?? '',
+    customerPhone: order.customerPhone ?? '',
+    items: order.items
+      .filter(item => !item.voidedAt)
+      .map(item => ({ name: item.name, quantity: item.quantity, price: item.unitPrice })),
+    total: order.total,
+    status: order.status as OrderStatus,
+    paymentStatus: order.paymentStatus as OwnerOrder['paymentStatus'],
+    orderType: order.orderType as OrderType,
+    tableNumber: order.tableNumber ?? undefined,
+    estimatedTime: order.totalEstimatedTime ?? undefined,
+    createdAt: new Date(order.createdAt).toISOString(),
+    updatedAt: new Date(order.updatedAt).toISOString(),
+  };
+}
+
+/** Orders placed in the range, newest first, one page at a time. */
+export async function listOwnerOrders(tenantId: string, query: OwnerOrdersQuery): Promise<OwnerOrderPage> {
+  const { from, to } = await resolvePeriod(tenantId, query.range);
+  const where = {
+    tenantId,
+    createdAt: { gte: from, lt: to },
+    ...(query.status && { status: query.status }),
+    ...(query.orderType && { orderType: query.orderType }),
+    ...(query.search && {
+      OR: ['orderNumber', 'customerName', 'customerPhone'].map(field => ({
+        [field]: { contains: query.search, mode: 'insensitive' },
+      })),
+    }),
+  };
+
+  const [orders, total] = await Promise.all([
+    prisma.order.findMany({
+      where,
+      include: { items: true },
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+    prisma.order.count({ where }),
+  ]);
+  return { orders: orders.map(toOwnerOrder), total, page: query.page, pageSize: query.pageSize };
+}
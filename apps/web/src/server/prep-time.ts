@@ -0,0 +1,227 @@
+import { prisma } from '@hospity/db';
+import type { SchedulingSettings } from '@/types/menu';
+import { ORDER_INCLUDE, publishKitchenEvent } from './kitchen';
+import { publishTrackingUpdate } from './tracking';
+
+const MINUTE = 60_000;
+const HISTORY_DAYS = 28;
+const MAX_SAMPLES = 5000;
+// Enough samples before history overrides the menu's preparation time
+const MIN_ITEM_SAMPLES = 3;
+const MIN_HOUR_SAMPLES = 10;
+// Bumps this late were forgotten, not slow cooking
+const MAX_PLAUSIBLE_MINUTES = 180;
+// How many tickets a station works on at once
+const STATION_CONCURRENCY = 3;
+const STATS_TTL = 10 * MINUTE;
+
+const ACTIVE_STATUSES = ['new', 'accepted', 'preparing'];
+const ESTIMATED_STATUSES = ['accepted', 'preparing'];
+
+interface PrepStats {
+  // Median minutes from started to ready, per menu item
+  byItem: Map<string, number>;
+  // Multiplier per hour of the tenant's day; the lunch rush runs slower
+  hourFactors: number[];
+  timeZone?: string;
+}
+
+interface PredictableItem {
+  menuItemId: string;
+  estimatedTime: number;
+  station?: string | null;
+  status?: string;
+  startedAt?: Date | string | null;
+}
+
+const globalForPrepTime = globalThis as unknown as {
+  prepStats?: Map<string, { stats: PrepStats; expiresAt: number }>;
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const hourFormatter = (timeZone?: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' });
+
+function groupBy<T>(values: T[], key: (value: T) => string | number) {
+  const groups = new Map<string | number, T[]>();
+  for (const value of values) {
+    const group = groups.get(key(value));
+    if (group) group.push(value);
+    else groups.set(key(value), [value]);
+  }
+  return groups;
+}
+
+async function loadPrepStats(tenantId: string): Promise<PrepStats> {
+  const [tenant, items] = await Promise.all([
+    prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } }),
+    prisma.orderItem.findMany({
+      where: {
+        order: { tenantId },
+        startedAt: { gte: new Date(Date.now() - HISTORY_DAYS * 24 * 60 * MINUTE) },
+        readyAt: { not: null },
+      },
+      select: { menuItemId: true, startedAt: true, readyAt: true },
+      orderBy: { readyAt: 'desc' },
+      take: MAX_SAMPLES,
+    }),
+  ]);
+  const timeZone = (tenant?.settings as { scheduling?: SchedulingSettings } | undefined)?.scheduling?.timezone;
+  const formatter = hourFormatter(timeZone);
+
+  const samples = items
+    // Both times are set: the query only loads items that have them
+    .map(item => ({
+      menuItemId: item.menuItemId,
+      hour: Number(formatter.format(item.startedAt!)),
+      minutes: (item.readyAt!.getTime() - item.startedAt!.getTime()) / MINUTE,
+    }))
+    .filter(sample => sample.minutes > 0 && sample.minutes <= MAX_PLAUSIBLE_MINUTES);
+
+  const byItem = new Map<string, number>();
+  groupBy(samples, sample => sample.menuItemId).forEach((group, menuItemId) => {
+    if (group.length >= MIN_ITEM_SAMPLES) {
+      byItem.set(menuItemId as string, median(group.map(sample => sample.minutes)));
+    }
+  });
+
+  // Compare each sample with its item's usual time, so the hour's factor
+  // does not depend on which dishes happen to be ordered then
+  const hourFactors = Array<number>(24).fill(1);
+  const relative = samples.filter(sample => byItem.has(sample.menuItemId));
+  groupBy(relative, sample => sample.hour).forEach((group, hour) => {
+    if (group.length >= MIN_HOUR_SAMPLES) {
+      const factor = median(group.map(sample => sample.minutes / byItem.get(sample.menuItemId)!));
+      hourFactors[hour as number] = Math.min(1.5, Math.max(0.8, factor));
+    }
+  });
+
+  return { byItem, hourFactors, timeZone };
+}
+
+async function getPrepStats(tenantId: string): Promise<PrepStats> {
+  if (!globalForPrepTime.prepStats) {
+    globalForPrepTime.prepStats = new Map();
+  }
+  const cached = globalForPrepTime.prepStats.get(tenantId);
+  if (cached && cached.expiresAt > Date.now()) return cached.stats;
+
+  const stats = await loadPrepStats(tenantId);
+  globalForPrepTime.prepStats.set(tenantId, { stats, expiresAt: Date.now() + STATS_TTL });
+  return stats;
+}
+
+/** Minutes of cooking left on an item: none once done, less once started. */
+function remainingMinutes(stats: PrepStats, item: PredictableItem, at: Date, hourFactor: number): number {
+  if (item.status === 'ready' || item.status === 'served') return 0;
+
+  const expected = (stats.byItem.get(item.menuItemId) ?? item.estimatedTime) * hourFactor;
+  if (item.status !== 'preparing' || !item.startedAt) return expected;
+
+  // Running over still leaves a minute; it is not ready until it is bumped
+  const elapsed = (at.getTime() - new Date(item.startedAt).getTime()) / MINUTE;
+  return Math.max(1, expected - elapsed);
+}
+
+/** The longest remaining item per station; stations cook in parallel. */
+function stationWork(stats: PrepStats, items: PredictableItem[], at: Date): Map<string, number> {
+  const hourFactor = stats.hourFactors[Number(hourFormatter(stats.timeZone).format(at))];
+  const work = new Map<string, number>();
+  for (const item of items) {
+    const station = item.station ?? '';
+    work.set(station, Math.max(work.get(station) ?? 0, remainingMinutes(stats, item, at, hourFactor)));
+  }
+  return work;
+}
+
+/**
+ * How long the kitchen usually takes to cook these items from scratch, at
+ * `at` o'clock, ignoring the queue. Falls back to the menu's preparation
+ * times for dishes without enough history.
+ */
+export async function predictPrepMinutes(tenantId: string, items: PredictableItem[], at = new Date()) {
+  const stats = await getPrepStats(tenantId);
+  return Math.ceil(Math.max(0, ...Array.from(stationWork(stats, items, at).values())));
+}
+
+/**
+ * Re-estimates when every accepted order will be ready, given the queue in
+ * front of it. Orders are worked first come, first served: an order waits for
+ * the work ahead of it at each of its stations, shared over the few tickets a
+ * station handles at once, then takes its own longest item there.
+ *
+ * Changed estimates are saved and pushed to the kitchen and guests, except
+ * for `skipPublish`, whose caller publishes it. Returns the new estimates.
+ */
+export async function refreshEstimates(tenantId: string, skipPublish?: string): Promise<Map<string, Date>> {
+  const now = new Date();
+  const [stats, orders] = await Promise.all([
+    getPrepStats(tenantId),
+    prisma.order.findMany({
+      where: {
+        tenantId,
+        status: { in: ACTIVE_STATUSES },
+        OR: [{ fireAt: null }, { fireAt: { lte: now } }],
+      },
+      include: ORDER_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const backlog = new Map<string, number>();
+  const changed = new Map<string, Date>();
+  const updates: typeof orders = [];
+
+  for (const order of orders) {
+    let minutes = 0;
+    // Held courses and voided items are not cooking and hold nobody up
+    const fired = order.items.filter(item => !item.held && !item.voidedAt);
+    stationWork(stats, fired, now).forEach((own, station) => {
+      const ahead = backlog.get(station) ?? 0;
+      minutes = Math.max(minutes, ahead / STATION_CONCURRENCY + own);
+      backlog.set(station, ahead + own);
+    });
+
+    // Guests only get a time once the kitchen has taken the order
+    if (!ESTIMATED_STATUSES.includes(order.status)) continue;
+
+    let estimate = new Date(now.getTime() + Math.ceil(minutes) * MINUTE);
+    if (order.scheduledFor && new Date(order.scheduledFor) > estimate) {
+      estimate = new Date(order.scheduledFor);
+    }
+    // The first estimate after the kitchen takes the order is what the SLA
+    // holds it to; later estimates only move the displayed time
+    const promise = !order.promisedAt;
+    if (promise) order.promisedAt = estimate;
+
+    const previous = order.estimatedCompletionTime ? new Date(order.estimatedCompletionTime).getTime() : null;
+    // Minute-level jitter is not worth a push to every screen
+    if (!promise && previous !== null && Math.abs(previous - estimate.getTime()) < MINUTE) continue;
+
+    changed.set(order.id, estimate);
+    order.estimatedCompletionTime = estimate;
+    updates.push(order);
+  }
+
+  if (updates.length === 0) return changed;
+
+  await prisma.$transaction(
+    updates.map(order =>
+      prisma.order.update({
+        where: { id: order.id },
+        data: { estimatedCompletionTime: order.estimatedCompletionTime, promisedAt: order.promisedAt },
+      })
+    )
+  );
+  await Promise.all(
+    updates
+      .filter(order => order.id !== skipPublish)
+      .map(order => Promise.all([publishTrackingUpdate(order), publishKitchenEvent('order.updated', order)]))
+  );
+  return changed;
+}
@@ -0,0 +1,249 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import {
+  add,
+  formatMoney,
+  fromMajor,
+  isLessThan,
+  moneyEquals,
+  multiply,
+  sumMoney,
+  zero,
+  type Money,
+} from '@hospity/utils';
+import { isAvailable, unavailableParts } from '@/lib/menu-availability';
+import { validateModifiers } from '@/lib/modifier-rules';
+import type { MenuItem, OrderType, TenantSettings } from '@/types/menu';
+
+const QUOTE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+// Only ids, quantities and the order type are trusted from the client;
+// every price is re-resolved from the database.
+export const pricingLineSchema = z.object({
+  menuItemId: z.string(),
+  quantity: z.number().int().min(1).max(99),
+  modifiers: z.record(z.array(z.string())),
+});
+
+export const pricingRequestSchema = z.object({
+  orderType: z.enum(['dine-in', 'takeaway', 'delivery']),
+  items: z.array(pricingLineSchema).min(1),
+});
+
+export type PricingLine = z.infer<typeof pricingLineSchema>;
+export type PricingRequest = z.infer<typeof pricingRequestSchema>;
+
+export interface PricedLine {
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  modifiers: { [modifierId: string]: string[] };
+  modifierNames: string[];
+  unitPrice: Money;
+  lineTotal: Money;
+}
+
+export interface PriceBreakdown {
+  tenantId: string;
+  orderType: OrderType;
+  currency: string;
+  locale: string;
+  lines: PricedLine[];
+  subtotal: Money;
+  tax: Money;
+  deliveryFee: Money;
+  total: Money;
+  minimumOrder: Money;
+  belowMinimum: boolean;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface SignedPriceBreakdown extends PriceBreakdown {
+  signature: string;
+}
+
+export type PricingErrorCode =
+  | 'TENANT_NOT_FOUND'
+  | 'ITEM_NOT_FOUND'
+  | 'ITEM_UNAVAILABLE'
+  | 'INVALID_MODIFIER'
+  | 'INVALID_QUOTE'
+  | 'QUOTE_EXPIRED'
+  | 'PRICE_CHANGED'
+  | 'BELOW_MINIMUM';
+
+export class PricingError extends Error {
+  constructor(
+    public readonly code: PricingErrorCode,
+    message: string,
+    public readonly status = 422
+  ) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+function getPricingSecret(): string {
+  const secret = process.env.PRICING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('PRICING_SECRET or NEXTAUTH_SECRET must be set to sign price quotes');
+  }
+  return secret;
+}
+
+// Key order is not preserved through client round-trips and zod parsing,
+// so sign a canonical form with sorted keys.
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+function signBreakdown(breakdown: PriceBreakdown): string {
+  return createHmac('sha256', getPricingSecret())
+    .update(JSON.stringify(canonicalize(breakdown)))
+    .digest('hex');
+}
+
+function priceLine(menuItem: MenuItem, line: PricingLine, currency: string): PricedLine {
+  const errors = validateModifiers(menuItem, line.modifiers);
+  if (errors) {
+    throw new PricingError('INVALID_MODIFIER', `${menuItem.name}: ${Object.values(errors)[0]}`);
+  }
+
+  const modifierNames: string[] = [];
+  let unitPrice = fromMajor(menuItem.price, currency);
+
+  // Selection has been validated above, so every group and option resolves
+  for (const modifier of menuItem.modifiers) {
+    for (const optionId of line.modifiers[modifier.id] || []) {
+      const option = modifier.options.find(o => o.id === optionId)!;
+      unitPrice = add(unitPrice, fromMajor(option.price, currency));
+      modifierNames.push(option.name);
+    }
+  }
+
+  return {
+    menuItemId: menuItem.id,
+    name: menuItem.name,
+    quantity: line.quantity,
+    modifiers: line.modifiers,
+    modifierNames,
+    unitPrice,
+    lineTotal: multiply(unitPrice, line.quantity),
+  };
+}
+
+/**
+ * Prices a cart against the tenant's current menu and settings. Throws a
+ * PricingError when an item or modifier cannot be resolved.
+ */
+export async function priceOrder(tenantId: string, request: PricingRequest): Promise<PriceBreakdown> {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    throw new PricingError('TENANT_NOT_FOUND', 'Restaurant not found', 404);
+  }
+
+  const settings = tenant.settings as TenantSettings;
+  const menuItemIds = Array.from(new Set(request.items.map(item => item.menuItemId)));
+  const menuItems = (await prisma.menuItem.findMany({
+    where: { tenantId, id: { in: menuItemIds } },
+    include: { modifiers: { include: { options: true } } },
+  })) as MenuItem[];
+
+  const lines = request.items.map(line => {
+    const menuItem = menuItems.find(m => m.id === line.menuItemId);
+    if (!menuItem) {
+      throw new PricingError('ITEM_NOT_FOUND', `Menu item ${line.menuItemId} not found`);
+    }
+    if (!isAvailable(menuItem)) {
+      throw new PricingError('ITEM_UNAVAILABLE', `${menuItem.name} is no longer available`);
+    }
+    const soldOut = unavailableParts(menuItem, line.modifiers);
+    if (soldOut.length > 0) {
+      throw new PricingError('ITEM_UNAVAILABLE', `${menuItem.name}: ${soldOut.join(', ')} is sold out`);
+    }
+    return priceLine(menuItem, line, tenant.currency);
+  });
+
+  const subtotal = sumMoney(lines.map(line => line.lineTotal), tenant.currency);
+  const tax = multiply(subtotal, settings.taxRate || 0);
+  const deliveryFee = request.orderType === 'delivery'
+    ? fromMajor(settings.deliveryFee || 0, tenant.currency)
+    : zero(tenant.currency);
+  const minimumOrder = fromMajor(settings.minimumOrder || 0, tenant.currency);
+  const issuedAt = new Date();
+
+  return {
+    tenantId,
+    orderType: request.orderType,
+    currency: tenant.currency,
+    locale: tenant.locale,
+    lines,
+    subtotal,
+    tax,
+    deliveryFee,
+    total: add(add(subtotal, tax), deliveryFee),
+    minimumOrder,
+    belowMinimum: isLessThan(subtotal, minimumOrder),
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: new Date(issuedAt.getTime() + QUOTE_TTL_MS).toISOString(),
+  };
+}
+
+export async function quoteOrder(tenantId: string, request: PricingRequest): Promise<SignedPriceBreakdown> {
+  const breakdown = await priceOrder(tenantId, request);
+  return { ...breakdown, signature: signBreakdown(breakdown) };
+}
+
+/**
+ * Checks that a quote was issued by this server for this tenant and has not
+ * expired, then re-prices the cart and rejects it if any total has moved.
+ */
+export async function verifyQuote(
+  tenantId: string,
+  request: PricingRequest,
+  quote: SignedPriceBreakdown
+): Promise<PriceBreakdown> {
+  const { signature, ...breakdown } = quote;
+  const expected = Buffer.from(signBreakdown(breakdown), 'hex');
+  const received = Buffer.from(signature, 'hex');
+
+  if (
+    breakdown.tenantId !== tenantId ||
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new PricingError('INVALID_QUOTE', 'Price quote is invalid', 400);
+  }
+
+  if (new Date(breakdown.expiresAt).getTime() < Date.now()) {
+    throw new PricingError('QUOTE_EXPIRED', 'Price quote has expired, please review your order', 409);
+  }
+
+  const current = await priceOrder(tenantId, request);
+  if (
+    current.orderType !== breakdown.orderType ||
+    !moneyEquals(current.subtotal, breakdown.subtotal) ||
+    !moneyEquals(current.tax, breakdown.tax) ||
+    !moneyEquals(current.deliveryFee, breakdown.deliveryFee) ||
+    !moneyEquals(current.total, breakdown.total)
+  ) {
+    throw new PricingError('PRICE_CHANGED', 'Prices have changed, please review your order', 409);
+  }
+
+  if (current.belowMinimum) {
+    throw new PricingError('BELOW_MINIMUM', `Minimum order is ${formatMoney(current.minimumOrder, current.locale)}`);
+  }
+
+  return current;
+}
@@ -0,0 +1,184 @@
+import { createServer, type AddressInfo, type Server } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { KitchenOrder } from '@/types/order';
+import { renderKitchenTicket } from './escpos';
+import { drainPrintQueue, sendToPrinter } from './print-queue';
+
+// Just enough of the print job table for the queue's own queries
+const jobs = vi.hoisted(() => [] as any[]);
+const matches = (job: any, where: any) =>
+  Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (condition?.lt) return job[field] < condition.lt;
+    if (condition?.lte) return job[field] <= condition.lte;
+    return job[field] === condition;
+  });
+
+vi.mock('@hospity/db', () => ({
+  prisma: {
+    printJob: {
+      async findFirst({ where }: any) {
+        return jobs.find(job => matches(job, where)) ?? null;
+      },
+      async update({ where, data }: any) {
+        const job = jobs.find(entry => entry.id === where.id);
+        return Object.assign(job, data, { updatedAt: new Date() });
+      },
+      async updateMany({ where, data }: any) {
+        const matching = jobs.filter(job => matches(job, where));
+        matching.forEach(job => Object.assign(job, data, { updatedAt: new Date() }));
+        return { count: matching.length };
+      },
+    },
+  },
+}));
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+const order: KitchenOrder = {
+  id: 'order-1',
+  orderNumber: 'ORD-042',
+  tableNumber: '7',
+  orderType: 'dine-in',
+  status: 'accepted',
+  priority: 'normal',
+  createdAt: '2024-05-01T12:30:00.000Z',
+  totalEstimatedTime: 15,
+  allergyWarnings: [],
+  items: [
+    {
+      id: 'item-1',
+      name: 'Crème Brûlée',
+      quantity: 2,
+      modifiers: ['Extra berries'],
+      allergens: ['milk'],
+      estimatedTime: 10,
+      status: 'pending',
+    },
+  ],
+};
+
+/** A port 9100 printer on localhost that keeps every byte it is sent. */
+function fakePrinter(): Promise<{ server: Server; port: number; received: Buffer[] }> {
+  const received: Buffer[] = [];
+  const server = createServer(socket => {
+    const chunks: Buffer[] = [];
+    socket.on('data', chunk => chunks.push(chunk));
+    socket.on('end', () => {
+      received.push(Buffer.concat(chunks));
+      socket.end();
+    });
+  });
+  return new Promise(resolve =>
+    server.listen(0, '127.0.0.1', () =>
+      resolve({ server, port: (server.address() as AddressInfo).port, received })
+    )
+  );
+}
+
+/** A port nothing listens on, so connections are refused. */
+async function closedPort(): Promise<number> {
+  const { server, port } = await fakePrinter();
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+const servers: Server[] = [];
+
+beforeEach(() => {
+  jobs.length = 0;
+});
+
+afterEach(async () => {
+  clearTimeout((globalThis as { printQueueTimer?: ReturnType<typeof setTimeout> }).printQueueTimer);
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe('sendToPrinter', () => {
+  it('delivers the ESC/POS ticket byte for byte', async () => {
+    const printer = await fakePrinter();
+    servers.push(printer.server);
+    const ticket = renderKitchenTicket(order, { timeZone: 'UTC' })!;
+
+    await sendToPrinter('127.0.0.1', printer.port, ticket);
+
+    expect(printer.received).toHaveLength(1);
+    const bytes = printer.received[0];
+    expect(bytes.equals(ticket)).toBe(true);
+    // Initialise first, partial cut last
+    expect([...bytes.subarray(0, 2)]).toEqual([ESC, 0x40]);
+    expect([...bytes.subarray(-4)]).toEqual([GS, 0x56, 0x42, 0x03]);
+    // Plain ASCII only, with allergens in inverse print
+    const text = bytes.toString('latin1');
+    expect(text).toContain('2 x Creme Brulee');
+    expect(text).toContain('+ Extra berries');
+    expect(text).toContain(`${String.fromCharCode(GS, 0x42, 1)}   ALLERGENS: milk`);
+    expect(text).toContain('#ORD-042  12:30');
+  });
+
+  it('rejects when the printer cannot be reached', async () => {
+    await expect(sendToPrinter('127.0.0.1', await closedPort(), Buffer.from('x'))).rejects.toThrow();
+  });
+});
+
+describe('drainPrintQueue', () => {
+  const queue = (port: number) => {
+    const job = {
+      id: 'job-1',
+      status: 'queued',
+      attempts: 0,
+      lastError: null as string | null,
+      data: renderKitchenTicket(order)!,
+      nextAttemptAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      printer: { name: 'Pass', host: '127.0.0.1', port, enabled: true },
+    };
+    jobs.push(job);
+    return job;
+  };
+
+  it('prints queued jobs', async () => {
+    const printer = await fakePrinter();
+    servers.push(printer.server);
+    const job = queue(printer.port);
+
+    await drainPrintQueue();
+
+    expect(job).toMatchObject({ status: 'printed', attempts: 1, lastError: null });
+    expect(printer.received[0].equals(job.data)).toBe(true);
+  });
+
+  it('retries a failed job with backoff until the printer is back', async () => {
+    const port = await closedPort();
+    const job = queue(port);
+
+    const before = Date.now();
+    await drainPrintQueue();
+    expect(job.status).toBe('queued');
+    expect(job.attempts).toBe(1);
+    expect(job.lastError).toBeTruthy();
+    // Not retried at once: the first retry waits two seconds
+    expect(job.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2_000);
+
+    const printer = await fakePrinter();
+    servers.push(printer.server);
+    Object.assign(job.printer, { port: printer.port });
+    job.nextAttemptAt = new Date();
+    await drainPrintQueue();
+
+    expect(job).toMatchObject({ status: 'printed', attempts: 2, lastError: null });
+    expect(printer.received).toHaveLength(1);
+  });
+
+  it('gives up after five attempts', async () => {
+    const job = queue(await closedPort());
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      job.nextAttemptAt = new Date();
+      await drainPrintQueue();
+      expect(job.attempts).toBe(attempt);
+    }
+    expect(job.status).toBe('failed');
+  });
+});
@@ -0,0 +1,154 @@
+import { createConnection } from 'net';
+import { prisma } from '@hospity/db';
+import type { PrintJob } from '@/types/printer';
+
+const MAX_ATTEMPTS = 5;
+const CONNECT_TIMEOUT = 5_000;
+// A job left `printing` this long belongs to a worker that died mid-send
+const STALE_AFTER = 2 * 60_000;
+
+const globalForPrintQueue = globalThis as unknown as {
+  printQueueDraining?: Promise<void>;
+  printQueueRequested?: boolean;
+  printQueueTimer?: ReturnType<typeof setTimeout>;
+};
+
+// 2s, 4s, 8s, 16s between attempts
+const retryDelay = (attempts: number) => 1_000 * 2 ** attempts;
+
+const toIso = (date?: Date | string | null) => (date ? new Date(date).toISOString() : undefined);
+
+export function toPrintJob(job: any): PrintJob {
+  return {
+    id: job.id,
+    printerId: job.printerId,
+    orderId: job.orderId ?? undefined,
+    status: job.status,
+    attempts: job.attempts,
+    lastError: job.lastError ?? undefined,
+    createdAt: toIso(job.createdAt)!,
+    printedAt: toIso(job.printedAt),
+  };
+}
+
+/**
+ * Writes raw bytes to a port 9100 printer. The protocol has no
+ * acknowledgement, so a clean close is as close to "printed" as we can know.
+ */
+export function sendToPrinter(host: string, port: number, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection({ host, port });
+    socket.setTimeout(CONNECT_TIMEOUT, () => socket.destroy(new Error(`Printer at ${host}:${port} timed out`)));
+    socket.once('error', reject);
+    socket.once('connect', () => socket.end(data));
+    socket.once('close', hadError => {
+      if (!hadError) resolve();
+    });
+  });
+}
+
+async function processJob(job: any): Promise<void> {
+  // Claim it so another app instance draining the same table skips it
+  const { count } = await prisma.printJob.updateMany({
+    where: { id: job.id, status: 'queued' },
+    data: { status: 'printing' },
+  });
+  if (count === 0) return;
+
+  const attempts = job.attempts + 1;
+  try {
+    if (!job.printer.enabled) throw new Error('Printer is disabled');
+    await sendToPrinter(job.printer.host, job.printer.port, Buffer.from(job.data));
+    await prisma.printJob.update({
+      where: { id: job.id },
+      data: { status: 'printed', attempts, printedAt: new Date(), lastError: null },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const failed = attempts >= MAX_ATTEMPTS;
+    if (failed) {
+      console.error(`Print job ${job.id} to ${job.printer.name} failed after ${attempts} attempts:`, message);
+    }
+    await prisma.printJob.update({
+      where: { id: job.id },
+      data: {
+        status: failed ? 'failed' : 'queued',
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+      },
+    });
+  }
+}
+
+function scheduleNextDrain(at: Date) {
+  clearTimeout(globalForPrintQueue.printQueueTimer);
+  globalForPrintQueue.printQueueTimer = setTimeout(
+    () => void drainPrintQueue(),
+    Math.max(0, at.getTime() - Date.now())
+  );
+}
+
+async function drain(): Promise<void> {
+  await prisma.printJob.updateMany({
+    where: { status: 'printing', updatedAt: { lt: new Date(Date.now() - STALE_AFTER) } },
+    data: { status: 'queued' },
+  });
+
+  for (;;) {
+    const job = await prisma.printJob.findFirst({
+      where: { status: 'queued', nextAttemptAt: { lte: new Date() } },
+      include: { printer: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!job) break;
+    await processJob(job);
+  }
+
+  const next = await prisma.printJob.findFirst({
+    where: { status: 'queued' },
+    orderBy: { nextAttemptAt: 'asc' },
+    select: { nextAttemptAt: true },
+  });
+  if (next) scheduleNextDrain(next.nextAttemptAt);
+}
+
+/**
+ * Sends every due job, one at a time and oldest first, then sleeps until
+ * the next retry is due. A call during a drain runs one more pass after it,
+ * so jobs queued mid-drain are never left waiting for a timer.
+ */
+export function drainPrintQueue(): Promise<void> {
+  if (globalForPrintQueue.printQueueDraining) {
+    globalForPrintQueue.printQueueRequested = true;
+    return globalForPrintQueue.printQueueDraining;
+  }
+
+  globalForPrintQueue.printQueueDraining = drain()
+    .catch(error => console.error('Print queue error:', error))
+    .finally(() => {
+      globalForPrintQueue.printQueueDraining = undefined;
+      if (globalForPrintQueue.printQueueRequested) {
+        globalForPrintQueue.printQueueRequested = false;
+        void drainPrintQueue();
+      }
+    });
+  return globalForPrintQueue.printQueueDraining;
+}
+
+/** Queues tickets for printing and returns without waiting for the printers. */
+export async function enqueuePrintJobs(
+  tenantId: string,
+  jobs: { printerId: string; orderId?: string; data: Buffer }[]
+): Promise<PrintJob[]> {
+  const now = new Date();
+  const created = await prisma.$transaction(
+    jobs.map(job =>
+      prisma.printJob.create({
+        data: { tenantId, ...job, status: 'queued', attempts: 0, nextAttemptAt: now },
+      })
+    )
+  );
+  void drainPrintQueue();
+  return created.map(toPrintJob);
+}
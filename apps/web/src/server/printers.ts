@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import type { Printer, PrintJob } from '@/types/printer';
+import type { SchedulingSettings } from '@/types/menu';
+import { renderKitchenTicket, renderTestTicket } from './escpos';
+import { toKitchenOrder } from './kitchen';
+import { enqueuePrintJobs } from './print-queue';
+
+const PRINTER_PORT = 9100;
+
+/**
+ * Whether `host` is an IPv4 address on a private LAN (10/8, 172.16/12,
+ * 192.168/16). The server opens raw sockets to printers, so anything else,
+ * including hostnames and loopback, could aim it at other services.
+ */
+export function isPrivateLanAddress(host: string): boolean {
+  const octets = host.split('.');
+  if (octets.length !== 4 || !octets.every(octet => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) {
+    return false;
+  }
+  const [a, b] = octets.map(Number);
+  return a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+export const createPrinterSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  host: z
+    .string()
+    .trim()
+    .refine(isPrivateLanAddress, 'Enter the printer\'s IP address on your local network, e.g. 192.168.1.50'),
+  // Raw ESC/POS printing only ever uses port 9100
+  port: z.literal(PRINTER_PORT).default(PRINTER_PORT),
+  // Station slug; null prints every item
+  station: z.string().nullable().default(null),
+  columns: z.number().int().min(24).max(64).default(42),
+  enabled: z.boolean().default(true),
+});
+
+export const updatePrinterSchema = createPrinterSchema.partial();
+
+// Printers saved before addresses were restricted are never sent to
+const isReachable = (printer: { host: string; port: number }) =>
+  isPrivateLanAddress(printer.host) && printer.port === PRINTER_PORT;
+
+export type CreatePrinterInput = z.infer<typeof createPrinterSchema>;
+export type UpdatePrinterInput = z.infer<typeof updatePrinterSchema>;
+
+export class PrinterError extends Error {
+  constructor(
+    public readonly code: 'UNKNOWN_STATION' | 'ORDER_NOT_FOUND' | 'NO_PRINTERS' | 'INVALID_ADDRESS',
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'PrinterError';
+  }
+}
+
+function toPrinter(printer: any): Printer {
+  return {
+    id: printer.id,
+    name: printer.name,
+    host: printer.host,
+    port: printer.port,
+    station: printer.station ?? undefined,
+    columns: printer.columns,
+    enabled: printer.enabled,
+  };
+}
+
+async function assertStation(tenantId: string, station: string | null | undefined) {
+  if (!station) return;
+  const existing = await prisma.kitchenStation.findFirst({ where: { tenantId, slug: station } });
+  if (!existing) {
+    throw new PrinterError('UNKNOWN_STATION', `There is no "${station}" station`);
+  }
+}
+
+export async function listPrinters(tenantId: string): Promise<Printer[]> {
+  const printers = await prisma.printer.findMany({
+    where: { tenantId },
+    orderBy: { name: 'asc' },
+  });
+  return printers.map(toPrinter);
+}
+
+export async function createPrinter(tenantId: string, input: CreatePrinterInput): Promise<Printer> {
+  await assertStation(tenantId, input.station);
+  return toPrinter(await prisma.printer.create({ data: { tenantId, ...input } }));
+}
+
+/** Returns null if the printer does not belong to the tenant. */
+export async function updatePrinter(
+  tenantId: string,
+  printerId: string,
+  input: UpdatePrinterInput
+): Promise<Printer | null> {
+  const existing = await prisma.printer.findFirst({ where: { id: printerId, tenantId } });
+  if (!existing) return null;
+  await assertStation(tenantId, input.station);
+  return toPrinter(await prisma.printer.update({ where: { id: printerId }, data: input }));
+}
+
+export async function deletePrinter(tenantId: string, printerId: string): Promise<boolean> {
+  const { count } = await prisma.printer.deleteMany({ where: { id: printerId, tenantId } });
+  return count === 1;
+}
+
+/**
+ * Queues a ticket for every enabled printer that has something to print:
+ * station printers get only their station's items, the rest get the whole
+ * order.
+ */
+export async function printOrder(tenantId: string, orderId: string): Promise<PrintJob[]> {
+  const [order, printers, tenant] = await Promise.all([
+    prisma.order.findFirst({ where: { id: orderId, tenantId }, include: { items: true } }),
+    prisma.printer.findMany({ where: { tenantId, enabled: true } }),
+    prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } }),
+  ]);
+  if (!order) {
+    throw new PrinterError('ORDER_NOT_FOUND', 'Order not found', 404);
+  }
+
+  const kitchenOrder = toKitchenOrder(order);
+  const timeZone = (tenant?.settings as { scheduling?: SchedulingSettings } | undefined)?.scheduling?.timezone;
+
+  const jobs = printers.filter(isReachable).flatMap(printer => {
+    const data = renderKitchenTicket(kitchenOrder, {
+      columns: printer.columns,
+      station: printer.station ?? undefined,
+      timeZone,
+    });
+    return data ? [{ printerId: printer.id, orderId, data }] : [];
+  });
+  if (jobs.length === 0) {
+    throw new PrinterError('NO_PRINTERS', 'No printer is set up for this order', 409);
+  }
+  return enqueuePrintJobs(tenantId, jobs);
+}
+
+/** Returns null if the printer does not belong to the tenant. */
+export async function printTestTicket(tenantId: string, printerId: string): Promise<PrintJob | null> {
+  const printer = await prisma.printer.findFirst({ where: { id: printerId, tenantId } });
+  if (!printer) return null;
+  if (!isReachable(printer)) {
+    throw new PrinterError('INVALID_ADDRESS', `Set ${printer.name}'s IP address on your local network first`);
+  }
+
+  const [job] = await enqueuePrintJobs(tenantId, [
+    { printerId, data: renderTestTicket(printer.name, printer.columns) },
+  ]);
+  return job;
+}
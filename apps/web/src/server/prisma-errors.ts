@@ -0,0 +1,6 @@
+import { Prisma } from '@hospity/db';
+
+/** True when a write hit a unique constraint, i.e. another request won a race. */
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
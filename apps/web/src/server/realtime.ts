@@ -0,0 +1,154 @@
+import Redis from 'ioredis';
+
+type Handler = (payload: unknown) => void;
+
+const globalForRedis = globalThis as unknown as {
+  redisPublisher?: Redis;
+  redisSubscriber?: Redis;
+  redisHandlers?: Map<string, Set<Handler>>;
+};
+
+// Redis pub/sub fans events out across every app instance, so a kitchen
+// screen on one server reaches a guest connected to another.
+const createClient = () => new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+
+function getPublisher(): Redis {
+  if (!globalForRedis.redisPublisher) {
+    globalForRedis.redisPublisher = createClient();
+  }
+  return globalForRedis.redisPublisher;
+}
+
+function getHandlers(): Map<string, Set<Handler>> {
+  if (!globalForRedis.redisHandlers) {
+    globalForRedis.redisHandlers = new Map();
+  }
+  return globalForRedis.redisHandlers;
+}
+
+function getSubscriber(): Redis {
+  if (!globalForRedis.redisSubscriber) {
+    const subscriber = createClient();
+    subscriber.on('message', (channel: string, message: string) => {
+      const handlers = getHandlers().get(channel);
+      if (!handlers) return;
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(message);
+      } catch (error) {
+        console.error(`Invalid realtime message on ${channel}:`, error);
+        return;
+      }
+      handlers.forEach(handler => handler(payload));
+    });
+    globalForRedis.redisSubscriber = subscriber;
+  }
+  return globalForRedis.redisSubscriber;
+}
+
+export async function publish(channel: string, payload: unknown): Promise<void> {
+  try {
+    await getPublisher().publish(channel, JSON.stringify(payload));
+  } catch (error) {
+    // Realtime delivery is best-effort; the database write has already happened
+    console.error(`Failed to publish to ${channel}:`, error);
+  }
+}
+
+/**
+ * Subscribes to a channel and returns an unsubscribe function. One Redis
+ * connection is shared by every subscriber in the process.
+ */
+export function subscribe(channel: string, handler: Handler): () => void {
+  const handlers = getHandlers();
+  let channelHandlers = handlers.get(channel);
+
+  if (!channelHandlers) {
+    channelHandlers = new Set();
+    handlers.set(channel, channelHandlers);
+    getSubscriber().subscribe(channel).catch(error => {
+      console.error(`Failed to subscribe to ${channel}:`, error);
+    });
+  }
+  channelHandlers.add(handler);
+
+  return () => {
+    channelHandlers!.delete(handler);
+    if (channelHandlers!.size === 0) {
+      handlers.delete(channel);
+      getSubscriber().unsubscribe(channel).catch(() => {
+        // Connection already closed
+      });
+    }
+  };
+}
+
+export interface SequencedMessage<T = unknown> {
+  seq: number;
+  payload: T;
+}
+
+// Recent messages kept per sequenced channel so a reconnecting client can
+// catch up without a full reload
+const SEQUENCE_BACKLOG = 500;
+
+// Numbering, logging and publishing happen in one script so two app
+// instances can never publish the same sequence number or out of order.
+const PUBLISH_SEQUENCED_SCRIPT = `
+local seq = redis.call('INCR', KEYS[1])
+local message = '{"seq":' .. seq .. ',"payload":' .. ARGV[1] .. '}'
+redis.call('RPUSH', KEYS[2], message)
+redis.call('LTRIM', KEYS[2], -tonumber(ARGV[2]), -1)
+redis.call('PUBLISH', ARGV[3], message)
+return seq
+`;
+
+/**
+ * Publishes `{ seq, payload }` with a per-channel sequence number that
+ * increases by one per message, so subscribers can spot gaps.
+ */
+export async function publishSequenced(channel: string, payload: unknown): Promise<void> {
+  try {
+    await getPublisher().eval(
+      PUBLISH_SEQUENCED_SCRIPT,
+      2,
+      `${channel}:seq`,
+      `${channel}:log`,
+      JSON.stringify(payload),
+      SEQUENCE_BACKLOG,
+      channel
+    );
+  } catch (error) {
+    console.error(`Failed to publish to ${channel}:`, error);
+  }
+}
+
+/**
+ * Messages published on a sequenced channel after `afterSeq`. `missed` is
+ * null when some of them have already left the backlog and the client has to
+ * reload from scratch.
+ */
+export async function readSequencedSince(
+  channel: string,
+  afterSeq: number
+): Promise<{ seq: number; missed: SequencedMessage[] | null }> {
+  const publisher = getPublisher();
+  const [current, log] = await Promise.all([
+    publisher.get(`${channel}:seq`),
+    publisher.lrange(`${channel}:log`, 0, -1),
+  ]);
+  const seq = Number(current) || 0;
+  const messages = log.map(entry => JSON.parse(entry) as SequencedMessage);
+
+  if (afterSeq === seq) return { seq, missed: [] };
+  // A client ahead of the server means the counter was reset
+  if (afterSeq > seq || messages.length === 0 || messages[0].seq > afterSeq + 1) {
+    return { seq, missed: null };
+  }
+  return { seq, missed: messages.filter(message => message.seq > afterSeq) };
+}
+
+export const orderChannel = (orderId: string) => `order:${orderId}`;
+export const kitchenChannel = (tenantId: string) => `kitchen:${tenantId}`;
+export const menuChannel = (tenantId: string) => `menu:${tenantId}`;
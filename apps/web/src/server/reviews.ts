@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { prisma, type Prisma } from '@hospity/db';
+import type { TenantSettings } from '@/types/menu';
+import type { Review, ReviewableItem, ReviewStatus } from '@/types/review';
+import { isUniqueViolation } from './prisma-errors';
+import { findOrderByTrackingToken } from './tracking';
+
+export const submitReviewSchema = z.object({
+  menuItemId: z.string(),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export const moderateReviewSchema = z.object({
+  status: z.enum(['published', 'hidden']).optional(),
+  reply: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type SubmitReviewInput = z.infer<typeof submitReviewSchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
+
+export class ReviewError extends Error {
+  constructor(
+    public readonly code:
+      | 'REVIEWS_DISABLED'
+      | 'ORDER_NOT_FOUND'
+      | 'ORDER_NOT_COMPLETED'
+      | 'ITEM_NOT_IN_ORDER'
+      | 'ALREADY_REVIEWED',
+    message: string,
+    public readonly status = 422
+  ) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+const toIso = (date?: Date | string | null) => (date ? new Date(date).toISOString() : undefined);
+
+const WITH_ITEM_NAME = { menuItem: { select: { name: true } } } as const;
+
+type ReviewRow = Prisma.ReviewGetPayload<{ include: typeof WITH_ITEM_NAME }>;
+
+function toReview(review: ReviewRow): Review {
+  return {
+    id: review.id,
+    menuItemId: review.menuItemId,
+    menuItemName: review.menuItem.name,
+    rating: review.rating,
+    comment: review.comment ?? undefined,
+    authorName: review.authorName,
+    status: review.status as ReviewStatus,
+    reply: review.reply ?? undefined,
+    repliedAt: toIso(review.repliedAt),
+    createdAt: toIso(review.createdAt)!,
+  };
+}
+
+async function reviewsEnabled(tenantId: string): Promise<boolean> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+  return !!(tenant?.settings as Partial<TenantSettings> | null)?.enableReviews;
+}
+
+/**
+ * Adds or removes one rating from a menu item without rescanning its
+ * reviews. The sum and count are incremented in place, so concurrent
+ * moderation cannot lose an update; the average shown on the menu is always
+ * worked out from them. `direction` is 1 when a review becomes visible and
+ * -1 when it is hidden again.
+ */
+async function adjustItemRating(tx: Prisma.TransactionClient, menuItemId: string, rating: number, direction: 1 | -1) {
+  const { ratingTotal, reviewCount } = await tx.menuItem.update({
+    where: { id: menuItemId },
+    data: { ratingTotal: { increment: rating * direction }, reviewCount: { increment: direction } },
+    select: { ratingTotal: true, reviewCount: true },
+  });
+
+  await tx.menuItem.update({
+    where: { id: menuItemId },
+    data: { rating: reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 100) / 100 : 0 },
+  });
+}
+
+async function loadReviewableOrder(orderId: string, token: string | null) {
+  const order = await findOrderByTrackingToken(orderId, token);
+  if (!order) {
+    throw new ReviewError('ORDER_NOT_FOUND', 'Order not found', 404);
+  }
+  if (!(await reviewsEnabled(order.tenantId))) {
+    throw new ReviewError('REVIEWS_DISABLED', 'Reviews are not enabled for this restaurant', 404);
+  }
+  return order;
+}
+
+/** The items a guest can review for an order, with any reviews already left. */
+export async function getReviewableItems(orderId: string, token: string | null): Promise<ReviewableItem[]> {
+  const order = await loadReviewableOrder(orderId, token);
+  if (order.status !== 'completed') return [];
+
+  const reviews = await prisma.review.findMany({
+    where: { orderId: order.id },
+    include: WITH_ITEM_NAME,
+  });
+
+  // Voided items never reached the table
+  const seen = new Set<string>();
+  return order.items
+    .filter(item => !item.voidedAt && !seen.has(item.menuItemId) && seen.add(item.menuItemId))
+    .map(item => {
+      const review = reviews.find(r => r.menuItemId === item.menuItemId);
+      return { menuItemId: item.menuItemId, name: item.name, review: review ? toReview(review) : undefined };
+    });
+}
+
+/**
+ * Records a verified review: the guest proves the purchase with the order's
+ * tracking token, and only items served in completed orders can be reviewed,
+ * not voided ones. Reviews wait in the owner's moderation queue before they
+ * count towards the item's rating.
+ */
+export async function submitReview(orderId: string, token: string | null, input: SubmitReviewInput): Promise<Review> {
+  const order = await loadReviewableOrder(orderId, token);
+  if (order.status !== 'completed') {
+    throw new ReviewError('ORDER_NOT_COMPLETED', 'You can review your order once it is completed');
+  }
+
+  const item = order.items.find(entry => entry.menuItemId === input.menuItemId && !entry.voidedAt);
+  if (!item) {
+    throw new ReviewError('ITEM_NOT_IN_ORDER', 'This item was not part of your order');
+  }
+
+  // First name only; reviews are public
+  const authorName = (item.dinerName || order.customerName || 'Guest').trim().split(/\s+/)[0];
+  try {
+    const review = await prisma.review.create({
+      data: {
+        tenantId: order.tenantId,
+        orderId: order.id,
+        menuItemId: input.menuItemId,
+        rating: input.rating,
+        comment: input.comment || null,
+        authorName,
+        status: 'pending',
+      },
+      include: WITH_ITEM_NAME,
+    });
+    return toReview(review);
+  } catch (error) {
+    // One review per item per order, enforced by a unique index so a
+    // double submit cannot slip two in
+    if (isUniqueViolation(error)) {
+      throw new ReviewError('ALREADY_REVIEWED', 'You already reviewed this item', 409);
+    }
+    throw error;
+  }
+}
+
+/** Published reviews for a menu item, or null when the tenant has reviews off. */
+export async function getPublishedReviews(tenantId: string, menuItemId: string): Promise<Review[] | null> {
+  if (!(await reviewsEnabled(tenantId))) return null;
+
+  const reviews = await prisma.review.findMany({
+    where: { tenantId, menuItemId, status: 'published' },
+    include: WITH_ITEM_NAME,
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+  return reviews.map(toReview);
+}
+
+export async function listReviews(tenantId: string, status?: ReviewStatus): Promise<Review[]> {
+  const reviews = await prisma.review.findMany({
+    where: { tenantId, ...(status ? { status } : {}) },
+    include: WITH_ITEM_NAME,
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  });
+  return reviews.map(toReview);
+}
+
+/**
+ * Publishes or hides a review and/or sets the owner's reply. The item's
+ * aggregate rating only changes when a review crosses into or out of
+ * `published`. Returns null if the review does not belong to the tenant.
+ */
+export async function moderateReview(
+  tenantId: string,
+  reviewId: string,
+  input: ModerateReviewInput
+): Promise<Review | null> {
+  return prisma.$transaction(async tx => {
+    const existing = await tx.review.findFirst({ where: { id: reviewId, tenantId } });
+    if (!existing) return null;
+
+    const status = input.status ?? (existing.status as ReviewStatus);
+    if (status !== existing.status) {
+      if (status === 'published') {
+        await adjustItemRating(tx, existing.menuItemId, existing.rating, 1);
+      } else if (existing.status === 'published') {
+        await adjustItemRating(tx, existing.menuItemId, existing.rating, -1);
+      }
+    }
+
+    const review = await tx.review.update({
+      where: { id: reviewId },
+      data: {
+        status,
+        ...(input.reply !== undefined
+          ? { reply: input.reply || null, repliedAt: input.reply ? new Date() : null }
+          : {}),
+      },
+      include: WITH_ITEM_NAME,
+    });
+    return toReview(review);
+  });
+}
@@ -0,0 +1,173 @@
+import { prisma, type Prisma } from '@hospity/db';
+import type { OpeningHours, SchedulingSettings, Weekday } from '@/types/menu';
+import type { PickupSlot } from '@/types/order';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: Weekday;
+  minutes: number;
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: parts.weekday.toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** The instant at which the tenant's wall clock shows `minutes` past midnight on the given day. */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  let instant = wallClock;
+  // Two passes settle the offset across DST changes
+  for (let i = 0; i < 2; i++) {
+    const local = zonedParts(new Date(instant), timeZone);
+    const shown = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+    instant += wallClock - shown;
+  }
+  return new Date(instant);
+}
+
+export const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+interface LoadItem {
+  quantity: number;
+  estimatedTime: number;
+}
+
+/** How much of a slot's capacity an order uses. */
+export function orderLoad(items: LoadItem[], mode: SchedulingSettings['capacityMode']): number {
+  return items.reduce(
+    (load, item) => load + (mode === 'items' ? item.quantity : item.quantity * item.estimatedTime),
+    0
+  );
+}
+
+function generateSlotStarts(hours: OpeningHours, settings: SchedulingSettings, now: Date): Date[] {
+  const earliest = now.getTime() + settings.leadTimeMinutes * MINUTE;
+  const starts: Date[] = [];
+
+  for (let offset = 0; offset <= settings.maxDaysAhead; offset++) {
+    const { year, month, day, weekday } = zonedParts(new Date(now.getTime() + offset * DAY), settings.timezone);
+
+    for (const period of hours[weekday] || []) {
+      const close = parseTime(period.close);
+      for (let start = parseTime(period.open); start + settings.slotMinutes <= close; start += settings.slotMinutes) {
+        const slot = zonedTimeToUtc(year, month, day, start, settings.timezone);
+        if (slot.getTime() >= earliest) starts.push(slot);
+      }
+    }
+  }
+  return starts;
+}
+
+async function loadScheduling(tenantId: string, db: Prisma.TransactionClient = prisma) {
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+  const settings = tenant?.settings as { openingHours?: OpeningHours; scheduling?: SchedulingSettings } | undefined;
+  if (!settings?.scheduling || !settings.openingHours) return null;
+  return { hours: settings.openingHours, scheduling: settings.scheduling };
+}
+
+async function getSlotLoads(
+  tenantId: string,
+  from: Date,
+  to: Date,
+  mode: SchedulingSettings['capacityMode'],
+  db: Prisma.TransactionClient = prisma
+) {
+  const orders = await db.order.findMany({
+    where: {
+      tenantId,
+      scheduledFor: { gte: from, lte: to },
+      status: { not: 'cancelled' },
+    },
+    select: { scheduledFor: true, items: { select: { quantity: true, estimatedTime: true } } },
+  });
+
+  const loads = new Map<number, number>();
+  for (const order of orders) {
+    const key = new Date(order.scheduledFor!).getTime();
+    loads.set(key, (loads.get(key) || 0) + orderLoad(order.items, mode));
+  }
+  return loads;
+}
+
+/**
+ * Bookable pickup/delivery slots from the tenant's opening hours, with the
+ * capacity left in each. Empty when the tenant has not set up scheduling.
+ */
+export async function getPickupSlots(tenantId: string, now = new Date()): Promise<PickupSlot[]> {
+  const config = await loadScheduling(tenantId);
+  if (!config) return [];
+
+  const { scheduling } = config;
+  const starts = generateSlotStarts(config.hours, scheduling, now);
+  if (starts.length === 0) return [];
+
+  const loads = await getSlotLoads(tenantId, starts[0], starts[starts.length - 1], scheduling.capacityMode);
+  return starts.map(start => {
+    const remaining = Math.max(0, scheduling.slotCapacity - (loads.get(start.getTime()) || 0));
+    return {
+      startsAt: start.toISOString(),
+      endsAt: new Date(start.getTime() + scheduling.slotMinutes * MINUTE).toISOString(),
+      remaining,
+      available: remaining > 0,
+    };
+  });
+}
+
+/**
+ * Checks that `scheduledFor` is a real slot and that the order fits in what
+ * is left of it. An order bigger than a whole slot may still take an empty
+ * one, otherwise it could never be scheduled at all. Pass the transaction
+ * that inserts the order so the check and the insert see the same slot.
+ */
+export async function checkSlot(
+  tenantId: string,
+  scheduledFor: Date,
+  items: LoadItem[],
+  db: Prisma.TransactionClient = prisma
+): Promise<'ok' | 'unknown' | 'full'> {
+  const config = await loadScheduling(tenantId, db);
+  if (!config) return 'unknown';
+
+  const { scheduling } = config;
+  const isSlot = generateSlotStarts(config.hours, scheduling, new Date()).some(
+    start => start.getTime() === scheduledFor.getTime()
+  );
+  if (!isSlot) return 'unknown';
+
+  const loads = await getSlotLoads(tenantId, scheduledFor, scheduledFor, scheduling.capacityMode, db);
+  const used = loads.get(scheduledFor.getTime()) || 0;
+  return used === 0 || used + orderLoad(items, scheduling.capacityMode) <= scheduling.slotCapacity
+    ? 'ok'
+    : 'full';
+}
@@ -0,0 +1,80 @@
+import { prisma, type Prisma } from '@hospity/db';
+import { PRIORITY_RANK, resolveSla, slaPriority } from '@/lib/order-priority';
+import type { SlaSettings, TenantSettings } from '@/types/menu';
+import type { KitchenOrder, OrderPriority } from '@/types/order';
+import { ORDER_INCLUDE, publishKitchenEvent, toKitchenOrder } from './kitchen';
+
+const CHECK_INTERVAL = 30_000;
+
+type EscalatingOrder = Prisma.OrderGetPayload<{ include: typeof ORDER_INCLUDE }>;
+
+const globalForSla = globalThis as unknown as {
+  slaMonitor?: ReturnType<typeof setInterval>;
+};
+
+async function sendManagerAlert(url: string, order: KitchenOrder): Promise<void> {
+  const where = order.tableNumber ? `table ${order.tableNumber}` : order.customerName || order.orderType;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `Order #${order.orderNumber} (${where}) is overdue and now urgent`,
+        order: { id: order.id, orderNumber: order.orderNumber, promisedAt: order.promisedAt },
+      }),
+      signal: AbortSignal.timeout(5_000),
+    });
+    if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+  } catch (error) {
+    // The kitchen screen already shows the escalation; the alert is extra
+    console.error(`SLA alert for order ${order.id} failed:`, error);
+  }
+}
+
+async function escalate(order: EscalatingOrder, target: OrderPriority, sla: SlaSettings): Promise<void> {
+  // Only the instance whose update lands publishes, so alerts go out once
+  const { count } = await prisma.order.updateMany({
+    where: { id: order.id, priority: order.priority },
+    data: { priority: target },
+  });
+  if (count === 0) return;
+
+  const escalated = { ...order, priority: target };
+  await publishKitchenEvent('order.escalated', escalated);
+  if (target === 'urgent' && sla.alertWebhookUrl) {
+    await sendManagerAlert(sla.alertWebhookUrl, toKitchenOrder(escalated));
+  }
+}
+
+/** Raises the priority of every active order its tenant's SLA says is running late. */
+export async function escalateOrders(now = new Date()): Promise<void> {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: { in: ['new', 'accepted', 'preparing'] },
+      priority: { not: 'urgent' },
+      OR: [{ fireAt: null }, { fireAt: { lte: now } }],
+    },
+    include: { ...ORDER_INCLUDE, tenant: { select: { settings: true } } },
+  });
+
+  for (const order of orders) {
+    const sla = resolveSla((order.tenant.settings as TenantSettings | null)?.sla);
+    const target = slaPriority(toKitchenOrder(order), sla, now);
+    if (PRIORITY_RANK[target] > PRIORITY_RANK[order.priority as OrderPriority]) {
+      await escalate(order, target, sla);
+    }
+  }
+}
+
+/**
+ * Checks SLAs every 30 seconds for as long as the process runs. Started by
+ * the first kitchen screen to connect; later calls do nothing.
+ */
+export function startSlaMonitor(): void {
+  if (globalForSla.slaMonitor) return;
+
+  globalForSla.slaMonitor = setInterval(() => {
+    escalateOrders().catch(error => console.error('SLA check error:', error));
+  }, CHECK_INTERVAL);
+  globalForSla.slaMonitor.unref?.();
+}
@@ -0,0 +1,70 @@
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // keeps proxies from closing idle streams
+
+export type SendEvent = (event: string, data: unknown, id?: string | number) => void;
+
+/**
+ * Builds a server-sent events response. `start` receives a `send` function
+ * and returns a cleanup callback that runs when the client disconnects.
+ */
+export function createEventStream(
+  req: Request,
+  start: (send: SendEvent) => (() => void) | Promise<() => void>
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        if (heartbeat) clearInterval(heartbeat);
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      const send: SendEvent = (event, data, id) => {
+        if (closed) return;
+        const lines = [
+          id !== undefined ? `id: ${id}` : null,
+          `event: ${event}`,
+          `data: ${JSON.stringify(data)}`,
+        ].filter(Boolean);
+        controller.enqueue(encoder.encode(`${lines.join('\n')}\n\n`));
+      };
+
+      req.signal.addEventListener('abort', close);
+      heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      try {
+        cleanup = await start(send);
+        if (closed) cleanup();
+      } catch (error) {
+        console.error('Event stream setup error:', error);
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import { EXPO_STATION } from '@/lib/kitchen-board';
+import type { KitchenStation } from '@/types/station';
+
+export const createStationSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  // Used in the kitchen URL (`/kitchen?station=grill`) and stamped on order
+  // items, so it cannot change once created
+  slug: z
+    .string()
+    .regex(/^[a-z0-9-]{1,30}$/, 'Use lowercase letters, digits and dashes')
+    .refine(slug => slug !== EXPO_STATION, `"${EXPO_STATION}" is reserved`),
+  categories: z.array(z.string()).default([]),
+  menuItemIds: z.array(z.string()).default([]),
+  sortOrder: z.number().int().default(0),
+});
+
+export const updateStationSchema = createStationSchema.omit({ slug: true }).partial();
+
+export type CreateStationInput = z.infer<typeof createStationSchema>;
+export type UpdateStationInput = z.infer<typeof updateStationSchema>;
+
+export class StationError extends Error {
+  constructor(
+    public readonly code: 'SLUG_TAKEN',
+    message: string,
+    public readonly status = 409
+  ) {
+    super(message);
+    this.name = 'StationError';
+  }
+}
+
+function toStation(station: any): KitchenStation {
+  return {
+    id: station.id,
+    slug: station.slug,
+    name: station.name,
+    categories: station.categories || [],
+    menuItemIds: station.menuItemIds || [],
+    sortOrder: station.sortOrder,
+  };
+}
+
+export async function listStations(tenantId: string): Promise<KitchenStation[]> {
+  const stations = await prisma.kitchenStation.findMany({
+    where: { tenantId },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+  return stations.map(toStation);
+}
+
+export async function createStation(tenantId: string, input: CreateStationInput): Promise<KitchenStation> {
+  const existing = await prisma.kitchenStation.findFirst({ where: { tenantId, slug: input.slug } });
+  if (existing) {
+    throw new StationError('SLUG_TAKEN', `A station called "${input.slug}" already exists`);
+  }
+  return toStation(await prisma.kitchenStation.create({ data: { tenantId, ...input } }));
+}
+
+/** Returns null if the station does not belong to the tenant. */
+export async function updateStation(
+  tenantId: string,
+  stationId: string,
+  input: UpdateStationInput
+): Promise<KitchenStation | null> {
+  const existing = await prisma.kitchenStation.findFirst({ where: { id: stationId, tenantId } });
+  if (!existing) return null;
+  return toStation(await prisma.kitchenStation.update({ where: { id: stationId }, data: input }));
+}
+
+export async function deleteStation(tenantId: string, stationId: string): Promise<boolean> {
+  const { count } = await prisma.kitchenStation.deleteMany({ where: { id: stationId, tenantId } });
+  return count === 1;
+}
+
+/**
+ * The station an item is cooked at: an explicit item assignment first, then
+ * its category. Null means no station claims it and only the expo sees it.
+ */
+export function routeToStation(
+  stations: KitchenStation[],
+  menuItem: { id: string; category: string }
+): string | null {
+  const byItem = stations.find(station => station.menuItemIds.includes(menuItem.id));
+  if (byItem) return byItem.slug;
+  return stations.find(station => station.categories.includes(menuItem.category))?.slug ?? null;
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import type { AvailabilityChange, MenuItem } from '@/types/menu';
+import { menuChannel, publish } from './realtime';
+
+const CHECK_INTERVAL = 60_000;
+
+export const availabilitySchema = z
+  .object({
+    available: z.boolean(),
+    // Only used when marking something out; omit to wait for a manual restock
+    restockAt: z.string().datetime().optional(),
+  })
+  .refine(input => input.available || !input.restockAt || new Date(input.restockAt) > new Date(), {
+    message: 'The restock time must be in the future',
+    path: ['restockAt'],
+  });
+
+export type AvailabilityInput = z.infer<typeof availabilitySchema>;
+
+const globalForStock = globalThis as unknown as {
+  stockMonitor?: ReturnType<typeof setInterval>;
+};
+
+function toStock(input: AvailabilityInput) {
+  return {
+    available: input.available,
+    restockAt: !input.available && input.restockAt ? new Date(input.restockAt) : null,
+  };
+}
+
+async function publishChange(tenantId: string, change: AvailabilityChange): Promise<AvailabilityChange> {
+  await publish(menuChannel(tenantId), change);
+  return change;
+}
+
+/** The whole menu with what is out, for the kitchen's stock panel. */
+export async function listStock(tenantId: string): Promise<MenuItem[]> {
+  return (await prisma.menuItem.findMany({
+    where: { tenantId },
+    include: { modifiers: { include: { options: true } } },
+    orderBy: [{ category: 'asc' }, { name: 'asc' }],
+  })) as MenuItem[];
+}
+
+/**
+ * Marks a menu item in or out of stock and pushes the change to open menus.
+ * Returns null if the item does not belong to the tenant.
+ */
+export async function setItemAvailability(
+  tenantId: string,
+  menuItemId: string,
+  input: AvailabilityInput
+): Promise<AvailabilityChange | null> {
+  const stock = toStock(input);
+  const { count } = await prisma.menuItem.updateMany({ where: { id: menuItemId, tenantId }, data: stock });
+  if (count === 0) return null;
+
+  return publishChange(tenantId, {
+    menuItemId,
+    available: stock.available,
+    restockAt: stock.restockAt?.toISOString(),
+  });
+}
+
+/** Same as `setItemAvailability`, for a single modifier option such as one sauce. */
+export async function setOptionAvailability(
+  tenantId: string,
+  optionId: string,
+  input: AvailabilityInput
+): Promise<AvailabilityChange | null> {
+  const option = await prisma.modifierOption.findFirst({
+    where: { id: optionId, modifier: { menuItem: { tenantId } } },
+    select: { modifier: { select: { menuItemId: true } } },
+  });
+  if (!option) return null;
+
+  const stock = toStock(input);
+  await prisma.modifierOption.update({ where: { id: optionId }, data: stock });
+  return publishChange(tenantId, {
+    menuItemId: option.modifier.menuItemId,
+    optionId,
+    available: stock.available,
+    restockAt: stock.restockAt?.toISOString(),
+  });
+}
+
+/** Puts back everything whose restock time has passed. */
+export async function restoreExpiredStock(now = new Date()): Promise<void> {
+  const expired = { available: false, restockAt: { lte: now } };
+  const [items, options] = await Promise.all([
+    prisma.menuItem.findMany({ where: expired, select: { id: true, tenantId: true, restockAt: true } }),
+    prisma.modifierOption.findMany({
+      where: expired,
+      select: {
+        id: true,
+        restockAt: true,
+        modifier: { select: { menuItemId: true, menuItem: { select: { tenantId: true } } } },
+      },
+    }),
+  ]);
+  const restock = { available: true, restockAt: null };
+
+  // Conditional on the restock time, so a newer 86 made meanwhile survives
+  // and only one app instance publishes each restock
+  for (const item of items) {
+    const { count } = await prisma.menuItem.updateMany({
+      where: { id: item.id, available: false, restockAt: item.restockAt },
+      data: restock,
+    });
+    if (count === 1) await publishChange(item.tenantId, { menuItemId: item.id, available: true });
+  }
+  for (const option of options) {
+    const { count } = await prisma.modifierOption.updateMany({
+      where: { id: option.id, available: false, restockAt: option.restockAt },
+      data: restock,
+    });
+    if (count === 1) {
+      await publishChange(option.modifier.menuItem.tenantId, {
+        menuItemId: option.modifier.menuItemId,
+        optionId: option.id,
+        available: true,
+      });
+    }
+  }
+}
+
+/**
+ * Restocks on schedule every minute for as long as the process runs. Started
+ * by the first kitchen screen or guest menu to connect; later calls do
+ * nothing. Checkout does not depend on it, as expired restock times already
+ * count as available.
+ */
+export function startStockMonitor(): void {
+  if (globalForStock.stockMonitor) return;
+
+  globalForStock.stockMonitor = setInterval(() => {
+    restoreExpiredStock().catch(error => console.error('Restock check error:', error));
+  }, CHECK_INTERVAL);
+  globalForStock.stockMonitor.unref?.();
+}
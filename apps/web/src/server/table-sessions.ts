@@ -0,0 +1,260 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import { fromMajor, toMajor } from '@hospity/utils';
+import type { TableSession } from '@/types/table';
+import { priceOrder, pricingLineSchema, type PricingLine } from './pricing';
+import { isUniqueViolation } from './prisma-errors';
+import { publish } from './realtime';
+
+export class TableSessionError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'TableSessionError';
+  }
+}
+
+export const tableChannel = (tenantId: string, tableNumber: string) => `table:${tenantId}:${tableNumber}`;
+
+function getTableSecret(): string {
+  const secret = process.env.TABLE_QR_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('TABLE_QR_SECRET or NEXTAUTH_SECRET must be set to sign table QR codes');
+  }
+  return secret;
+}
+
+/**
+ * The key printed in a table's QR code. Only tables the owner has issued a
+ * QR for have a valid key, and guessing another table's number is not
+ * enough to read or change its cart.
+ */
+export function signTableKey(tenantId: string, tableNumber: string): string {
+  return createHmac('sha256', getTableSecret())
+    .update(`${tenantId}:${tableNumber}`)
+    .digest('base64url');
+}
+
+export const tableNumberSchema = z.string().trim().min(1).max(20).regex(/^[\w-]+$/);
+
+/** The menu link a table's QR code points at, relative to the site origin. */
+export function tableLinkPath(tenantId: string, tableNumber: string): string {
+  const query = new URLSearchParams({ table: tableNumber, key: signTableKey(tenantId, tableNumber) });
+  return `/menu/${tenantId}?${query}`;
+}
+
+export function verifyTableKey(tenantId: string, tableNumber: string, key: string | null): boolean {
+  if (!key) return false;
+  const expected = Buffer.from(signTableKey(tenantId, tableNumber));
+  const received = Buffer.from(key);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// dinerId is shown to the table to attribute lines; dinerSecret is never
+// sent back out and proves which lines a diner may change.
+export const addTableLineSchema = pricingLineSchema.extend({
+  specialInstructions: z.string().max(500).optional(),
+  dinerId: z.string().min(8).max(64),
+  dinerSecret: z.string().min(16).max(64),
+  dinerName: z.string().trim().min(1).max(40),
+});
+
+export const updateTableLineSchema = z.object({
+  quantity: z.number().int().min(0).max(99),
+  dinerSecret: z.string().min(16).max(64),
+});
+
+export type AddTableLineInput = z.infer<typeof addTableLineSchema>;
+export type UpdateTableLineInput = z.infer<typeof updateTableLineSchema>;
+
+const sessionInclude = {
+  lines: { orderBy: { addedAt: 'asc' as const } },
+  tenant: { select: { currency: true } },
+};
+
+function toTableSession(session: any): TableSession {
+  return {
+    id: session.id,
+    tenantId: session.tenantId,
+    tableNumber: session.tableNumber,
+    status: session.status,
+    submittedBy: session.submittedBy ?? undefined,
+    orderId: session.orderId ?? undefined,
+    lines: session.lines.map((line: any) => ({
+      id: line.id,
+      dinerId: line.dinerId,
+      dinerName: line.dinerName,
+      menuItemId: line.menuItemId,
+      name: line.name,
+      quantity: line.quantity,
+      modifiers: line.modifiers,
+      modifierNames: line.modifierNames,
+      specialInstructions: line.specialInstructions ?? undefined,
+      unitPrice: fromMajor(line.unitPrice, session.tenant.currency),
+      addedAt: new Date(line.addedAt).toISOString(),
+    })),
+  };
+}
+
+/**
+ * Returns the table's open session, starting a new one if the last was
+ * submitted. Every diner scanning the same table QR joins this session.
+ *
+ * A partial unique index on (tenantId, tableNumber) where status is open
+ * keeps two diners who scan at once from each starting a session; the
+ * loser of that race reads the winner's session.
+ */
+export async function getOpenTableSession(tenantId: string, tableNumber: string): Promise<TableSession> {
+  const findOpen = () =>
+    prisma.tableSession.findFirst({
+      where: { tenantId, tableNumber, status: 'open' },
+      include: sessionInclude,
+    });
+
+  const existing = await findOpen();
+  if (existing) return toTableSession(existing);
+
+  try {
+    const created = await prisma.tableSession.create({
+      data: { tenantId, tableNumber, status: 'open' },
+      include: sessionInclude,
+    });
+    return toTableSession(created);
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    const winner = await findOpen();
+    if (!winner) throw error;
+    return toTableSession(winner);
+  }
+}
+
+/**
+ * The most recent session for the table, open or just submitted, so diners
+ * who did not submit still see where the order went.
+ */
+export async function getLatestTableSession(tenantId: string, tableNumber: string): Promise<TableSession> {
+  const latest = await prisma.tableSession.findFirst({
+    where: { tenantId, tableNumber },
+    orderBy: { createdAt: 'desc' },
+    include: sessionInclude,
+  });
+  return latest ? toTableSession(latest) : getOpenTableSession(tenantId, tableNumber);
+}
+
+async function publishTableSession(sessionId: string): Promise<TableSession> {
+  const session = toTableSession(
+    await prisma.tableSession.findUniqueOrThrow({ where: { id: sessionId }, include: sessionInclude })
+  );
+  await publish(tableChannel(session.tenantId, session.tableNumber), session);
+  return session;
+}
+
+export async function addTableLine(
+  tenantId: string,
+  tableNumber: string,
+  input: AddTableLineInput
+): Promise<TableSession> {
+  // Pricing validates availability and modifier rules for the single line
+  const { lines: [priced] } = await priceOrder(tenantId, { orderType: 'dine-in', items: [input] });
+  const session = await getOpenTableSession(tenantId, tableNumber);
+
+  await prisma.tableSessionLine.create({
+    data: {
+      sessionId: session.id,
+      dinerId: input.dinerId,
+      dinerSecret: input.dinerSecret,
+      dinerName: input.dinerName,
+      menuItemId: priced.menuItemId,
+      name: priced.name,
+      quantity: priced.quantity,
+      modifiers: priced.modifiers,
+      modifierNames: priced.modifierNames,
+      specialInstructions: input.specialInstructions || null,
+      unitPrice: toMajor(priced.unitPrice),
+      addedAt: new Date(),
+    },
+  });
+
+  return publishTableSession(session.id);
+}
+
+/**
+ * Changes a line's quantity; zero removes it. Only the diner who added a
+ * line may change it. Returns null for unknown lines.
+ */
+export async function updateTableLine(
+  tenantId: string,
+  tableNumber: string,
+  lineId: string,
+  input: UpdateTableLineInput
+): Promise<TableSession | null> {
+  const line = await prisma.tableSessionLine.findFirst({
+    where: { id: lineId, session: { tenantId, tableNumber, status: 'open' } },
+  });
+  if (!line) return null;
+
+  const owner = Buffer.from(line.dinerSecret ?? '');
+  const caller = Buffer.from(input.dinerSecret);
+  if (owner.length !== caller.length || !timingSafeEqual(owner, caller)) {
+    throw new TableSessionError('NOT_LINE_OWNER', 'Only the diner who added this item can change it', 403);
+  }
+
+  const { quantity } = input;
+
+  if (quantity === 0) {
+    await prisma.tableSessionLine.delete({ where: { id: lineId } });
+  } else {
+    await prisma.tableSessionLine.update({ where: { id: lineId }, data: { quantity } });
+  }
+
+  return publishTableSession(line.sessionId);
+}
+
+/** The session's lines in the shape the pricing engine and checkout expect. */
+export async function getTableSessionLines(
+  tenantId: string,
+  sessionId: string
+): Promise<Array<PricingLine & { specialInstructions?: string; dinerId: string; dinerName: string }> | null> {
+  const session = await prisma.tableSession.findFirst({
+    where: { id: sessionId, tenantId, status: 'open' },
+    include: { lines: { orderBy: { addedAt: 'asc' } } },
+  });
+  if (!session) return null;
+
+  return session.lines.map((line: any) => ({
+    menuItemId: line.menuItemId,
+    quantity: line.quantity,
+    modifiers: line.modifiers,
+    specialInstructions: line.specialInstructions ?? undefined,
+    dinerId: line.dinerId,
+    dinerName: line.dinerName,
+  }));
+}
+
+/**
+ * Marks an open session as submitted. Returns false when another diner got
+ * there first, so a table can only send one order per session.
+ */
+export async function claimTableSession(tenantId: string, sessionId: string, submittedBy: string): Promise<boolean> {
+  const { count } = await prisma.tableSession.updateMany({
+    where: { id: sessionId, tenantId, status: 'open' },
+    data: { status: 'submitted', submittedBy },
+  });
+  return count === 1;
+}
+
+export async function releaseTableSession(sessionId: string): Promise<void> {
+  await prisma.tableSession.update({
+    where: { id: sessionId },
+    data: { status: 'open', submittedBy: null },
+  });
+}
+
+export async function linkTableSessionOrder(sessionId: string, orderId: string): Promise<void> {
+  await prisma.tableSession.update({ where: { id: sessionId }, data: { orderId } });
+  await publishTableSession(sessionId);
+}
@@ -0,0 +1,73 @@
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { prisma } from '@hospity/db';
+import type { TrackedOrder } from '@/types/order';
+import { orderChannel, publish } from './realtime';
+
+// 192 bits of randomness; the token is the guest's only credential
+export const generateTrackingToken = () => randomBytes(24).toString('base64url');
+
+// Read out at the door as proof of delivery; only needs to beat a guess
+export const generateDeliveryPin = () => String(randomInt(10_000)).padStart(4, '0');
+
+const toIso = (date?: Date | string | null) => (date ? new Date(date).toISOString() : undefined);
+
+export function toTrackedOrder(order: any): TrackedOrder {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    orderType: order.orderType,
+    tableNumber: order.tableNumber ?? undefined,
+    status: order.status,
+    createdAt: toIso(order.createdAt)!,
+    acceptedAt: toIso(order.acceptedAt),
+    preparingAt: toIso(order.preparingAt),
+    readyAt: toIso(order.readyAt),
+    completedAt: toIso(order.completedAt),
+    cancelledAt: toIso(order.cancelledAt),
+    estimatedCompletionTime: toIso(order.estimatedCompletionTime),
+    scheduledFor: toIso(order.scheduledFor),
+    deliveryPin: order.deliveryPin ?? undefined,
+    deliveryStatus: order.deliveryStatus ?? undefined,
+    driverName: order.driver?.name,
+    items: (order.items || []).map((item: any) => ({
+      id: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      modifiers: item.modifiers || [],
+      dinerName: item.dinerName ?? undefined,
+      status: item.status,
+    })),
+  };
+}
+
+function tokensMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Loads an order, with its items, for an anonymous guest. Returns null for
+ * unknown orders and wrong tokens alike so ids cannot be probed.
+ */
+export async function findOrderByTrackingToken(orderId: string, token: string | null) {
+  if (!token) return null;
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { items: true, driver: { select: { name: true } } },
+  });
+  if (!order?.trackingToken || !tokensMatch(order.trackingToken, token)) {
+    return null;
+  }
+  return order;
+}
+
+export async function getTrackedOrder(orderId: string, token: string | null): Promise<TrackedOrder | null> {
+  const order = await findOrderByTrackingToken(orderId, token);
+  return order ? toTrackedOrder(order) : null;
+}
+
+export async function publishTrackingUpdate(order: any): Promise<void> {
+  await publish(orderChannel(order.id), toTrackedOrder(order));
+}
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { prisma } from '@hospity/db';
+import { add, fromMajor, multiply, toMajor, zero, type Money } from '@hospity/utils';
+import { KITCHEN_REASONS } from '@/lib/kitchen-reasons';
+import type { KitchenReason, OrderActor } from '@/types/order';
+import type { WasteByItem, WasteByReason, WasteReport } from '@/types/waste';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const kitchenReasonSchema = z.enum(KITCHEN_REASONS as [KitchenReason, ...KitchenReason[]]);
+
+export const wasteQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type WasteQuery = z.infer<typeof wasteQuerySchema>;
+
+interface Adjustment {
+  tenantId: string;
+  orderId: string;
+  kind: 'remake' | 'void' | 'recall';
+  actor: OrderActor;
+  reason?: KitchenReason;
+  // The item remade or voided; recalls apply to the whole order
+  item?: any;
+  quantity?: number;
+  remakeOrderId?: string;
+  note?: string;
+}
+
+async function getCurrency(tenantId: string): Promise<string> {
+  const tenant = await prisma.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { currency: true } });
+  return tenant.currency;
+}
+
+/**
+ * Logs a remake, void or recall for analytics. A remade item was wasted; a
+ * voided one only if the kitchen had already started it.
+ */
+export async function recordAdjustment(adjustment: Adjustment): Promise<void> {
+  const { item, quantity = item?.quantity ?? 0 } = adjustment;
+  let wasteCost = 0;
+  if (item && (adjustment.kind === 'remake' || item.startedAt)) {
+    const [menuItem, currency] = await Promise.all([
+      prisma.menuItem.findUnique({ where: { id: item.menuItemId }, select: { cost: true } }),
+      getCurrency(adjustment.tenantId),
+    ]);
+    wasteCost = toMajor(multiply(fromMajor(menuItem?.cost ?? 0, currency), quantity));
+  }
+
+  await prisma.kitchenAdjustment.create({
+    data: {
+      tenantId: adjustment.tenantId,
+      orderId: adjustment.orderId,
+      kind: adjustment.kind,
+      reason: adjustment.reason ?? null,
+      orderItemId: item?.id ?? null,
+      menuItemId: item?.menuItemId ?? null,
+      name: item?.name ?? null,
+      quantity,
+      wasteCost,
+      remakeOrderId: adjustment.remakeOrderId ?? null,
+      note: adjustment.note ?? null,
+      actorId: adjustment.actor.id ?? null,
+      actorName: adjustment.actor.name ?? null,
+    },
+  });
+}
+
+/** Remakes, voids and what they cost over the last `days` days. */
+export async function getWasteReport(tenantId: string, query: WasteQuery): Promise<WasteReport> {
+  const to = new Date();
+  const from = new Date(to.getTime() - query.days * DAY);
+  const [adjustments, currency] = await Promise.all([
+    prisma.kitchenAdjustment.findMany({
+      where: { tenantId, createdAt: { gte: from, lt: to } },
+      select: { kind: true, reason: true, menuItemId: true, name: true, quantity: true, wasteCost: true },
+    }),
+    getCurrency(tenantId),
+  ]);
+
+  // Costs add up in minor units and only become major units for the report
+  const byReason = new Map<KitchenReason, Omit<WasteByReason, 'cost'> & { cost: Money }>();
+  const byItem = new Map<string, Omit<WasteByItem, 'cost'> & { cost: Money }>();
+  let totalCost = zero(currency);
+  let remakes = 0;
+  let voids = 0;
+  let recalls = 0;
+
+  for (const adjustment of adjustments) {
+    if (adjustment.kind === 'recall') {
+      recalls++;
+      continue;
+    }
+    if (adjustment.kind === 'remake') remakes++;
+    else voids++;
+
+    const cost = fromMajor(adjustment.wasteCost, currency);
+    totalCost = add(totalCost, cost);
+
+    const reason = adjustment.reason as KitchenReason;
+    const reasonEntry = byReason.get(reason) ?? { reason, remakes: 0, voids: 0, quantity: 0, cost: zero(currency) };
+    reasonEntry[adjustment.kind === 'remake' ? 'remakes' : 'voids']++;
+    reasonEntry.quantity += adjustment.quantity;
+    reasonEntry.cost = add(reasonEntry.cost, cost);
+    byReason.set(reason, reasonEntry);
+
+    if (cost.amount > 0) {
+      const itemEntry = byItem.get(adjustment.menuItemId) ?? {
+        menuItemId: adjustment.menuItemId,
+        name: adjustment.name,
+        quantity: 0,
+        cost: zero(currency),
+      };
+      itemEntry.quantity += adjustment.quantity;
+      itemEntry.cost = add(itemEntry.cost, cost);
+      byItem.set(adjustment.menuItemId, itemEntry);
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    remakes,
+    voids,
+    recalls,
+    totalCost: toMajor(totalCost),
+    byReason: Array.from(byReason.values())
+      .sort((a, b) => b.cost.amount - a.cost.amount || b.quantity - a.quantity)
+      .map(entry => ({ ...entry, cost: toMajor(entry.cost) })),
+    byItem: Array.from(byItem.values())
+      .sort((a, b) => b.cost.amount - a.cost.amount)
+      .map(entry => ({ ...entry, cost: toMajor(entry.cost) })),
+  };
+}
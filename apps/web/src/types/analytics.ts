@@ -0,0 +1,55 @@
+import type { OrderType } from './menu';
+import type { OrderStatus } from './order';
+
+export type TimeRange = '7d' | '30d' | '90d';
+
+export interface KPIData {
+  totalRevenue: number;
+  totalOrders: number;
+  // Distinct guests, by phone number
+  activeCustomers: number;
+  averageOrderValue: number;
+  // Percent change from the equally long period before; null when that
+  // period had nothing to compare with
+  revenueGrowth: number | null;
+  ordersGrowth: number | null;
+  customersGrowth: number | null;
+  aovGrowth: number | null;
+  from: string;
+  to: string;
+}
+
+// One day in the tenant's timezone, YYYY-MM-DD
+export interface SalesData {
+  date: string;
+  revenue: number;
+  orders: number;
+}
+
+export interface OwnerOrder {
+  id: string;
+  orderNumber: string;
+  customerName: string;
+  customerPhone: string;
+  items: Array<{
+    name: string;
+    quantity: number;
+    price: number;
+  }>;
+  total: number;
+  status: OrderStatus;
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+  orderType: OrderType;
+  tableNumber?: string;
+  estimatedTime?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OwnerOrderPage {
+  orders: OwnerOrder[];
+  // Matching orders across all pages
+  total: number;
+  page: number;
+  pageSize: number;
+}
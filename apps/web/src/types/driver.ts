@@ -0,0 +1,42 @@
+import type { OrderStatus } from './order';
+
+export interface Driver {
+  id: string;
+  name: string;
+  phone: string;
+  // Off the roster without losing their history
+  active: boolean;
+  // On shift and taking jobs; set by the driver
+  available: boolean;
+  activeJobs: number;
+  // Only sent to staff: the secret in the driver's link
+  accessToken?: string;
+}
+
+// assigned -> accepted -> picked-up -> delivered; declining unassigns
+export type DeliveryStatus = 'assigned' | 'accepted' | 'picked-up' | 'delivered';
+
+export interface DeliveryJob {
+  orderId: string;
+  orderNumber: string;
+  orderStatus: OrderStatus;
+  customerName?: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  itemCount: number;
+  readyAt?: string;
+  estimatedCompletionTime?: string;
+  driver?: { id: string; name: string; phone: string };
+  deliveryStatus?: DeliveryStatus;
+  assignedAt?: string;
+  pickedUpAt?: string;
+  deliveredAt?: string;
+  proof?: 'pin' | 'photo';
+}
+
+export interface DispatchBoard {
+  // Unassigned first, then by how long they have been ready; recently delivered last
+  jobs: DeliveryJob[];
+  drivers: Driver[];
+  autoAssign: boolean;
+}
@@ -0,0 +1,27 @@
+// Prep times are in minutes, from an item starting to it being ready
+export interface ItemPrepStats {
+  menuItemId: string;
+  name: string;
+  count: number;
+  avgPrepTime: number;
+  p90PrepTime: number;
+}
+
+export interface KitchenStats {
+  // Live counts, whatever the date range
+  activeOrders: number;
+  pendingOrders: number;
+  overdueOrders: number;
+  // Orders placed in the range that have been completed (today by default)
+  completedToday: number;
+  // Per ticket: first item started to last item ready
+  avgPrepTime: number;
+  p50PrepTime: number;
+  p90PrepTime: number;
+  // Slowest first
+  items: ItemPrepStats[];
+  // Shift names the `shift` filter accepts
+  shifts: string[];
+  from: string;
+  to: string;
+}
@@ -0,0 +1,135 @@
+export type OrderType = 'dine-in' | 'takeaway' | 'delivery';
+
+// Dine-in orders are cooked course by course
+export type Course = 'drinks' | 'starters' | 'mains' | 'dessert';
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  category: string;
+  images: string[];
+  allergens: string[];
+  dietary: string[];
+  preparationTime: number;
+  available: boolean;
+  rating: number;
+  reviewCount: number;
+  calories?: number;
+  spiceLevel?: number;
+  tags: string[];
+  modifiers: MenuModifier[];
+  // Untagged items count as mains
+  course?: Course;
+  // When an item the kitchen has run out of comes back by itself
+  restockAt?: string;
+  // Food cost of one portion, for waste tracking
+  cost?: number;
+  // Position within its category, set by dragging in the menu studio
+  sortOrder?: number;
+}
+
+export interface MenuModifier {
+  id: string;
+  name: string;
+  type: 'single' | 'multiple';
+  required: boolean;
+  options: ModifierOption[];
+  minSelections?: number;
+  maxSelections?: number;
+  // Nested group: only offered once this option of another group is chosen
+  parentOptionId?: string;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+  allergens?: string[];
+  dietary?: string[];
+  // Missing means available; the kitchen can run out of single options
+  available?: boolean;
+  restockAt?: string;
+}
+
+// The menu studio's view: every item, and categories in guest order,
+// including ones that have no items yet
+export interface OwnerMenu {
+  items: MenuItem[];
+  categories: string[];
+}
+
+// Pushed to open menus when the kitchen runs out of something or restocks it
+export interface AvailabilityChange {
+  menuItemId: string;
+  // Set when the change is to one modifier option rather than the item
+  optionId?: string;
+  available: boolean;
+  restockAt?: string;
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Local wall-clock times ("HH:mm") in the tenant's timezone
+export type OpeningHours = Partial<Record<Weekday, Array<{ open: string; close: string }>>>;
+
+export interface SchedulingSettings {
+  timezone: string;
+  slotMinutes: number;
+  // How far ahead of now the first bookable slot starts
+  leadTimeMinutes: number;
+  maxDaysAhead: number;
+  // A slot is full once its orders reach `slotCapacity` items or prep minutes
+  capacityMode: 'items' | 'prep-minutes';
+  slotCapacity: number;
+}
+
+// When kitchen orders escalate on their own; a missing field uses the default
+export interface SlaSettings {
+  // Share of the estimated time after which an order turns high, 0-100
+  highAtPercent: number;
+  urgentWhenOverdue: boolean;
+  // A waiting driver makes a delivery order high
+  highWhenDriverAssigned: boolean;
+  // Receives a JSON POST when an order turns urgent (Slack-compatible `text`)
+  alertWebhookUrl?: string;
+}
+
+// A named part of the day for kitchen stats; may run past midnight
+export interface KitchenShift {
+  name: string;
+  start: string; // HH:mm
+  end: string;
+}
+
+export interface TenantSettings {
+  enableAIChat: boolean;
+  enableReviews: boolean;
+  minimumOrder: number;
+  deliveryFee: number;
+  taxRate: number;
+  openingHours?: OpeningHours;
+  // Pre-orders are only offered when set
+  scheduling?: SchedulingSettings;
+  sla?: Partial<SlaSettings>;
+  shifts?: KitchenShift[];
+  // Give ready delivery orders to free drivers without a dispatcher
+  autoAssignDrivers?: boolean;
+  // Category order on the guest menu; categories not listed follow, A-Z
+  menuCategories?: string[];
+}
+
+export interface Tenant {
+  id: string;
+  name: string;
+  logo: string;
+  currency: string;
+  locale: string;
+  theme: {
+    primaryColor: string;
+    secondaryColor: string;
+    fontFamily: string;
+  };
+  settings: TenantSettings;
+}
@@ -0,0 +1,136 @@
+import type { DeliveryStatus } from './driver';
+import type { Course, OrderType } from './menu';
+
+export type OrderStatus = 'new' | 'accepted' | 'preparing' | 'ready' | 'completed' | 'cancelled';
+
+export type OrderItemStatus = 'pending' | 'preparing' | 'ready' | 'served';
+
+export type OrderPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+// Why the kitchen remade or voided an item; feeds waste analytics
+export type KitchenReason =
+  | 'burnt'
+  | 'wrong-modifier'
+  | 'wrong-item'
+  | 'dropped'
+  | 'customer-changed-mind'
+  | 'other';
+
+// Who caused a status change; `system` covers changes derived from items
+export interface OrderActor {
+  type: 'staff' | 'guest' | 'driver' | 'system';
+  id?: string;
+  name?: string;
+}
+
+export interface OrderStatusChange {
+  id: string;
+  from: OrderStatus | null;
+  to: OrderStatus;
+  actor: OrderActor;
+  createdAt: string;
+}
+
+export interface TrackedOrderItem {
+  id: string;
+  name: string;
+  quantity: number;
+  modifiers: string[];
+  dinerName?: string;
+  status: OrderItemStatus;
+}
+
+// What an anonymous guest may see about their order: no customer details,
+// no internal kitchen fields.
+export interface TrackedOrder {
+  id: string;
+  orderNumber: string;
+  orderType: OrderType;
+  tableNumber?: string;
+  status: OrderStatus;
+  createdAt: string;
+  acceptedAt?: string;
+  preparingAt?: string;
+  readyAt?: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  estimatedCompletionTime?: string;
+  scheduledFor?: string;
+  // Delivery orders: the guest reads the PIN out to the driver at the door
+  deliveryPin?: string;
+  deliveryStatus?: DeliveryStatus;
+  driverName?: string;
+  items: TrackedOrderItem[];
+}
+
+export interface PickupSlot {
+  startsAt: string;
+  endsAt: string;
+  remaining: number;
+  available: boolean;
+}
+
+export interface KitchenOrderItem {
+  id: string;
+  name: string;
+  quantity: number;
+  modifiers: string[];
+  specialInstructions?: string;
+  allergens: string[];
+  estimatedTime: number; // minutes
+  status: OrderItemStatus;
+  // Slug of the station that cooks it; unrouted items only show on the expo
+  station?: string;
+  course?: Course;
+  // Waiting for its course to be fired; nobody should start it yet
+  held?: boolean;
+  // When a held course was fired
+  firedAt?: string;
+  // Voided items stay on the ticket, struck through, but nobody cooks them
+  voided?: boolean;
+  voidReason?: KitchenReason;
+  // Set on the items of a remake ticket
+  remakeReason?: KitchenReason;
+}
+
+export interface KitchenOrder {
+  id: string;
+  orderNumber: string;
+  tableNumber?: string;
+  customerName?: string;
+  orderType: OrderType;
+  items: KitchenOrderItem[];
+  status: OrderStatus;
+  priority: OrderPriority;
+  createdAt: string;
+  acceptedAt?: string;
+  // Recently completed orders can be recalled to the pass
+  completedAt?: string;
+  // Rolling estimate for display; it moves with the queue
+  estimatedCompletionTime?: string;
+  // Fixed when the kitchen takes the order (or fires its next course); SLAs
+  // are measured against it
+  promisedAt?: string;
+  totalEstimatedTime: number;
+  specialRequests?: string;
+  allergyWarnings: string[];
+  // Pre-orders stay off the active board until `fireAt`
+  scheduledFor?: string;
+  fireAt?: string;
+  driverAssigned?: {
+    id: string;
+    name: string;
+    phone: string;
+  };
+  // A remake ticket points back at the order whose dish came back
+  remakeOf?: {
+    orderId: string;
+    orderNumber: string;
+  };
+}
+
+export interface KitchenEvent {
+  // `order.escalated` is an update that raised the order's priority
+  type: 'order.created' | 'order.updated' | 'order.escalated';
+  order: KitchenOrder;
+}
@@ -0,0 +1,25 @@
+// A raw TCP (port 9100) ESC/POS printer. One with a `station` only prints
+// that station's items; one without prints the whole ticket.
+export interface Printer {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  station?: string;
+  // Characters per line: 42 on most 80mm printers, 32 on 58mm
+  columns: number;
+  enabled: boolean;
+}
+
+export type PrintJobStatus = 'queued' | 'printing' | 'printed' | 'failed';
+
+export interface PrintJob {
+  id: string;
+  printerId: string;
+  orderId?: string;
+  status: PrintJobStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  printedAt?: string;
+}
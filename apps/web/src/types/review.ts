@@ -0,0 +1,22 @@
+export type ReviewStatus = 'pending' | 'published' | 'hidden';
+
+export interface Review {
+  id: string;
+  menuItemId: string;
+  menuItemName: string;
+  rating: number;
+  comment?: string;
+  authorName: string;
+  status: ReviewStatus;
+  reply?: string;
+  repliedAt?: string;
+  createdAt: string;
+}
+
+// One line per menu item in a completed order, with the guest's review if
+// they already left one.
+export interface ReviewableItem {
+  menuItemId: string;
+  name: string;
+  review?: Review;
+}
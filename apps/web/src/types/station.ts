@@ -0,0 +1,10 @@
+// A kitchen station's screen shows only the order items routed to it. Items
+// listed in `menuItemIds` win over a whole-category assignment.
+export interface KitchenStation {
+  id: string;
+  slug: string;
+  name: string;
+  categories: string[];
+  menuItemIds: string[];
+  sortOrder: number;
+}
@@ -0,0 +1,40 @@
+import type { Money } from '@hospity/utils';
+
+export interface TableSessionLine {
+  id: string;
+  dinerId: string;
+  dinerName: string;
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  modifiers: { [modifierId: string]: string[] };
+  modifierNames: string[];
+  specialInstructions?: string;
+  unitPrice: Money;
+  addedAt: string;
+}
+
+export interface TableSession {
+  id: string;
+  tenantId: string;
+  tableNumber: string;
+  status: 'open' | 'submitted';
+  lines: TableSessionLine[];
+  submittedBy?: string;
+  orderId?: string;
+}
+
+export type BillSplitMode = 'together' | 'even' | 'by-item';
+
+export interface BillShare {
+  label: string;
+  amount: Money;
+  items: string[];
+}
+
+export interface BillSplit {
+  mode: BillSplitMode;
+  locale: string;
+  total: Money;
+  shares: BillShare[];
+}
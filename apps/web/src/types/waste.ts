@@ -0,0 +1,29 @@
+import type { KitchenReason } from './order';
+
+export interface WasteByReason {
+  reason: KitchenReason;
+  remakes: number;
+  voids: number;
+  quantity: number;
+  cost: number;
+}
+
+export interface WasteByItem {
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  cost: number;
+}
+
+// Remakes and voids over a period; costs are in the tenant's currency, major units
+export interface WasteReport {
+  from: string;
+  to: string;
+  remakes: number;
+  voids: number;
+  recalls: number;
+  totalCost: number;
+  byReason: WasteByReason[];
+  // Costliest first
+  byItem: WasteByItem[];
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export { askMenuAssistant, getMenuAssistantProvider } from './menu-assistant';
+export { LocalMenuAssistantProvider } from './providers/local';
+export { OpenAIMenuAssistantProvider } from './providers/openai';
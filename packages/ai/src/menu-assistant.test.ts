@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { askMenuAssistant } from './menu-assistant';
+import { LocalMenuAssistantProvider } from './providers/local';
+import type { AssistantMenuItem, MenuAssistantProvider, MenuAssistantRequest } from './types';
+
+const dish = (item: Partial<AssistantMenuItem> & Pick<AssistantMenuItem, 'id' | 'name'>): AssistantMenuItem => ({
+  description: '',
+  price: 10,
+  category: 'Mains',
+  allergens: [],
+  dietary: [],
+  tags: [],
+  preparationTime: 15,
+  available: true,
+  ...item,
+});
+
+const menu = [
+  dish({ id: 'satay', name: 'Chicken Satay', allergens: ['peanuts'], spiceLevel: 2 }),
+  dish({ id: 'curry', name: 'Green Curry', dietary: ['vegan'], spiceLevel: 3, calories: 650 }),
+  dish({ id: 'salad', name: 'Garden Salad', dietary: ['vegan', 'vegetarian'], calories: 250, preparationTime: 5 }),
+  dish({ id: 'vindaloo', name: 'Lamb Vindaloo', spiceLevel: 5, available: false }),
+  dish({ id: 'sorbet', name: 'Mango Sorbet', category: 'Desserts', dietary: ['vegan'], available: false }),
+];
+
+const ask = (question: string, provider: MenuAssistantProvider = new LocalMenuAssistantProvider()) => {
+  const request: MenuAssistantRequest = {
+    restaurantName: 'Test Kitchen',
+    currency: 'USD',
+    locale: 'en-US',
+    menu,
+    messages: [{ role: 'user', content: question }],
+  };
+  return askMenuAssistant(provider, request);
+};
+
+describe('askMenuAssistant with the local provider', () => {
+  it('never suggests unavailable items', async () => {
+    const reply = await ask('What is spicy?');
+    expect(reply.suggestedItemIds).toEqual(['curry', 'satay']);
+    expect(reply.message).not.toContain('Vindaloo');
+  });
+
+  it('does not describe an unavailable dish asked about by name', async () => {
+    const reply = await ask('Tell me about the lamb vindaloo');
+    expect(reply.suggestedItemIds).not.toContain('vindaloo');
+  });
+
+  it('does not offer a category whose items are all unavailable', async () => {
+    const reply = await ask('Any desserts?');
+    expect(reply.suggestedItemIds).not.toContain('sorbet');
+    expect(reply.message).not.toContain('Sorbet');
+  });
+
+  it('says so when nothing matches', async () => {
+    const reply = await ask('Something halal please');
+    expect(reply.suggestedItemIds).toEqual([]);
+    expect(reply.message).toContain("couldn't find anything");
+  });
+
+  it('leaves out dishes with an allergen the guest avoids', async () => {
+    const reply = await ask("I'm allergic to peanuts, what can I have?");
+    expect(reply.suggestedItemIds).toEqual(['curry', 'salad']);
+  });
+
+  it('filters by diet', async () => {
+    const reply = await ask('What is vegetarian?');
+    expect(reply.suggestedItemIds).toEqual(['salad']);
+  });
+
+  it('answers questions about one dish with its details', async () => {
+    const reply = await ask('How long does the garden salad take?');
+    expect(reply.suggestedItemIds).toEqual(['salad']);
+    expect(reply.message).toContain('$10.00');
+    expect(reply.message).toContain('ready in about 5 min');
+  });
+
+  it('is deterministic', async () => {
+    expect(await ask('Something light please')).toEqual(await ask('Something light please'));
+  });
+});
+
+describe('askMenuAssistant', () => {
+  it('only shows the provider the available menu', async () => {
+    let seen: string[] = [];
+    await ask('Anything', {
+      name: 'spy',
+      async reply(request) {
+        seen = request.menu.map(item => item.id);
+        return { message: '', suggestedItemIds: [] };
+      },
+    });
+    expect(seen).toEqual(['satay', 'curry', 'salad']);
+  });
+
+  it('drops suggestions that are not orderable items on the menu', async () => {
+    const reply = await ask('Anything', {
+      name: 'confused',
+      async reply() {
+        return { message: 'Try these', suggestedItemIds: ['curry', 'vindaloo', 'pizza', 'curry'] };
+      },
+    });
+    expect(reply).toEqual({ message: 'Try these', suggestedItemIds: ['curry'] });
+  });
+});
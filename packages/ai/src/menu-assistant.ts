@@ -0,0 +1,40 @@
+import { LocalMenuAssistantProvider } from './providers/local';
+import { OpenAIMenuAssistantProvider } from './providers/openai';
+import type { MenuAssistantProvider, MenuAssistantReply, MenuAssistantRequest } from './types';
+
+const MAX_SUGGESTIONS = 5;
+const MAX_HISTORY = 12;
+
+/**
+ * Picks the provider from the environment. Falls back to the offline stub
+ * when `AI_PROVIDER=local` or no OpenAI key is configured.
+ */
+export function getMenuAssistantProvider(): MenuAssistantProvider {
+  if (process.env.AI_PROVIDER === 'local' || !process.env.OPENAI_API_KEY) {
+    return new LocalMenuAssistantProvider();
+  }
+  return new OpenAIMenuAssistantProvider(process.env.OPENAI_API_KEY);
+}
+
+/**
+ * Asks the provider about the available part of the menu and drops any
+ * suggestion that is not an orderable item on it, whatever the model says.
+ */
+export async function askMenuAssistant(
+  provider: MenuAssistantProvider,
+  request: MenuAssistantRequest
+): Promise<MenuAssistantReply> {
+  const menu = request.menu.filter(item => item.available);
+  const reply = await provider.reply({
+    ...request,
+    menu,
+    messages: request.messages.slice(-MAX_HISTORY),
+  });
+
+  const menuIds = new Set(menu.map(item => item.id));
+  const suggestedItemIds = Array.from(new Set(reply.suggestedItemIds))
+    .filter(id => menuIds.has(id))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return { message: reply.message, suggestedItemIds };
+}
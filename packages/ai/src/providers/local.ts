@@ -0,0 +1,135 @@
+import { formatMoney, fromMajor } from '@hospity/utils';
+import type {
+  AssistantMenuItem,
+  MenuAssistantProvider,
+  MenuAssistantReply,
+  MenuAssistantRequest,
+} from '../types';
+
+const MAX_SUGGESTIONS = 3;
+
+// Canonical allergen -> words a guest might use for it
+const ALLERGEN_SYNONYMS: Record<string, string[]> = {
+  nuts: ['nut', 'nuts', 'peanut', 'peanuts', 'almond', 'almonds', 'cashew', 'walnut', 'hazelnut'],
+  gluten: ['gluten', 'wheat'],
+  dairy: ['dairy', 'milk', 'lactose', 'cheese', 'cream'],
+  eggs: ['egg', 'eggs'],
+  soy: ['soy', 'soya'],
+  shellfish: ['shellfish', 'shrimp', 'prawn', 'prawns', 'crab', 'lobster'],
+  fish: ['fish'],
+  sesame: ['sesame'],
+};
+
+const DIETARY_TAGS = ['vegan', 'vegetarian', 'halal', 'kosher', 'keto'];
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+function findAvoidedAllergens(question: string): string[] {
+  return Object.entries(ALLERGEN_SYNONYMS)
+    .filter(([, words]) =>
+      words.some(word =>
+        new RegExp(`\\b(no|without|free of|allergic to|avoid)\\s+(any\\s+)?${word}\\b`).test(question) ||
+        new RegExp(`\\b${word}[- ]free\\b`).test(question) ||
+        new RegExp(`\\b${word}\\s+allerg(y|ies|ic)\\b`).test(question)
+      )
+    )
+    .map(([allergen]) => allergen);
+}
+
+const containsAllergen = (item: AssistantMenuItem, allergen: string) =>
+  item.allergens.some(a =>
+    ALLERGEN_SYNONYMS[allergen].some(word => normalize(a).includes(word)) || normalize(a).includes(allergen)
+  );
+
+function describeItem(item: AssistantMenuItem, currency: string, locale: string): string {
+  const facts = [
+    formatMoney(fromMajor(item.price, currency), locale),
+    `ready in about ${item.preparationTime} min`,
+  ];
+  if (item.calories) facts.push(`${item.calories} cal`);
+  if (item.spiceLevel) facts.push(`spice level ${item.spiceLevel}/5`);
+  if (item.dietary.length > 0) facts.push(item.dietary.join(', '));
+  facts.push(item.allergens.length > 0 ? `contains ${item.allergens.join(', ')}` : 'no listed allergens');
+  return `${item.name} (${facts.join('; ')})`;
+}
+
+/**
+ * Deterministic, offline assistant that answers from keyword rules over the
+ * menu. Used in development, in tests and when no model is configured.
+ */
+export class LocalMenuAssistantProvider implements MenuAssistantProvider {
+  readonly name = 'local';
+
+  async reply({ menu, messages, currency, locale }: MenuAssistantRequest): Promise<MenuAssistantReply> {
+    const lastQuestion = [...messages].reverse().find(m => m.role === 'user');
+    const question = normalize(lastQuestion?.content || '');
+
+    // A question about one specific dish gets that dish's details
+    const mentioned = menu.find(item => question.includes(normalize(item.name)));
+    if (mentioned) {
+      return {
+        message: `Here's what I know about ${describeItem(mentioned, currency, locale)}.`,
+        suggestedItemIds: [mentioned.id],
+      };
+    }
+
+    let matches = menu.filter(item => item.available);
+    const criteria: string[] = [];
+
+    const avoided = findAvoidedAllergens(question);
+    if (avoided.length > 0) {
+      matches = matches.filter(item => avoided.every(allergen => !containsAllergen(item, allergen)));
+      criteria.push(`without ${avoided.join(' or ')}`);
+    }
+
+    const dietary = DIETARY_TAGS.filter(tag => question.includes(tag));
+    if (dietary.length > 0) {
+      matches = matches.filter(item => dietary.every(tag => item.dietary.map(normalize).includes(tag)));
+      criteria.push(dietary.join(' and '));
+    }
+
+    if (/\b(not spicy|mild|no spice)\b/.test(question)) {
+      matches = matches.filter(item => !item.spiceLevel || item.spiceLevel <= 1);
+      criteria.push('mild');
+    } else if (/\b(spicy|hot)\b/.test(question)) {
+      matches = matches.filter(item => (item.spiceLevel || 0) >= 2);
+      matches.sort((a, b) => (b.spiceLevel || 0) - (a.spiceLevel || 0));
+      criteria.push('spicy');
+    }
+
+    if (/\b(light|low[- ]cal(orie)?s?|healthy)\b/.test(question)) {
+      matches = matches.filter(item => item.calories !== undefined);
+      matches.sort((a, b) => (a.calories || 0) - (b.calories || 0));
+      criteria.push('lighter');
+    }
+
+    if (/\b(quick|fast|hurry|soon)\b/.test(question)) {
+      matches = [...matches].sort((a, b) => a.preparationTime - b.preparationTime);
+      criteria.push('quick to prepare');
+    }
+
+    const category = Array.from(new Set(menu.map(item => item.category)))
+      .find(c => question.includes(normalize(c)));
+    if (category) {
+      matches = matches.filter(item => item.category === category);
+      criteria.push(`from ${category}`);
+    }
+
+    if (matches.length === 0) {
+      return {
+        message: "I couldn't find anything on our menu that matches that. Could you tell me a bit more about what you're looking for?",
+        suggestedItemIds: [],
+      };
+    }
+
+    const suggestions = matches.slice(0, MAX_SUGGESTIONS);
+    const intro = criteria.length > 0
+      ? `Here are some options that are ${criteria.join(', ')}:`
+      : 'Here are a few dishes I can recommend:';
+
+    return {
+      message: [intro, ...suggestions.map(item => `• ${describeItem(item, currency, locale)}`)].join('\n'),
+      suggestedItemIds: suggestions.map(item => item.id),
+    };
+  }
+}
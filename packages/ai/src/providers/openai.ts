@@ -0,0 +1,59 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { formatMoney, fromMajor } from '@hospity/utils';
+import type { MenuAssistantProvider, MenuAssistantReply, MenuAssistantRequest } from '../types';
+
+const replySchema = z.object({
+  message: z.string(),
+  suggestedItemIds: z.array(z.string()).default([]),
+});
+
+function buildSystemPrompt({ restaurantName, currency, locale, menu }: MenuAssistantRequest): string {
+  const items = menu.map(item => ({
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    category: item.category,
+    price: formatMoney(fromMajor(item.price, currency), locale),
+    allergens: item.allergens,
+    dietary: item.dietary,
+    spiceLevel: item.spiceLevel ?? 0,
+    calories: item.calories,
+    preparationTime: item.preparationTime,
+  }));
+
+  return [
+    `You are the menu assistant for ${restaurantName}.`,
+    'Answer only from the menu below. Never mention, invent or guess dishes, ingredients or allergens that are not listed.',
+    'If the menu does not answer the question, say so and suggest asking staff, especially for allergy questions.',
+    'Reply as JSON: {"message": string, "suggestedItemIds": string[]} where suggestedItemIds are ids from the menu that fit the request (at most 3).',
+    `Menu: ${JSON.stringify(items)}`,
+  ].join('\n');
+}
+
+export class OpenAIMenuAssistantProvider implements MenuAssistantProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    private readonly model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  ) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async reply(request: MenuAssistantRequest): Promise<MenuAssistantReply> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0.2,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: buildSystemPrompt(request) },
+        ...request.messages.map(m => ({ role: m.role, content: m.content })),
+      ],
+    });
+
+    const content = completion.choices[0]?.message?.content || '{}';
+    return replySchema.parse(JSON.parse(content));
+  }
+}
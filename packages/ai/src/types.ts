@@ -0,0 +1,42 @@
+export interface AssistantMenuItem {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  category: string;
+  allergens: string[];
+  dietary: string[];
+  tags: string[];
+  preparationTime: number;
+  available: boolean;
+  calories?: number;
+  spiceLevel?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface MenuAssistantRequest {
+  restaurantName: string;
+  currency: string;
+  locale: string;
+  menu: AssistantMenuItem[];
+  messages: ChatMessage[];
+}
+
+export interface MenuAssistantReply {
+  message: string;
+  // Ids of menu items the guest can add straight to the cart
+  suggestedItemIds: string[];
+}
+
+/**
+ * A backend that answers guest questions about a menu. Implementations only
+ * see the menu they are given and must suggest items by id from it.
+ */
+export interface MenuAssistantProvider {
+  readonly name: string;
+  reply(request: MenuAssistantRequest): Promise<MenuAssistantReply>;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { add, allocate, formatMoney, fromMajor, money, multiply, roundHalfEven, toMajor } from './money';
+
+describe('roundHalfEven', () => {
+  it('sends exact halves to the even neighbour', () => {
+    expect(roundHalfEven(0.5)).toBe(0);
+    expect(roundHalfEven(1.5)).toBe(2);
+    expect(roundHalfEven(2.5)).toBe(2);
+    expect(roundHalfEven(-0.5)).toBe(0);
+    expect(roundHalfEven(-1.5)).toBe(-2);
+  });
+
+  it('rounds everything else to the nearest integer', () => {
+    expect(roundHalfEven(2.4999)).toBe(2);
+    expect(roundHalfEven(2.5001)).toBe(3);
+    expect(roundHalfEven(-2.6)).toBe(-3);
+  });
+
+  it('treats float noise around a half as a half', () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(roundHalfEven(1.005 * 100)).toBe(100);
+    expect(roundHalfEven(1.015 * 100)).toBe(102);
+  });
+});
+
+describe('conversions', () => {
+  it('uses the currency minor unit', () => {
+    expect(fromMajor(18.99, 'USD')).toEqual(money(1899, 'USD'));
+    expect(fromMajor(1500, 'JPY')).toEqual(money(1500, 'JPY'));
+    expect(fromMajor(1.234, 'KWD')).toEqual(money(1234, 'KWD'));
+    expect(toMajor(money(1899, 'USD'))).toBe(18.99);
+  });
+
+  it('keeps sums exact where floats drift', () => {
+    expect(add(fromMajor(0.1, 'USD'), fromMajor(0.2, 'USD'))).toEqual(money(30, 'USD'));
+  });
+
+  it('refuses fractional minor units and mixed currencies', () => {
+    expect(() => money(10.5, 'USD')).toThrow();
+    expect(() => add(money(1, 'USD'), money(1, 'EUR'))).toThrow();
+  });
+
+  it('rounds multiplied amounts half to even', () => {
+    expect(multiply(money(250, 'USD'), 0.01)).toEqual(money(2, 'USD'));
+    expect(multiply(money(350, 'USD'), 0.01)).toEqual(money(4, 'USD'));
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats in the locale with the currency digits', () => {
+    expect(formatMoney(money(1899, 'USD'), 'en-US')).toBe('$18.99');
+    expect(formatMoney(money(1500, 'JPY'), 'en-US')).toBe('¥1,500');
+  });
+
+  it('follows the locale separators', () => {
+    expect(formatMoney(money(123456, 'EUR'), 'de-DE')).toBe('1.234,56 €');
+  });
+});
+
+describe('allocate', () => {
+  const amounts = (shares: { amount: number }[]) => shares.map(share => share.amount);
+
+  it('gives leftover units to the largest remainders', () => {
+    expect(amounts(allocate(money(100, 'USD'), [1, 1, 1]))).toEqual([34, 33, 33]);
+    expect(amounts(allocate(money(1000, 'USD'), [1, 2]))).toEqual([333, 667]);
+  });
+
+  it('never loses or invents minor units', () => {
+    const shares = allocate(money(1001, 'USD'), [0.3, 0.3, 0.4]);
+    expect(amounts(shares).reduce((sum, amount) => sum + amount, 0)).toBe(1001);
+  });
+
+  it('breaks remainder ties by position', () => {
+    expect(amounts(allocate(money(5, 'USD'), [1, 1, 1, 1]))).toEqual([2, 1, 1, 1]);
+  });
+
+  it('splits evenly when every ratio is zero', () => {
+    expect(amounts(allocate(money(10, 'USD'), [0, 0]))).toEqual([5, 5]);
+  });
+
+  it('returns no shares for no ratios', () => {
+    expect(allocate(money(10, 'USD'), [])).toEqual([]);
+  });
+
+  it('keeps the currency', () => {
+    expect(allocate(money(3, 'JPY'), [1, 1]).every(share => share.currency === 'JPY')).toBe(true);
+  });
+});
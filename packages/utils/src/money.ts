@@ -0,0 +1,119 @@
+/**
+ * An amount of money in integer minor units (cents, pence; whole yen for
+ * JPY). Arithmetic stays in integers so totals never drift.
+ */
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+const ROUNDING_EPSILON = 1e-9;
+
+const minorDigitsCache = new Map<string, number>();
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+export function getMinorUnitDigits(currency: string): number {
+  let digits = minorDigitsCache.get(currency);
+  if (digits === undefined) {
+    digits = new Intl.NumberFormat('en', { style: 'currency', currency })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+    minorDigitsCache.set(currency, digits);
+  }
+  return digits;
+}
+
+/**
+ * Rounds to the nearest integer, sending exact halves to the even neighbour
+ * (banker's rounding) so repeated rounding does not bias totals upwards.
+ */
+export function roundHalfEven(value: number): number {
+  const floor = Math.floor(value);
+  const fraction = value - floor;
+  if (Math.abs(fraction - 0.5) < ROUNDING_EPSILON) {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return Math.round(value);
+}
+
+export const money = (amount: number, currency: string): Money => {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Money amounts must be integer minor units, got ${amount}`);
+  }
+  return { amount, currency };
+};
+
+export const zero = (currency: string): Money => money(0, currency);
+
+/** Converts a decimal amount such as a stored menu price (18.99) to Money. */
+export const fromMajor = (value: number, currency: string): Money =>
+  money(roundHalfEven(value * 10 ** getMinorUnitDigits(currency)), currency);
+
+/** Converts back to a decimal amount for storage or charts. */
+export const toMajor = ({ amount, currency }: Money): number =>
+  amount / 10 ** getMinorUnitDigits(currency);
+
+function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} with ${b.currency}`);
+  }
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+/** Multiplies by a quantity or rate, e.g. a tax rate of 0.0825. */
+export const multiply = (m: Money, factor: number): Money =>
+  money(roundHalfEven(m.amount * factor), m.currency);
+
+export const sumMoney = (amounts: Money[], currency: string): Money =>
+  amounts.reduce(add, zero(currency));
+
+export const isLessThan = (a: Money, b: Money): boolean => {
+  assertSameCurrency(a, b);
+  return a.amount < b.amount;
+};
+
+export const moneyEquals = (a: Money, b: Money): boolean =>
+  a.currency === b.currency && a.amount === b.amount;
+
+export function formatMoney(m: Money, locale: string): string {
+  const key = `${locale}:${m.currency}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency: m.currency });
+    formatterCache.set(key, formatter);
+  }
+  return formatter.format(toMajor(m));
+}
+
+/**
+ * Splits an amount by the given ratios without losing or inventing minor
+ * units; leftover units go to the shares with the largest remainders.
+ */
+export function allocate(m: Money, ratios: number[]): Money[] {
+  const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  if (ratios.length === 0) return [];
+  if (totalRatio <= 0) {
+    return allocate(m, ratios.map(() => 1));
+  }
+
+  const exact = ratios.map(ratio => (m.amount * ratio) / totalRatio);
+  const shares = exact.map(Math.floor);
+  let remainder = m.amount - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (let i = 0; remainder > 0; i = (i + 1) % byRemainder.length, remainder--) {
+    shares[byRemainder[i].index] += 1;
+  }
+
+  return shares.map(amount => money(amount, m.currency));
+}